@@ -1,29 +1,17 @@
 #!/bin/sh
 
-# Runtime environment variable injection for Vite app
+# Runtime startup for Histowalk. Vendor API keys stay in the server process and
+# are only used by the /api/* proxy routes in server.cjs - they are never written
+# into the static bundle.
 echo "🚀 Starting Histowalk App..."
 
-# Create runtime config file with environment variables
-cat > ./dist/config.js << EOF
-window.__RUNTIME_CONFIG__ = {
-  VITE_OPENAI_API_KEY: "${VITE_OPENAI_API_KEY:-}",
-  VITE_GEOAPIFY_API_KEY: "${VITE_GEOAPIFY_API_KEY:-}",
-  VITE_MAPBOX_API_KEY: "${VITE_MAPBOX_API_KEY:-}"
-};
-EOF
-
-# Inject the config script into index.html if not already present
-if ! grep -q "config.js" ./dist/index.html; then
-  sed -i 's|<head>|<head>\n    <script src="/config.js"></script>|' ./dist/index.html
-fi
-
-echo "✅ Runtime configuration injected"
 echo "🌟 Environment variables loaded:"
-echo "   - VITE_OPENAI_API_KEY: ${VITE_OPENAI_API_KEY:+***}"
-echo "   - VITE_GEOAPIFY_API_KEY: ${VITE_GEOAPIFY_API_KEY:+***}"
-echo "   - VITE_MAPBOX_API_KEY: ${VITE_MAPBOX_API_KEY:+***}"
+echo "   - OPENAI_API_KEY: ${OPENAI_API_KEY:+***}${VITE_OPENAI_API_KEY:+*** (legacy VITE_ name)}"
+echo "   - GEOAPIFY_API_KEY: ${GEOAPIFY_API_KEY:+***}${VITE_GEOAPIFY_API_KEY:+*** (legacy VITE_ name)}"
+echo "   - MAPBOX_API_KEY: ${MAPBOX_API_KEY:+***}${VITE_MAPBOX_API_KEY:+*** (legacy VITE_ name)}"
+echo "   - ELEVENLABS_API_KEY: ${ELEVENLABS_API_KEY:+***}${VITE_ELEVENLABS_API_KEY:+*** (legacy VITE_ name)}"
 echo "   - PORT: ${PORT:-8080}"
 
 # Start the server
 echo "🚀 Starting server on port ${PORT:-8080}..."
-exec node server.cjs 
\ No newline at end of file
+exec node server.cjs
@@ -1,24 +1,306 @@
 const express = require('express');
 const path = require('path');
+const { Readable, pipeline } = require('stream');
 const app = express();
 const port = process.env.PORT || 8080;
 
+// Vendor API keys live on the server only. The VITE_* names are still accepted
+// so existing deployments keep working, but they are never sent to the browser.
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || process.env.VITE_OPENAI_API_KEY;
+const GEOAPIFY_API_KEY = process.env.GEOAPIFY_API_KEY || process.env.VITE_GEOAPIFY_API_KEY;
+const MAPBOX_API_KEY = process.env.MAPBOX_API_KEY || process.env.VITE_MAPBOX_API_KEY;
+const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY || process.env.VITE_ELEVENLABS_API_KEY;
+
+const MAPBOX_PROFILES = ['driving', 'driving-traffic', 'walking', 'cycling'];
+
+// The chat proxy only passes on what the app itself sends, so the key cannot
+// be used for other models, several choices, tools or very long answers
+const CHAT_MODELS = ['gpt-4o-mini', 'gpt-3.5-turbo'];
+const CHAT_FIELDS = ['model', 'messages', 'response_format', 'temperature', 'presence_penalty', 'frequency_penalty', 'max_tokens', 'stream'];
+const CHAT_ROLES = ['system', 'user', 'assistant'];
+const MAX_CHAT_TOKENS = 4096;
+const TTS_MODELS = ['eleven_monolingual_v1', 'eleven_multilingual_v2'];
+const TTS_FIELDS = ['text', 'model_id', 'voice_settings'];
+const TTS_VOICE_SETTINGS = { stability: [0, 1], similarity_boost: [0, 1], speed: [0.7, 1.2] };
+const MAX_TTS_CHARACTERS = 5000;
+const VOICE_ID_PATTERN = /^[A-Za-z0-9]+$/;
+const COORDINATES_PATTERN = /^-?\d+(\.\d+)?,-?\d+(\.\d+)?(;-?\d+(\.\d+)?,-?\d+(\.\d+)?)+$/;
+
+app.use(express.json({ limit: '1mb' }));
 app.use(express.static(path.join(__dirname, 'dist')));
 
 // Health check endpoint
 app.get('/health', (req, res) => {
-  res.status(200).json({ 
-    status: 'healthy', 
+  res.status(200).json({
+    status: 'healthy',
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
     version: process.env.npm_package_version || '1.0.0'
   });
 });
 
+// Reply with 503 when a vendor key is missing, so the client can fall back
+const requireKey = (apiKey, vendor, res) => {
+  if (!apiKey) {
+    res.status(503).json({ error: `${vendor} API key is not configured on the server` });
+    return false;
+  }
+  return true;
+};
+
+// Copy the client's query string, minus anything that looks like a credential
+const forwardQuery = (query, target) => {
+  for (const [key, value] of Object.entries(query)) {
+    if (key === 'apiKey' || key === 'access_token' || key === 'key') continue;
+    if (typeof value === 'string') {
+      target.searchParams.append(key, value);
+    }
+  }
+};
+
+// Stream the vendor response (status, content type and body) back to the client
+const forwardResponse = async (upstream, res) => {
+  res.status(upstream.status);
+  const contentType = upstream.headers.get('content-type');
+  if (contentType) {
+    res.set('Content-Type', contentType);
+  }
+  if (!upstream.body) {
+    res.end();
+    return;
+  }
+  // pipeline cleans up both sides when the client disconnects mid-stream
+  pipeline(Readable.fromWeb(upstream.body), res, (error) => {
+    if (error) {
+      console.warn('Proxy stream ended early:', error.message);
+    }
+  });
+};
+
+const proxyError = (vendor, res, error) => {
+  console.error(`${vendor} proxy error:`, error);
+  if (!res.headersSent) {
+    res.status(502).json({ error: `${vendor} request failed` });
+  }
+};
+
+// Geoapify Places API
+app.get('/api/places', async (req, res) => {
+  if (!requireKey(GEOAPIFY_API_KEY, 'Geoapify', res)) return;
+
+  try {
+    const url = new URL('https://api.geoapify.com/v2/places');
+    forwardQuery(req.query, url);
+    url.searchParams.append('apiKey', GEOAPIFY_API_KEY);
+
+    await forwardResponse(await fetch(url), res);
+  } catch (error) {
+    proxyError('Geoapify', res, error);
+  }
+});
+
+// Mapbox Directions API, e.g. /api/directions/walking/13.4,52.5;13.41,52.51
+app.get('/api/directions/:profile/:coordinates', async (req, res) => {
+  if (!requireKey(MAPBOX_API_KEY, 'Mapbox', res)) return;
+
+  const { profile, coordinates } = req.params;
+  if (!MAPBOX_PROFILES.includes(profile)) {
+    res.status(400).json({ error: `Unsupported routing profile: ${profile}` });
+    return;
+  }
+  if (!COORDINATES_PATTERN.test(coordinates)) {
+    res.status(400).json({ error: 'Coordinates must be lng,lat pairs separated by semicolons' });
+    return;
+  }
+
+  try {
+    const url = new URL(`https://api.mapbox.com/directions/v5/mapbox/${profile}/${coordinates}`);
+    forwardQuery(req.query, url);
+    url.searchParams.append('access_token', MAPBOX_API_KEY);
+
+    await forwardResponse(await fetch(url), res);
+  } catch (error) {
+    proxyError('Mapbox', res, error);
+  }
+});
+
+// Mapbox Matrix API, e.g. /api/matrix/walking/13.4,52.5;13.41,52.51;13.42,52.52
+app.get('/api/matrix/:profile/:coordinates', async (req, res) => {
+  if (!requireKey(MAPBOX_API_KEY, 'Mapbox', res)) return;
+
+  const { profile, coordinates } = req.params;
+  if (!MAPBOX_PROFILES.includes(profile)) {
+    res.status(400).json({ error: `Unsupported routing profile: ${profile}` });
+    return;
+  }
+  if (!COORDINATES_PATTERN.test(coordinates)) {
+    res.status(400).json({ error: 'Coordinates must be lng,lat pairs separated by semicolons' });
+    return;
+  }
+
+  try {
+    const url = new URL(`https://api.mapbox.com/directions-matrix/v1/mapbox/${profile}/${coordinates}`);
+    forwardQuery(req.query, url);
+    url.searchParams.append('access_token', MAPBOX_API_KEY);
+
+    await forwardResponse(await fetch(url), res);
+  } catch (error) {
+    proxyError('Mapbox', res, error);
+  }
+});
+
+// The request body to send to OpenAI, or an error message for a 400
+const validateChatRequest = (body) => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+  const unknown = Object.keys(body).filter(key => !CHAT_FIELDS.includes(key));
+  if (unknown.length > 0) {
+    return { error: `Unsupported fields: ${unknown.join(', ')}` };
+  }
+  if (!CHAT_MODELS.includes(body.model)) {
+    return { error: `Unsupported model: ${body.model}` };
+  }
+  const validMessages = Array.isArray(body.messages) && body.messages.length > 0 && body.messages.every(message =>
+    message && CHAT_ROLES.includes(message.role) && typeof message.content === 'string' &&
+    Object.keys(message).every(key => key === 'role' || key === 'content')
+  );
+  if (!validMessages) {
+    return { error: 'messages must be a non-empty list of system, user or assistant text messages' };
+  }
+  if (body.response_format !== undefined && !['json_object', 'json_schema'].includes(body.response_format?.type)) {
+    return { error: 'Unsupported response_format' };
+  }
+  for (const key of ['temperature', 'presence_penalty', 'frequency_penalty']) {
+    if (body[key] !== undefined && (typeof body[key] !== 'number' || Math.abs(body[key]) > 2)) {
+      return { error: `${key} must be a number between -2 and 2` };
+    }
+  }
+  if (body.max_tokens !== undefined && (!Number.isInteger(body.max_tokens) || body.max_tokens < 1)) {
+    return { error: 'max_tokens must be a positive integer' };
+  }
+  if (body.stream !== undefined && typeof body.stream !== 'boolean') {
+    return { error: 'stream must be a boolean' };
+  }
+
+  return { body: { ...body, max_tokens: Math.min(body.max_tokens ?? MAX_CHAT_TOKENS, MAX_CHAT_TOKENS) } };
+};
+
+// OpenAI Chat Completions API
+app.post('/api/chat/completions', async (req, res) => {
+  if (!requireKey(OPENAI_API_KEY, 'OpenAI', res)) return;
+
+  const { body, error } = validateChatRequest(req.body);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  // Stop generating (and paying for) a streamed answer the client gave up on
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  try {
+    const upstream = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${OPENAI_API_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+
+    await forwardResponse(upstream, res);
+  } catch (error) {
+    proxyError('OpenAI', res, error);
+  }
+});
+
+// ElevenLabs voice list
+app.get('/api/tts/voices', async (req, res) => {
+  if (!requireKey(ELEVENLABS_API_KEY, 'ElevenLabs', res)) return;
+
+  try {
+    const upstream = await fetch('https://api.elevenlabs.io/v1/voices', {
+      headers: { 'xi-api-key': ELEVENLABS_API_KEY }
+    });
+
+    await forwardResponse(upstream, res);
+  } catch (error) {
+    proxyError('ElevenLabs', res, error);
+  }
+});
+
+// Only what the app sends is forwarded, and the text is capped, since every
+// character is billed to our ElevenLabs account
+const validateSpeechRequest = (voiceId, body) => {
+  if (!VOICE_ID_PATTERN.test(voiceId)) {
+    return { error: 'Invalid voice id' };
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+  const unknown = Object.keys(body).filter(key => !TTS_FIELDS.includes(key));
+  if (unknown.length > 0) {
+    return { error: `Unsupported fields: ${unknown.join(', ')}` };
+  }
+  if (typeof body.text !== 'string' || body.text.trim() === '' || body.text.length > MAX_TTS_CHARACTERS) {
+    return { error: `text must be between 1 and ${MAX_TTS_CHARACTERS} characters` };
+  }
+  if (body.model_id !== undefined && !TTS_MODELS.includes(body.model_id)) {
+    return { error: `Unsupported model: ${body.model_id}` };
+  }
+  if (body.voice_settings !== undefined) {
+    const settings = body.voice_settings;
+    const validSettings = settings && typeof settings === 'object' && !Array.isArray(settings) &&
+      Object.keys(settings).every(key => {
+        const range = Object.hasOwn(TTS_VOICE_SETTINGS, key) && TTS_VOICE_SETTINGS[key];
+        return range && typeof settings[key] === 'number' && settings[key] >= range[0] && settings[key] <= range[1];
+      });
+    if (!validSettings) {
+      return { error: 'voice_settings may only set stability and similarity_boost (0 to 1) and speed (0.7 to 1.2)' };
+    }
+  }
+
+  return { body: { text: body.text, model_id: body.model_id, voice_settings: body.voice_settings } };
+};
+
+// ElevenLabs text-to-speech, returns audio/mpeg
+app.post('/api/tts/:voiceId', async (req, res) => {
+  if (!requireKey(ELEVENLABS_API_KEY, 'ElevenLabs', res)) return;
+
+  const { body, error } = validateSpeechRequest(req.params.voiceId, req.body);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  try {
+    const upstream = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${req.params.voiceId}`, {
+      method: 'POST',
+      headers: {
+        'xi-api-key': ELEVENLABS_API_KEY,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+
+    await forwardResponse(upstream, res);
+  } catch (error) {
+    proxyError('ElevenLabs', res, error);
+  }
+});
+
+// Unknown API routes must not fall through to index.html
+app.all('/api/*', (req, res) => {
+  res.status(404).json({ error: 'Not found' });
+});
+
 app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, 'dist', 'index.html'));
 });
 
 app.listen(port, () => {
   console.log(`Server running on port ${port}`);
-}); 
\ No newline at end of file
+});
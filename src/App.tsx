@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import type { Map as LeafletMap } from 'leaflet';
 import { useGeolocation } from './hooks/useGeolocation';
 import { useHistoricalSpots } from './hooks/useHistoricalSpots';
@@ -8,22 +8,50 @@ import { useFavourites } from './hooks/useFavourites';
 import { useHome } from './hooks/useHome';
 import { useTrip } from './hooks/useTrip';
 import { useStartingPoint } from './hooks/useStartingPoint';
+import { useTripEditor } from './hooks/useTripEditor';
+import { useTripLibrary } from './hooks/useTripLibrary';
 import SatelliteMap from './components/SatelliteMap';
 import LoadingSpinner from './components/LoadingSpinner';
 import ChatButton from './components/ChatButton';
 import ChatInterface from './components/ChatInterface';
 import TripDisplay from './components/TripDisplay';
 import TripPanel from './components/TripPanel';
+import TripEditor from './components/TripEditor';
+import TripLibrary from './components/TripLibrary';
+import TripItinerary from './components/TripItinerary';
 import type { Route } from './services/routingService';
 import type { TripRoute } from './services/tripPlanningService';
 import NavigationPanel from './components/NavigationPanel';
 import { generateTripPlan } from './services/tripPlanningService';
+import { refineTrip, routeEditedTrip } from './services/tripRefinementService';
+import { isAbortError } from './services/apiClient';
+import { importTrip, parseTripFile } from './services/tripImportService';
+import { decodeTripShare, readTripShareToken } from './services/tripShareService';
+import { reorderForOpeningHours, scheduleTrip } from './services/tripScheduleService';
+import { calculateDistance } from './utils/mapBounds';
 import './App.css';
 
+// A shared trip starts from the recipient only when they are already nearby
+const SHARED_TRIP_NEARBY_METERS = 5000;
+
 function App() {
-  const { latitude, longitude, accuracy, error, loading } = useGeolocation();
+  const { 
+    latitude, 
+    longitude, 
+    accuracy, 
+    heading, 
+    speed, 
+    error, 
+    warning: locationWarning,
+    loading, 
+    isTracking, 
+    pause: pauseTracking, 
+    resume: resumeTracking 
+  } = useGeolocation();
   const { 
     spots: historicalSpots, 
+    totalFound: historicalTotal,
+    complete: historicalComplete,
     loading: spotsLoading, 
     error: spotsError, 
     searchSpots,
@@ -32,6 +60,8 @@ function App() {
   
   const {
     spots: foodBeverageSpots,
+    totalFound: foodBeverageTotal,
+    complete: foodBeverageComplete,
     loading: foodLoading,
     error: foodError,
     searchSpots: searchFoodSpots,
@@ -40,6 +70,8 @@ function App() {
   
   const {
     spots: accommodationSpots,
+    totalFound: accommodationTotal,
+    complete: accommodationComplete,
     loading: accommodationLoading,
     error: accommodationError,
     searchSpots: searchAccommodationSpots,
@@ -67,15 +99,32 @@ function App() {
   const [allTrips, setAllTrips] = useState<TripRoute[]>([]);
   const [chatMessages, setChatMessages] = useState<Array<{ id: string; type: 'user' | 'ai'; content: string; timestamp: Date }>>([]);
   const [isGeneratingTrip, setIsGeneratingTrip] = useState(false);
+  const [streamingReply, setStreamingReply] = useState('');
+  const tripRequestRef = useRef<AbortController | null>(null);
   const [showTripPanel, setShowTripPanel] = useState(false);
+  const [itineraryTrip, setItineraryTrip] = useState<TripRoute | null>(null);
 
   // Favourites functionality
   const { 
     favourites, 
     toggleFavourite, 
-    isFavourite
+    isFavourite,
+    relinkLegacyFavourites
   } = useFavourites();
 
+  // Migrate favourites saved with index-based ids once their places are found again
+  useEffect(() => {
+    relinkLegacyFavourites('historical', historicalSpots);
+  }, [historicalSpots, relinkLegacyFavourites]);
+
+  useEffect(() => {
+    relinkLegacyFavourites('food', foodBeverageSpots);
+  }, [foodBeverageSpots, relinkLegacyFavourites]);
+
+  useEffect(() => {
+    relinkLegacyFavourites('accommodation', accommodationSpots);
+  }, [accommodationSpots, relinkLegacyFavourites]);
+
   // Home functionality
   const { 
     homeLocation, 
@@ -88,12 +137,23 @@ function App() {
     currentTrip,
     isTripMode,
     setTrip,
+    updateRoute: updateCurrentTripRoute,
     clearTrip,
     toggleTripMode,
     hasTrip,
-    isTripActive
+    isTripActive,
+    tripProgress,
+    isRerouting,
+    updatePosition
   } = useTrip();
 
+  // Advance the active trip as the walker moves
+  useEffect(() => {
+    if (isTripMode && latitude !== null && longitude !== null) {
+      updatePosition(latitude, longitude, accuracy);
+    }
+  }, [isTripMode, latitude, longitude, accuracy, updatePosition]);
+
   // Starting point functionality
   const {
     startingPoint,
@@ -101,6 +161,68 @@ function App() {
     clearStartingPoint
   } = useStartingPoint();
 
+  // Hand-edited trips start where generated ones do
+  const tripStart = startingPoint || (latitude !== null && longitude !== null ? { latitude, longitude } : null);
+  const {
+    draft: tripDraft,
+    isEditing: isEditingTrip,
+    isRouting: isRoutingDraft,
+    editError: tripEditError,
+    startEditing: startTripEditing,
+    cancelEditing: cancelTripEditing,
+    addStop: addTripStop,
+    removeStop: removeTripStop,
+    moveStop: moveTripStop,
+    setVisitDuration: setTripStopVisitDuration,
+    setTravelMode: setTripDraftMode,
+    setLegMode: setTripDraftLegMode,
+    renameTrip: renameTripDraft
+  } = useTripEditor(tripStart);
+
+  const {
+    savedTrips,
+    saveTrip,
+    renameTrip: renameSavedTrip,
+    duplicateTrip,
+    deleteTrip: deleteSavedTrip,
+    isSaved: isTripSaved
+  } = useTripLibrary();
+
+  // Share links (/trip/1/...) open their trip once the location has settled
+  const [sharedTripToken, setSharedTripToken] = useState(() => readTripShareToken(window.location.pathname));
+  useEffect(() => {
+    if (!sharedTripToken || loading) return;
+    setSharedTripToken(null);
+    window.history.replaceState(null, '', '/');
+
+    let shared;
+    try {
+      shared = decodeTripShare(sharedTripToken);
+    } catch (error) {
+      console.error('❌ Could not open shared trip:', error);
+      window.alert(`This trip link could not be opened: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    const firstStop = shared.trip.points[0];
+    const here = startingPoint || (latitude !== null && longitude !== null ? { latitude, longitude } : null);
+    const start = here && calculateDistance(here.latitude, here.longitude, firstStop.latitude, firstStop.longitude) <= SHARED_TRIP_NEARBY_METERS
+      ? here
+      : firstStop;
+    console.log(`🔗 Opening shared trip "${shared.trip.name}" (${shared.trip.points.length} stops, ${shared.profile})`);
+
+    routeEditedTrip(shared.trip, start)
+      .catch(error => {
+        console.error('❌ Could not route shared trip, showing stops only:', error);
+        return shared.trip;
+      })
+      .then(trip => {
+        setAllTrips(prev => prev.some(existing => existing.id === trip.id) ? prev : [...prev, trip]);
+        setCurrentTripDisplay(trip);
+        setTripDisplayOpen(true);
+      });
+  }, [sharedTripToken, loading, startingPoint, latitude, longitude]);
+
   const handleSetHome = () => {
     if (latitude !== null && longitude !== null) {
       setHome(latitude, longitude);
@@ -210,9 +332,112 @@ function App() {
   };
 
   const handleCloseChat = () => {
+    // Stop any trip still being planned, its answer would have nowhere to go
+    tripRequestRef.current?.abort();
     setChatOpen(false);
   };
 
+  // Loaded spots in the shape the trip planner expects
+  const buildAvailablePoints = () => ({
+    historical: historicalSpots.map(spot => ({
+      id: spot.id,
+      name: spot.name,
+      category: spot.category,
+      latitude: spot.latitude,
+      longitude: spot.longitude,
+      description: spot.description || '',
+      openingHours: spot.openingHours
+    })),
+    food: foodBeverageSpots.map(spot => ({
+      id: spot.id,
+      name: spot.name,
+      category: spot.category,
+      latitude: spot.latitude,
+      longitude: spot.longitude,
+      description: spot.description || '',
+      openingHours: spot.openingHours
+    })),
+    accommodation: accommodationSpots.map(spot => ({
+      id: spot.id,
+      name: spot.name,
+      category: spot.category,
+      latitude: spot.latitude,
+      longitude: spot.longitude,
+      description: spot.description || '',
+      openingHours: spot.openingHours
+    }))
+  });
+
+  // Swap an edited trip in everywhere it is shown
+  const handleTripEdited = (trip: TripRoute) => {
+    setAllTrips(prev => prev.some(existing => existing.id === trip.id)
+      ? prev.map(existing => existing.id === trip.id ? trip : existing)
+      : [...prev, trip]);
+    // Edits to a saved trip are kept in the library too
+    if (isTripSaved(trip)) {
+      saveTrip(trip);
+    }
+    setCurrentTripDisplay(trip);
+    setTripDisplayOpen(true);
+    if (currentTrip?.route.id === trip.id) {
+      setTrip(trip);
+    }
+  };
+
+  // Save to the library; a trip stored under a new id is shown with that id from now on
+  const handleSaveTrip = (trip: TripRoute) => {
+    const saved = saveTrip(trip);
+    if (saved.id === trip.id) return;
+    setAllTrips(prev => prev.map(existing => existing === trip ? saved : existing));
+    setCurrentTripDisplay(prev => prev === trip ? saved : prev);
+    if (currentTrip?.route === trip) {
+      updateCurrentTripRoute(saved);
+    }
+  };
+
+  // Where a trip's legs start: its first routed leg, or where new trips start
+  const tripOrigin = (trip: TripRoute) => {
+    const from = trip.routeSegments?.[0]?.fromCoordinates;
+    return from ? { latitude: from[0], longitude: from[1] } : tripStart;
+  };
+
+  // A new start time moves every stop's clock time; transit legs depend on it,
+  // so those trips are routed again
+  const handleTripStartTimeChange = (trip: TripRoute, startTime: Date) => {
+    const origin = tripOrigin(trip);
+    const usesTransit = trip.mode === 'transit' || trip.points.some(point => point.travelMode === 'transit');
+    if (!usesTransit || !origin) {
+      handleTripEdited(scheduleTrip(trip, startTime));
+      return;
+    }
+    routeEditedTrip({ ...trip, startTime: startTime.toISOString() }, origin)
+      .catch(error => {
+        console.error('❌ Could not reroute the trip for the new start time:', error);
+        return scheduleTrip(trip, startTime);
+      })
+      .then(handleTripEdited);
+  };
+
+  const handleReorderForOpeningHours = (trip: TripRoute) => {
+    const startTime = trip.startTime ? new Date(trip.startTime) : new Date();
+    const origin = tripOrigin(trip);
+    const reordered = reorderForOpeningHours(trip, startTime, { origin: origin || undefined });
+    if (!reordered) {
+      window.alert('No other order of the stops avoids the closed places. Try another start time or remove them.');
+      return;
+    }
+    if (!origin) {
+      handleTripEdited(scheduleTrip(reordered, startTime));
+      return;
+    }
+    routeEditedTrip({ ...reordered, startTime: startTime.toISOString() }, origin)
+      .catch(error => {
+        console.error('❌ Could not route the reordered trip, showing stops only:', error);
+        return scheduleTrip({ ...reordered, routeSegments: undefined, routeGeometry: undefined }, startTime);
+      })
+      .then(handleTripEdited);
+  };
+
   const handleGenerateTrip = async (userInput: string) => {
     // Use starting point if set, otherwise use current location
     const userLat = startingPoint ? startingPoint.latitude : latitude;
@@ -230,35 +455,49 @@ function App() {
     setChatMessages(prev => [...prev, userMessage]);
 
     setIsGeneratingTrip(true);
+    const controller = new AbortController();
+    tripRequestRef.current = controller;
+    const streamOptions = { signal: controller.signal, onProgress: setStreamingReply };
 
     try {
-      // Prepare available points for AI
-      const availablePoints = {
-        historical: historicalSpots.map(spot => ({
-          id: spot.id,
-          name: spot.name,
-          category: spot.category,
-          latitude: spot.latitude,
-          longitude: spot.longitude,
-          description: spot.description || ''
-        })),
-        food: foodBeverageSpots.map(spot => ({
-          id: spot.id,
-          name: spot.name,
-          category: spot.category,
-          latitude: spot.latitude,
-          longitude: spot.longitude,
-          description: spot.description || ''
-        })),
-        accommodation: accommodationSpots.map(spot => ({
-          id: spot.id,
-          name: spot.name,
-          category: spot.category,
-          latitude: spot.latitude,
-          longitude: spot.longitude,
-          description: spot.description || ''
-        }))
-      };
+      const availablePoints = buildAvailablePoints();
+
+      // With trips on the table, treat the message as a refinement first
+      const contextTrips = currentTrip && !allTrips.some(trip => trip.id === currentTrip.route.id)
+        ? [...allTrips, currentTrip.route]
+        : allTrips;
+      if (contextTrips.length > 0) {
+        const refinement = await refineTrip({
+          userInput,
+          conversation: chatMessages,
+          trips: contextTrips,
+          selectedTripId: currentTripDisplay?.id ?? currentTrip?.route.id ?? null,
+          candidates: [...availablePoints.historical, ...availablePoints.food, ...availablePoints.accommodation],
+          userLocation: { latitude: userLat, longitude: userLng }
+        }, streamOptions).catch(error => {
+          if (isAbortError(error)) {
+            throw error;
+          }
+          // Without the AI there is no way to read the edit, plan afresh instead
+          console.warn('Trip refinement failed, planning a new trip instead:', error);
+          return null;
+        });
+        setStreamingReply('');
+
+        if (refinement?.kind === 'edited') {
+          handleTripEdited(refinement.trip);
+          const rejectedNote = refinement.rejected.length > 0
+            ? `\n\n(I couldn't ${refinement.rejected.length === 1 ? 'make one change' : `make ${refinement.rejected.length} changes`}: ${refinement.rejected.map(r => r.reason).join('; ')})`
+            : '';
+          setChatMessages(prev => [...prev, {
+            id: (Date.now() + 1).toString(),
+            type: 'ai' as const,
+            content: `${refinement.reply}${rejectedNote}`,
+            timestamp: new Date()
+          }]);
+          return;
+        }
+      }
 
       const trips = await generateTripPlan({
         userInput,
@@ -266,7 +505,7 @@ function App() {
         userLocation: { latitude: userLat, longitude: userLng },
         searchRadius: searchRadius,
         homeLocation: homeLocation || undefined
-      });
+      }, streamOptions);
 
       setAllTrips(trips);
 
@@ -274,7 +513,9 @@ function App() {
       const aiMessage = {
         id: (Date.now() + 1).toString(),
         type: 'ai' as const,
-        content: `I've created ${trips.length} personalized trip options for you! Here are the highlights:\n\n${trips.map((trip, index) => 
+        content: `${trips[0]?.planner === 'rules'
+          ? `The AI planner is unavailable right now, so I put together ${trips.length} trip options from the places nearby.`
+          : `I've created ${trips.length} personalized trip options for you!`} Here are the highlights:\n\n${trips.map((trip, index) => 
           `${index + 1}. **${trip.name}** - ${Math.floor(trip.totalDuration / 60)}h ${trip.totalDuration % 60}m, ${(trip.totalDistance / 1000).toFixed(1)}km\n   ${trip.description}`
         ).join('\n\n')}\n\nClick on any trip to view the full details and set it as your current route.`,
         timestamp: new Date()
@@ -288,6 +529,10 @@ function App() {
       }
 
     } catch (error) {
+      if (isAbortError(error)) {
+        // Closed by the user, nothing to report
+        return;
+      }
       console.error('Error generating trip:', error);
       const errorMessage = {
         id: (Date.now() + 1).toString(),
@@ -297,7 +542,59 @@ function App() {
       };
       setChatMessages(prev => [...prev, errorMessage]);
     } finally {
+      if (tripRequestRef.current === controller) {
+        tripRequestRef.current = null;
+      }
       setIsGeneratingTrip(false);
+      setStreamingReply('');
+    }
+  };
+
+  const handleEditTrip = (trip?: TripRoute) => {
+    startTripEditing(trip);
+    setTripDisplayOpen(false);
+    setShowTripPanel(false);
+    setChatOpen(false);
+  };
+
+  // Keep the edited trip with the others and make it the current one
+  const handleSaveTripDraft = () => {
+    if (!tripDraft) return;
+    const trip = { ...tripDraft, name: tripDraft.name.trim() };
+    setAllTrips(prev => prev.some(existing => existing.id === trip.id)
+      ? prev.map(existing => existing.id === trip.id ? trip : existing)
+      : [...prev, trip]);
+    if (isTripSaved(trip)) {
+      saveTrip(trip);
+    }
+    setTrip(trip);
+    setShowTripPanel(true);
+    cancelTripEditing();
+  };
+
+  const handleOpenSavedTrip = (trip: TripRoute) => {
+    setCurrentTripDisplay(trip);
+    setTripDisplayOpen(true);
+  };
+
+  // Imported tours go straight into the library and open for review
+  const handleImportTrip = async (file: File) => {
+    const imported = parseTripFile(file.name, await file.text());
+    const availablePoints = buildAvailablePoints();
+    const trip = await importTrip(
+      imported,
+      [...availablePoints.historical, ...availablePoints.food, ...availablePoints.accommodation],
+      tripStart
+    );
+    saveTrip(trip);
+    setCurrentTripDisplay(trip);
+    setTripDisplayOpen(true);
+  };
+
+  const handleRenameSavedTrip = (routeId: string, name: string) => {
+    renameSavedTrip(routeId, name);
+    if (name.trim()) {
+      setAllTrips(prev => prev.map(trip => trip.id === routeId ? { ...trip, name: name.trim() } : trip));
     }
   };
 
@@ -362,7 +659,12 @@ function App() {
                 >
                   <span className="toggle-icon">🏛️</span>
                   <span className="toggle-text">Tourism Attractions</span>
-                  <span className="toggle-count">{historicalSpots.length}</span>
+                  <span 
+                    className="toggle-count"
+                    title={`Showing ${historicalSpots.length} of ${historicalTotal}${historicalComplete ? '' : '+'} found`}
+                  >
+                    {historicalTotal}{historicalComplete ? '' : '+'}
+                  </span>
                 </button>
               </div>
 
@@ -373,7 +675,12 @@ function App() {
                 >
                   <span className="toggle-icon">🍽️</span>
                   <span className="toggle-text">Food & Beverage</span>
-                  <span className="toggle-count">{foodBeverageSpots.length}</span>
+                  <span 
+                    className="toggle-count"
+                    title={`Showing ${foodBeverageSpots.length} of ${foodBeverageTotal}${foodBeverageComplete ? '' : '+'} found`}
+                  >
+                    {foodBeverageTotal}{foodBeverageComplete ? '' : '+'}
+                  </span>
                 </button>
               </div>
 
@@ -384,7 +691,12 @@ function App() {
                 >
                   <span className="toggle-icon">🏨</span>
                   <span className="toggle-text">Accommodation</span>
-                  <span className="toggle-count">{accommodationSpots.length}</span>
+                  <span 
+                    className="toggle-count"
+                    title={`Showing ${accommodationSpots.length} of ${accommodationTotal}${accommodationComplete ? '' : '+'} found`}
+                  >
+                    {accommodationTotal}{accommodationComplete ? '' : '+'}
+                  </span>
                 </button>
               </div>
 
@@ -468,6 +780,16 @@ function App() {
                 <span className="control-text">Current Trip</span>
               </button>
 
+              <button 
+                className={`control-button ${isEditingTrip ? 'active' : ''}`}
+                onClick={() => handleEditTrip()}
+                disabled={isEditingTrip}
+                title="Build a trip by hand from places on the map"
+              >
+                <span className="control-icon">✏️</span>
+                <span className="control-text">Create Trip</span>
+              </button>
+
               {hasTrip() && (
                 <button 
                   className="control-button"
@@ -491,6 +813,17 @@ function App() {
               )}
             </div>
 
+            {/* Saved Trips */}
+            <TripLibrary
+              savedTrips={savedTrips}
+              currentTripId={currentTrip?.route.id}
+              onOpen={handleOpenSavedTrip}
+              onRename={handleRenameSavedTrip}
+              onDuplicate={duplicateTrip}
+              onDelete={deleteSavedTrip}
+              onImport={handleImportTrip}
+            />
+
             {/* Error Display */}
             {(spotsError || foodError || accommodationError) && (
               <div className="error-display">
@@ -527,12 +860,22 @@ function App() {
 
           {!loading && !error && latitude !== null && longitude !== null && (
             <>
+              {locationWarning && (
+                <div className="location-warning-banner">
+                  ⚠️ Location updates paused ({locationWarning}), showing your last known position
+                </div>
+              )}
+
               {/* Map */}
               <div className="map-container">
                 <SatelliteMap 
                   latitude={latitude} 
                   longitude={longitude} 
                   accuracy={accuracy}
+                  heading={heading}
+                  speed={speed}
+                  isTracking={isTracking}
+                  onToggleTracking={isTracking ? pauseTracking : resumeTracking}
                   historicalSpots={historicalSpots}
                   foodBeverageSpots={foodBeverageSpots}
                   accommodationSpots={accommodationSpots}
@@ -562,6 +905,9 @@ function App() {
                   homeLocation={homeLocation}
                   currentTrip={currentTrip}
                   isTripMode={isTripMode}
+                  tripProgress={tripProgress}
+                  editingTrip={tripDraft}
+                  onAddToTrip={addTripStop}
                   startingPoint={startingPoint}
                   onSetStartingPoint={handleSetStartingPoint}
                   onRemoveStartingPoint={handleRecenterAtStartingPoint}
@@ -591,6 +937,7 @@ function App() {
                 onClose={handleCloseChat}
                 onGenerateTrip={handleGenerateTrip}
                 isLoading={isGeneratingTrip}
+                streamingContent={streamingReply}
                 messages={chatMessages}
               />
 
@@ -600,12 +947,18 @@ function App() {
                     trip={currentTripDisplay}
                     onClose={handleCloseTripDisplay}
                     onSelectTrip={handleSelectTrip}
+                    onEditTrip={handleEditTrip}
+                    onSaveTrip={handleSaveTrip}
+                    isSaved={isTripSaved(currentTripDisplay)}
+                    onPrintTrip={setItineraryTrip}
+                    onChangeStartTime={handleTripStartTimeChange}
+                    onReorderForOpeningHours={handleReorderForOpeningHours}
                     allTrips={allTrips}
                   />
                 )}
 
                 {/* Trip Panel */}
-                {showTripPanel && currentTrip && (
+                {showTripPanel && currentTrip && !isEditingTrip && (
                   <TripPanel
                     currentTrip={currentTrip}
                     allTrips={allTrips}
@@ -613,6 +966,39 @@ function App() {
                     onClose={handleCloseTripPanel}
                     onToggleTripMode={handleToggleTripMode}
                     isTripMode={isTripMode}
+                    tripProgress={tripProgress}
+                    isRerouting={isRerouting}
+                    onEditTrip={handleEditTrip}
+                    onSaveTrip={handleSaveTrip}
+                    isSaved={isTripSaved(currentTrip.route)}
+                    onPrintTrip={setItineraryTrip}
+                  />
+                )}
+
+                {/* Trip Editor */}
+                {tripDraft && (
+                  <TripEditor
+                    trip={tripDraft}
+                    isRouting={isRoutingDraft}
+                    error={tripEditError}
+                    onRename={renameTripDraft}
+                    onMoveStop={moveTripStop}
+                    onRemoveStop={removeTripStop}
+                    onSetVisitDuration={setTripStopVisitDuration}
+                    onSetTravelMode={setTripDraftMode}
+                    onSetLegMode={setTripDraftLegMode}
+                    favourites={favourites}
+                    onAddStop={addTripStop}
+                    onSave={handleSaveTripDraft}
+                    onCancel={cancelTripEditing}
+                  />
+                )}
+
+                {/* Printable Itinerary */}
+                {itineraryTrip && (
+                  <TripItinerary
+                    trip={itineraryTrip}
+                    onClose={() => setItineraryTrip(null)}
                   />
                 )}
 
@@ -11,6 +11,8 @@ interface AccommodationMarkerProps {
   isFavourite?: boolean;
   onToggleFavourite?: (spot: AccommodationSpot) => void;
   showFavouritesFilter?: boolean;
+  onAddToTrip?: (spot: AccommodationSpot) => void;
+  isInTrip?: boolean; // already a stop of the trip being edited
 }
 
 // Custom icon for accommodation spots
@@ -74,7 +76,9 @@ const AccommodationMarker: React.FC<AccommodationMarkerProps> = ({
   onDestinationSelect,
   isFavourite = false,
   onToggleFavourite,
-  showFavouritesFilter = false
+  showFavouritesFilter = false,
+  onAddToTrip,
+  isInTrip = false
 }) => {
   const icon = createAccommodationIcon(spot.category, showFavouritesFilter && isFavourite);
   const [expandedDescription, setExpandedDescription] = useState(false);
@@ -124,6 +128,11 @@ const AccommodationMarker: React.FC<AccommodationMarkerProps> = ({
                 <strong>Accommodation:</strong> {spot.accommodationType}
               </p>
             )}
+            {spot.openingHours && (
+              <p className="accommodation-hours">
+                <strong>Reception:</strong> {spot.openingHours}
+              </p>
+            )}
             <div className="distance-route-row">
               <div className="distance-info">
                 <span className="distance">{spot.distance.toFixed(0)}m away</span>
@@ -136,6 +145,16 @@ const AccommodationMarker: React.FC<AccommodationMarkerProps> = ({
                 🗺️ Get Route
               </button>
             </div>
+            {onAddToTrip && (
+              <button
+                className={`add-to-trip-button ${isInTrip ? 'in-trip' : ''}`}
+                onClick={() => onAddToTrip(spot)}
+                disabled={isInTrip}
+                title={isInTrip ? 'Already a stop of this trip' : 'Add this place as a stop of your trip'}
+              >
+                {isInTrip ? '✓ In Trip' : '➕ Add to Trip'}
+              </button>
+            )}
           </div>
         </div>
       </Popup>
@@ -13,6 +13,7 @@ interface ChatInterfaceProps {
   onClose: () => void;
   onGenerateTrip: (userInput: string) => void;
   isLoading: boolean;
+  streamingContent?: string; // partial AI reply while it is still being written
   messages: ChatMessage[];
 }
 
@@ -21,6 +22,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   onClose,
   onGenerateTrip,
   isLoading,
+  streamingContent,
   messages
 }) => {
   const [inputValue, setInputValue] = useState('');
@@ -33,7 +35,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingContent]);
 
   useEffect(() => {
     if (isOpen && inputRef.current) {
@@ -77,11 +79,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 <li>🏛️ Historical attractions</li>
                 <li>🍽️ Food & coffee breaks</li>
                 <li>⏱️ Realistic timing estimates</li>
-                <li>🚶 Walking routes</li>
+                <li>🚶 Walking, 🚴 cycling or 🚗 driving routes</li>
               </ul>
               <p className="example-prompts">
                 <strong>Try:</strong> "I want a 3-hour cultural tour with lunch"<br/>
                 <strong>Or:</strong> "Plan a half-day adventure with coffee stops"<br/>
+                <strong>Or:</strong> "Walk the old town, then cycle to the next district"<br/>
+                <strong>Then refine it:</strong> "Swap the second café for something cheaper"<br/>
                 <strong>Note:</strong> I'll create a personalized trip option for you
               </p>
             </div>
@@ -112,7 +116,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                   <span></span>
                   <span></span>
                 </div>
-                Planning your perfect trip...
+                {streamingContent || 'Planning your perfect trip...'}
               </div>
             </div>
           )}
@@ -0,0 +1,33 @@
+import React from 'react';
+import { downloadExport, exportTrack, type ExportableTrack, type ExportFormat } from '../services/tripExportService';
+import './ExportButtons.css';
+
+interface ExportButtonsProps {
+  getTrack: () => ExportableTrack; // built on click, so rendering stays cheap
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string; title: string }> = [
+  { format: 'gpx', label: 'GPX', title: 'Track and waypoints for GPS devices (Garmin, etc.)' },
+  { format: 'kml', label: 'KML', title: 'For Google Earth' },
+  { format: 'geojson', label: 'GeoJSON', title: 'FeatureCollection for QGIS and web maps' }
+];
+
+const ExportButtons: React.FC<ExportButtonsProps> = ({ getTrack }) => {
+  return (
+    <div className="export-buttons">
+      <span className="export-label">📤 Export:</span>
+      {FORMATS.map(({ format, label, title }) => (
+        <button
+          key={format}
+          className="export-btn"
+          onClick={() => downloadExport(exportTrack(getTrack(), format))}
+          title={title}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ExportButtons;
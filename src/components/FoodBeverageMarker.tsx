@@ -11,6 +11,8 @@ interface FoodBeverageMarkerProps {
   isFavourite?: boolean;
   onToggleFavourite?: (spot: FoodBeverageSpot) => void;
   showFavouritesFilter?: boolean;
+  onAddToTrip?: (spot: FoodBeverageSpot) => void;
+  isInTrip?: boolean; // already a stop of the trip being edited
 }
 
 // Custom icon for food & beverage spots
@@ -72,7 +74,9 @@ const FoodBeverageMarker: React.FC<FoodBeverageMarkerProps> = ({
   onDestinationSelect,
   isFavourite = false,
   onToggleFavourite,
-  showFavouritesFilter = false
+  showFavouritesFilter = false,
+  onAddToTrip,
+  isInTrip = false
 }) => {
   const icon = createFoodIcon(spot.category, showFavouritesFilter && isFavourite);
   const [expandedDescription, setExpandedDescription] = useState(false);
@@ -122,6 +126,11 @@ const FoodBeverageMarker: React.FC<FoodBeverageMarkerProps> = ({
                 <strong>Cuisine:</strong> {spot.cuisine}
               </p>
             )}
+            {spot.openingHours && (
+              <p className="food-hours">
+                <strong>Hours:</strong> {spot.openingHours}
+              </p>
+            )}
             <div className="distance-route-row">
               <div className="distance-info">
                 <span className="distance">{spot.distance.toFixed(0)}m away</span>
@@ -134,6 +143,16 @@ const FoodBeverageMarker: React.FC<FoodBeverageMarkerProps> = ({
                 🗺️ Get Route
               </button>
             </div>
+            {onAddToTrip && (
+              <button
+                className={`add-to-trip-button ${isInTrip ? 'in-trip' : ''}`}
+                onClick={() => onAddToTrip(spot)}
+                disabled={isInTrip}
+                title={isInTrip ? 'Already a stop of this trip' : 'Add this place as a stop of your trip'}
+              >
+                {isInTrip ? '✓ In Trip' : '➕ Add to Trip'}
+              </button>
+            )}
           </div>
         </div>
       </Popup>
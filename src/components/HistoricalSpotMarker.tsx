@@ -1,9 +1,9 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Marker, Popup } from 'react-leaflet';
 import { divIcon } from 'leaflet';
 import { calculateDistance } from '../utils/mapBounds';
 import { getLocationDetails } from '../services/openaiService';
-import OpenAI from 'openai';
+import { isAbortError, streamChatCompletion, type StreamOptions } from '../services/apiClient';
 import { createElevenLabsService } from '../services/elevenLabsService';
 import type { HistoricalSpot } from '../types/HistoricalSpot';
 
@@ -15,6 +15,8 @@ interface HistoricalSpotMarkerProps {
   isFavourite?: boolean;
   onToggleFavourite?: (spot: HistoricalSpot) => void;
   showFavouritesFilter?: boolean;
+  onAddToTrip?: (spot: HistoricalSpot) => void;
+  isInTrip?: boolean; // already a stop of the trip being edited
 }
 
 // Create custom + icon for historical spots
@@ -68,7 +70,9 @@ const HistoricalSpotMarker: React.FC<HistoricalSpotMarkerProps> = ({
   onDestinationSelect,
   isFavourite = false,
   onToggleFavourite,
-  showFavouritesFilter = false
+  showFavouritesFilter = false,
+  onAddToTrip,
+  isInTrip = false
 }) => {
   // Calculate real-time distance from user's GPS location to this historical spot
   const distanceFromUser = calculateDistance(userLatitude, userLongitude, spot.latitude, spot.longitude);
@@ -89,6 +93,25 @@ const HistoricalSpotMarker: React.FC<HistoricalSpotMarkerProps> = ({
   const [expandedFunFact, setExpandedFunFact] = useState(false);
   const [expandedSignificance, setExpandedSignificance] = useState(false);
   const [expandedDescription, setExpandedDescription] = useState(false);
+
+  // Character narration being written for a section, shown while it streams
+  const [narration, setNarration] = useState<{ type: 'funFact' | 'significance'; text: string } | null>(null);
+
+  // Aborts everything this popup is generating when it closes
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handlePopupClose = () => {
+    if (abortRef.current) {
+      console.log(`✋ Cancelling AI requests for ${spot.name}`);
+      abortRef.current.abort();
+      abortRef.current = null;
+    }
+    setNarration(null);
+  };
   
   const formatDistance = (distance: number): string => {
     if (distance < 1000) {
@@ -100,6 +123,11 @@ const HistoricalSpotMarker: React.FC<HistoricalSpotMarkerProps> = ({
 
   const handlePopupOpen = async () => {
     // Only fetch details if we don't have them yet
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
     if (!funFact && !historicalSignificance && !loadingDetails) {
       setLoadingDetails(true);
       console.log(`Loading location details for ${spot.name}...`);
@@ -109,7 +137,15 @@ const HistoricalSpotMarker: React.FC<HistoricalSpotMarkerProps> = ({
           spot.name, 
           spot.latitude, 
           spot.longitude, 
-          spot.category
+          spot.category,
+          spot.id,
+          {
+            signal,
+            onUpdate: partial => {
+              if (partial.funFact) setFunFact(partial.funFact);
+              if (partial.historicalSignificance) setHistoricalSignificance(partial.historicalSignificance);
+            }
+          }
         );
         
         // Immediately display the responses to the user
@@ -124,20 +160,22 @@ const HistoricalSpotMarker: React.FC<HistoricalSpotMarkerProps> = ({
         // Transform for Megatron voice in background
         (async () => {
           try {
-            const megatronFunFactTransformed = await transformToMegatronSpeak(details.funFact);
+            const megatronFunFactTransformed = await transformToMegatronSpeak(details.funFact, { signal });
             setMegatronFunFact(megatronFunFactTransformed);
             console.log('🤖 Megatron fun fact pre-transformed');
           } catch (error) {
+            if (isAbortError(error)) return;
             console.error('Failed to pre-transform Megatron fun fact:', error);
           }
         })();
         
         (async () => {
           try {
-            const megatronSignificanceTransformed = await transformToMegatronSpeak(details.historicalSignificance);
+            const megatronSignificanceTransformed = await transformToMegatronSpeak(details.historicalSignificance, { signal });
             setMegatronSignificance(megatronSignificanceTransformed);
             console.log('🤖 Megatron significance pre-transformed');
           } catch (error) {
+            if (isAbortError(error)) return;
             console.error('Failed to pre-transform Megatron significance:', error);
           }
         })();
@@ -145,25 +183,33 @@ const HistoricalSpotMarker: React.FC<HistoricalSpotMarkerProps> = ({
         // Transform for Freeman voice in background
         (async () => {
           try {
-            const freemanFunFactTransformed = await transformToFreemanSpeak(details.funFact);
+            const freemanFunFactTransformed = await transformToFreemanSpeak(details.funFact, { signal });
             setFreemanFunFact(freemanFunFactTransformed);
             console.log('🎭 Freeman fun fact pre-transformed');
           } catch (error) {
+            if (isAbortError(error)) return;
             console.error('Failed to pre-transform Freeman fun fact:', error);
           }
         })();
         
         (async () => {
           try {
-            const freemanSignificanceTransformed = await transformToFreemanSpeak(details.historicalSignificance);
+            const freemanSignificanceTransformed = await transformToFreemanSpeak(details.historicalSignificance, { signal });
             setFreemanSignificance(freemanSignificanceTransformed);
             console.log('🎭 Freeman significance pre-transformed');
           } catch (error) {
+            if (isAbortError(error)) return;
             console.error('Failed to pre-transform Freeman significance:', error);
           }
         })();
         
       } catch (error) {
+        if (isAbortError(error)) {
+          // Closed mid-stream, start over next time it opens
+          setFunFact(null);
+          setHistoricalSignificance(null);
+          return;
+        }
         console.error('Failed to load location details:', error);
         setFunFact('This location has its own unique history and stories worth discovering.');
         setHistoricalSignificance('This location holds important historical value.');
@@ -239,34 +285,23 @@ const HistoricalSpotMarker: React.FC<HistoricalSpotMarkerProps> = ({
     return configs[voiceType] || configs['freeman'];
   };
 
-  const transformTextForCharacter = async (text: string, voiceType: string): Promise<string> => {
+  const transformTextForCharacter = async (text: string, voiceType: string, options: StreamOptions = {}): Promise<string> => {
     switch (voiceType) {
       case 'pinky-pie':
         return `Oh my gosh, oh my gosh! ${text} Isn't history just super duper amazing?!`;
       case 'yoda':
-        return await transformToYodaSpeak(text);
+        return await transformToYodaSpeak(text, options);
       case 'megatron':
-        return await transformToMegatronSpeak(text);
+        return await transformToMegatronSpeak(text, options);
       case 'freeman':
-        return await transformToFreemanSpeak(text);
+        return await transformToFreemanSpeak(text, options);
       default:
         return text;
     }
   };
 
-  const transformToYodaSpeak = async (text: string): Promise<string> => {
+  const transformToYodaSpeak = async (text: string, options: StreamOptions = {}): Promise<string> => {
     try {
-      const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      if (!apiKey) {
-        // Fallback to simple transformation if no API key
-        return `${text}. Strong with the Force, this place is, hmm.`;
-      }
-
-      const openai = new OpenAI({
-        apiKey: apiKey,
-        dangerouslyAllowBrowser: true
-      });
-
       console.log('Transforming text to Yoda-speak using OpenAI...');
 
       const prompt = `Transform the following text to sound exactly like Yoda from Star Wars would say it. Use Yoda's distinctive speech patterns:
@@ -282,7 +317,7 @@ Original text: "${text}"
 
 Transform this to Yoda-speak while keeping all the factual information intact:`;
 
-      const completion = await openai.chat.completions.create({
+      const yodaText = (await streamChatCompletion({
         model: "gpt-3.5-turbo",
         messages: [
           {
@@ -292,9 +327,7 @@ Transform this to Yoda-speak while keeping all the factual information intact:`;
         ],
         temperature: 0.8,
         max_tokens: 150
-      });
-
-      const yodaText = completion.choices[0]?.message?.content?.trim();
+      }, options)).trim();
       
       if (yodaText) {
         console.log('Successfully transformed to Yoda-speak:', yodaText);
@@ -305,6 +338,9 @@ Transform this to Yoda-speak while keeping all the factual information intact:`;
       }
 
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Error transforming text to Yoda-speak:', error);
       // Fallback to simple transformation
       const sentences = text.split('. ');
@@ -325,19 +361,8 @@ Transform this to Yoda-speak while keeping all the factual information intact:`;
     }
   };
 
-  const transformToMegatronSpeak = async (text: string): Promise<string> => {
+  const transformToMegatronSpeak = async (text: string, options: StreamOptions = {}): Promise<string> => {
     try {
-      const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      if (!apiKey) {
-        // Fallback to simple transformation if no API key
-        return `${text}. I am Megatron, leader of the Decepticons. This location serves the cause of conquest.`;
-      }
-
-      const openai = new OpenAI({
-        apiKey: apiKey,
-        dangerouslyAllowBrowser: true
-      });
-
       console.log('Transforming text to Megatron-speak using OpenAI...');
 
       const prompt = `Transform the following text to sound exactly like Megatron from Transformers would say it. Use Megatron's distinctive speech patterns:
@@ -354,7 +379,7 @@ Original text: "${text}"
 
 Transform this to Megatron-speak while keeping all the factual information intact:`;
 
-      const completion = await openai.chat.completions.create({
+      const megatronText = (await streamChatCompletion({
         model: "gpt-3.5-turbo",
         messages: [
           {
@@ -364,9 +389,7 @@ Transform this to Megatron-speak while keeping all the factual information intac
         ],
         temperature: 0.8,
         max_tokens: 150
-      });
-
-      const megatronText = completion.choices[0]?.message?.content?.trim();
+      }, options)).trim();
       
       if (megatronText) {
         console.log('Successfully transformed to Megatron-speak:', megatronText);
@@ -377,25 +400,17 @@ Transform this to Megatron-speak while keeping all the factual information intac
       }
 
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Error transforming text to Megatron-speak:', error);
       // Fallback to simple transformation
       return `${text}. I am Megatron, leader of the Decepticons. This location serves the cause of conquest.`;
     }
   };
 
-  const transformToFreemanSpeak = async (text: string): Promise<string> => {
+  const transformToFreemanSpeak = async (text: string, options: StreamOptions = {}): Promise<string> => {
     try {
-      const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-      if (!apiKey) {
-        // Fallback to simple transformation if no API key
-        return `${text}. As narrated by Morgan Freeman, this place tells a story of human history.`;
-      }
-
-      const openai = new OpenAI({
-        apiKey: apiKey,
-        dangerouslyAllowBrowser: true
-      });
-
       console.log('Transforming text to Freeman-speak using OpenAI...');
 
       const prompt = `Transform the following text to sound exactly like Morgan Freeman would narrate it. Use Morgan Freeman's distinctive narration style:
@@ -412,7 +427,7 @@ Original text: "${text}"
 
 Transform this to Freeman-speak while keeping all the factual information intact:`;
 
-      const completion = await openai.chat.completions.create({
+      const freemanText = (await streamChatCompletion({
         model: "gpt-3.5-turbo",
         messages: [
           {
@@ -422,9 +437,7 @@ Transform this to Freeman-speak while keeping all the factual information intact
         ],
         temperature: 0.8,
         max_tokens: 150
-      });
-
-      const freemanText = completion.choices[0]?.message?.content?.trim();
+      }, options)).trim();
       
       if (freemanText) {
         console.log('Successfully transformed to Freeman-speak:', freemanText);
@@ -435,6 +448,9 @@ Transform this to Freeman-speak while keeping all the factual information intact
       }
 
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Error transforming text to Freeman-speak:', error);
       // Fallback to simple transformation
       return `${text}. As narrated by Morgan Freeman, this place tells a story of human history.`;
@@ -453,6 +469,19 @@ Transform this to Freeman-speak while keeping all the factual information intact
 
     const voiceConfig = getVoiceConfig(selectedVoice);
     
+    // Stream on-demand transformations into the popup, null if it was closed meanwhile
+    const transformForNarration = async (): Promise<string | null> => {
+      try {
+        return await transformTextForCharacter(text, selectedVoice, {
+          signal: abortRef.current?.signal,
+          onDelta: streamed => setNarration({ type, text: streamed })
+        });
+      } catch (error) {
+        if (isAbortError(error)) return null;
+        throw error;
+      }
+    };
+
     // Use pre-transformed text if available for better performance
     let transformedText: string;
     
@@ -465,7 +494,9 @@ Transform this to Freeman-speak while keeping all the factual information intact
         transformedText = megatronSignificance;
       } else {
         console.log('Transforming text to authentic Megatron-speak...');
-        transformedText = await transformTextForCharacter(text, selectedVoice);
+        const narrated = await transformForNarration();
+        if (narrated === null) return;
+        transformedText = narrated;
       }
     } else if (selectedVoice === 'freeman') {
       if (type === 'funFact' && freemanFunFact) {
@@ -476,16 +507,22 @@ Transform this to Freeman-speak while keeping all the factual information intact
         transformedText = freemanSignificance;
       } else {
         console.log('Transforming text to authentic Freeman-speak...');
-        transformedText = await transformTextForCharacter(text, selectedVoice);
+        const narrated = await transformForNarration();
+        if (narrated === null) return;
+        transformedText = narrated;
       }
     } else {
       // For other voices, transform on-demand
       if (selectedVoice === 'yoda') {
         console.log('Transforming text to authentic Yoda-speak...');
       }
-      transformedText = await transformTextForCharacter(text, selectedVoice);
+      const narrated = await transformForNarration();
+      if (narrated === null) return;
+      transformedText = narrated;
     }
     
+    setNarration({ type, text: transformedText });
+
     // Use ElevenLabs for Megatron voice if available
     if (selectedVoice === 'megatron') {
       const elevenLabsService = createElevenLabsService();
@@ -637,7 +674,8 @@ Transform this to Freeman-speak while keeping all the factual information intact
       position={[spot.latitude, spot.longitude]}
       icon={createPlusIcon(spot.category, showFavouritesFilter && isFavourite)}
       eventHandlers={{
-        click: handlePopupOpen
+        click: handlePopupOpen,
+        popupclose: handlePopupClose
       }}
     >
       <Popup
@@ -674,6 +712,9 @@ Transform this to Freeman-speak while keeping all the factual information intact
                 {spot.period}
               </span>
             </div>
+            {spot.openingHours && (
+              <div className="spot-hours">🕒 {spot.openingHours}</div>
+            )}
           </div>
           
                       <div className="spot-body">
@@ -705,6 +746,16 @@ Transform this to Freeman-speak while keeping all the factual information intact
                     🗺️ Get Route
                   </button>
                 </div>
+                {onAddToTrip && (
+                  <button
+                    className={`add-to-trip-button ${isInTrip ? 'in-trip' : ''}`}
+                    onClick={() => onAddToTrip(spot)}
+                    disabled={isInTrip}
+                    title={isInTrip ? 'Already a stop of this trip' : 'Add this place as a stop of your trip'}
+                  >
+                    {isInTrip ? '✓ In Trip' : '➕ Add to Trip'}
+                  </button>
+                )}
               </div>
               
               <div className="detail-item">
@@ -735,7 +786,7 @@ Transform this to Freeman-speak while keeping all the factual information intact
                   )}
                 </div>
                 <div className="fun-fact">
-                  {loadingDetails ? (
+                  {loadingDetails && !funFact ? (
                     <span className="loading-fact">
                       <span className="fact-spinner"></span>
                       Getting interesting facts...
@@ -756,6 +807,9 @@ Transform this to Freeman-speak while keeping all the factual information intact
                     <span className="fact-placeholder">Click to load fascinating details!</span>
                   )}
                 </div>
+                {narration?.type === 'funFact' && (
+                  <div className="narration-text">{getVoiceConfig(selectedVoice).icon} {narration.text}</div>
+                )}
               </div>
               
               <div className="detail-item">
@@ -772,7 +826,7 @@ Transform this to Freeman-speak while keeping all the factual information intact
                   )}
                 </div>
                 <div className="historical-significance">
-                  {loadingDetails ? (
+                  {loadingDetails && !historicalSignificance ? (
                     <span className="loading-fact">
                       <span className="fact-spinner"></span>
                       Loading historical context...
@@ -793,6 +847,9 @@ Transform this to Freeman-speak while keeping all the factual information intact
                     <span className="fact-placeholder">Click to discover historical importance!</span>
                   )}
                 </div>
+                {narration?.type === 'significance' && (
+                  <div className="narration-text">{getVoiceConfig(selectedVoice).icon} {narration.text}</div>
+                )}
               </div>
               
 
@@ -1,5 +1,11 @@
 import React, { useState } from 'react';
-import { routingService, type Route, type RoutePoint } from '../services/routingService';
+import { routingService, type Route, type RoutePoint, type RouteProfile } from '../services/routingService';
+import { trackFromRoute } from '../services/tripExportService';
+import { formatTransitTime } from '../services/transitService';
+import { straightLineRouteService } from '../services/straightLineRouteService';
+import ExportButtons from './ExportButtons';
+
+const TRANSIT_UNAVAILABLE = 'No transit connection found. Transit needs a GTFS feed in public/gtfs.';
 
 interface NavigationPanelProps {
   start: RoutePoint;
@@ -18,7 +24,7 @@ const NavigationPanel: React.FC<NavigationPanelProps> = ({
 }) => {
   const [route, setRoute] = useState<Route | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [profile, setProfile] = useState<'driving' | 'walking' | 'cycling'>('driving');
+  const [profile, setProfile] = useState<RouteProfile>('driving');
   const [showAllSteps, setShowAllSteps] = useState(false);
 
   const calculateRoute = async () => {
@@ -30,6 +36,9 @@ const NavigationPanel: React.FC<NavigationPanelProps> = ({
       if (result && onRouteCalculated) {
         onRouteCalculated(result);
       }
+      if (!result && profile === 'transit') {
+        setError(TRANSIT_UNAVAILABLE);
+      }
     } catch (err) {
       setError('Failed to calculate route. Please try again.');
     }
@@ -144,11 +153,12 @@ const NavigationPanel: React.FC<NavigationPanelProps> = ({
     return arrowMap[maneuverType] || '⬆️';
   };
 
-  const getTransportModeIcon = (mode: 'driving' | 'walking' | 'cycling'): string => {
+  const getTransportModeIcon = (mode: RouteProfile): string => {
     const iconMap: { [key: string]: string } = {
       'driving': '🚗',
       'walking': '🚶',
-      'cycling': '🚴'
+      'cycling': '🚴',
+      'transit': '🚇'
     };
     return iconMap[mode] || '🚶';
   };
@@ -158,7 +168,7 @@ const NavigationPanel: React.FC<NavigationPanelProps> = ({
     window.open(url, '_blank');
   };
 
-  const handleProfileChange = async (newProfile: 'driving' | 'walking' | 'cycling') => {
+  const handleProfileChange = async (newProfile: RouteProfile) => {
     setProfile(newProfile);
     setError(null);
     
@@ -168,6 +178,9 @@ const NavigationPanel: React.FC<NavigationPanelProps> = ({
       if (result && onRouteCalculated) {
         onRouteCalculated(result);
       }
+      if (!result && newProfile === 'transit') {
+        setError(TRANSIT_UNAVAILABLE);
+      }
     } catch (err) {
       setError('Failed to calculate route. Please try again.');
     }
@@ -207,6 +220,13 @@ const NavigationPanel: React.FC<NavigationPanelProps> = ({
             >
               🚴
             </button>
+            <button 
+              className={`mode-btn ${profile === 'transit' ? 'active' : ''}`}
+              onClick={() => handleProfileChange('transit')}
+              title="Public transport from the local timetable"
+            >
+              🚇
+            </button>
           </div>
         </div>
 
@@ -226,6 +246,19 @@ const NavigationPanel: React.FC<NavigationPanelProps> = ({
           </div>
         )}
 
+        {/* Every router failed, the straight line is only an estimate */}
+        {route && showRoute && route.provider === straightLineRouteService.name && (
+          <div className="route-estimate-note">
+            📐 No router reachable: straight-line estimate
+          </div>
+        )}
+
+        {route && showRoute && (
+          <div className="navigation-export">
+            <ExportButtons getTrack={() => trackFromRoute(route, `${profile.charAt(0).toUpperCase()}${profile.slice(1)} route`)} />
+          </div>
+        )}
+
         {/* Turn-by-Turn Navigation */}
         {route && showRoute && route.steps && route.steps.length > 0 && (
           <div className="turn-by-turn-section">
@@ -242,7 +275,21 @@ const NavigationPanel: React.FC<NavigationPanelProps> = ({
               </span>
             </div>
             
-            {showAllSteps && (
+            {/* Transit routes list the legs with their times */}
+            {showAllSteps && route.transit && (
+              <div className="all-steps">
+                {route.transit.legs.map((leg, index) => (
+                  <div key={index} className="step-item">
+                    <span className="step-time">{formatTransitTime(leg.departure)}</span>
+                    <span className="direction-arrow">{leg.type === 'ride' ? '🚇' : '🚶'}</span>
+                    <span className="step-instruction">{route.steps[index]?.instruction}</span>
+                    <span className="step-distance">{routingService.formatDistance(leg.distance)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {showAllSteps && !route.transit && (
               <div className="all-steps">
                 {route.steps.map((step, index) => (
                   <div key={index} className="step-item">
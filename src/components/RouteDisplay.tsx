@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 // import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
 import { Icon } from 'leaflet';
 import { routingService, type Route, type RoutePoint } from '../services/routingService';
+import type { StreetMode } from '../services/routingTypes';
 import 'leaflet/dist/leaflet.css';
 
 // Fix Leaflet icon issues
@@ -23,7 +24,7 @@ const RouteDisplay: React.FC<RouteDisplayProps> = ({ start, end, onClose, onRout
   const [route, setRoute] = useState<Route | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [profile, setProfile] = useState<'driving' | 'walking' | 'cycling'>('driving');
+  const [profile, setProfile] = useState<StreetMode>('driving');
   const [showMap, setShowMap] = useState(false);
   // const [mapReady, setMapReady] = useState(false);
   // const [mapInstance, setMapInstance] = useState<any>(null);
@@ -118,7 +119,7 @@ const RouteDisplay: React.FC<RouteDisplayProps> = ({ start, end, onClose, onRout
           <label>Transport Mode:</label>
           <select 
             value={profile} 
-            onChange={(e) => setProfile(e.target.value as 'driving' | 'walking' | 'cycling')}
+            onChange={(e) => setProfile(e.target.value as StreetMode)}
             className="profile-select"
           >
             <option value="driving">🚗 Driving</option>
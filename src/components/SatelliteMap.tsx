@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, Polyline, useMapEvents } from 'react-leaflet';
+import React, { useRef, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, Circle, useMapEvents } from 'react-leaflet';
 import { Icon, divIcon } from 'leaflet';
 import type { Map as LeafletMap } from 'leaflet';
 import type { HistoricalSpot } from '../types/HistoricalSpot';
@@ -7,7 +7,11 @@ import type { FoodBeverageSpot } from '../types/FoodBeverageSpot';
 import type { AccommodationSpot } from '../types/AccommodationSpot';
 import type { Route } from '../services/routingService';
 import type { CurrentTrip } from '../hooks/useTrip';
+import type { TripRoute } from '../services/tripPlanningService';
+import type { CandidatePoint } from '../services/tripPlanSchema';
+import type { TripProgressSnapshot } from '../services/tripProgressService';
 import { getLocationDetails } from '../services/openaiService';
+import { isAbortError } from '../services/apiClient';
 import MapSearchButton from './MapSearchButton';
 import HistoricalSpotMarker from './HistoricalSpotMarker';
 import FoodBeverageMarker from './FoodBeverageMarker';
@@ -30,6 +34,11 @@ interface SatelliteMapProps {
   latitude: number;
   longitude: number;
   accuracy?: number | null;
+  heading?: number | null;
+  speed?: number | null;
+  // Location tracking
+  isTracking?: boolean;
+  onToggleTracking?: () => void;
   historicalSpots?: HistoricalSpot[];
   foodBeverageSpots?: FoodBeverageSpot[];
   accommodationSpots?: AccommodationSpot[];
@@ -63,6 +72,10 @@ interface SatelliteMapProps {
   // Trip functionality
   currentTrip?: CurrentTrip | null;
   isTripMode?: boolean;
+  tripProgress?: TripProgressSnapshot | null;
+  // Manual trip editing
+  editingTrip?: TripRoute | null;
+  onAddToTrip?: (point: CandidatePoint) => void;
   // Starting point functionality
   startingPoint?: { latitude: number; longitude: number } | null;
   onSetStartingPoint?: (latitude: number, longitude: number) => void;
@@ -85,6 +98,10 @@ const SatelliteMap: React.FC<SatelliteMapProps> = ({
   latitude, 
   longitude, 
   accuracy, 
+  heading,
+  speed,
+  isTracking = false,
+  onToggleTracking,
   historicalSpots = [], 
   foodBeverageSpots = [],
   accommodationSpots = [],
@@ -113,6 +130,9 @@ const SatelliteMap: React.FC<SatelliteMapProps> = ({
   homeLocation = null,
   currentTrip = null,
   isTripMode = false,
+  tripProgress,
+  editingTrip = null,
+  onAddToTrip,
   startingPoint = null,
   onSetStartingPoint,
   onRemoveStartingPoint
@@ -123,6 +143,7 @@ const SatelliteMap: React.FC<SatelliteMapProps> = ({
   
   // State for trip point details
   const [tripPointDetails, setTripPointDetails] = useState<{ [key: string]: { funFact: string | null; historicalSignificance: string | null; loading: boolean } }>({});
+  const tripPointRequests = useRef(new Map<string, AbortController>());
 
   const handleMapReady = (mapInstance: LeafletMap) => {
     setMap(mapInstance);
@@ -170,12 +191,28 @@ const SatelliteMap: React.FC<SatelliteMapProps> = ({
         [point.id]: { funFact: null, historicalSignificance: null, loading: true }
       }));
 
+      const controller = new AbortController();
+      tripPointRequests.current.set(point.id, controller);
+
       try {
         const details = await getLocationDetails(
           point.name, 
           point.latitude, 
           point.longitude, 
-          point.category
+          point.category,
+          point.id,
+          {
+            signal: controller.signal,
+            // Show the streamed text as soon as it arrives
+            onUpdate: partial => setTripPointDetails(prev => ({
+              ...prev,
+              [point.id]: {
+                funFact: partial.funFact || null,
+                historicalSignificance: partial.historicalSignificance || null,
+                loading: false
+              }
+            }))
+          }
         );
         
         setTripPointDetails(prev => ({
@@ -187,6 +224,15 @@ const SatelliteMap: React.FC<SatelliteMapProps> = ({
           }
         }));
       } catch (error) {
+        if (isAbortError(error)) {
+          // Closed before the details finished, load them again next time
+          setTripPointDetails(prev => {
+            const next = { ...prev };
+            delete next[point.id];
+            return next;
+          });
+          return;
+        }
         console.error('Failed to load trip point details:', error);
         setTripPointDetails(prev => ({
           ...prev,
@@ -196,10 +242,33 @@ const SatelliteMap: React.FC<SatelliteMapProps> = ({
             loading: false 
           }
         }));
+      } finally {
+        if (tripPointRequests.current.get(point.id) === controller) {
+          tripPointRequests.current.delete(point.id);
+        }
       }
     }
   };
 
+  // Spots in the shape the trip editor adds as stops
+  const toTripCandidate = (spot: HistoricalSpot | FoodBeverageSpot | AccommodationSpot): CandidatePoint => ({
+    id: spot.id,
+    name: spot.name,
+    category: spot.category,
+    latitude: spot.latitude,
+    longitude: spot.longitude,
+    description: spot.description || '',
+    openingHours: spot.openingHours
+  });
+
+  const isEditingStop = (id: string): boolean => {
+    return editingTrip?.points.some(point => point.id === id) ?? false;
+  };
+
+  const handleTripPointPopupClose = (pointId: string) => {
+    tripPointRequests.current.get(pointId)?.abort();
+  };
+
   return (
     <div className="map-container" style={{ position: 'relative' }}>
       <MapContainer
@@ -225,6 +294,15 @@ const SatelliteMap: React.FC<SatelliteMapProps> = ({
           />
         )}
 
+        {/* Location accuracy radius */}
+        {accuracy && (
+          <Circle
+            center={[latitude, longitude]}
+            radius={accuracy}
+            pathOptions={{ color: '#3b82f6', fillColor: '#3b82f6', fillOpacity: 0.1, weight: 1 }}
+          />
+        )}
+
         {/* User Location Marker */}
         <Marker position={[latitude, longitude]}>
           <Popup>
@@ -241,7 +319,28 @@ const SatelliteMap: React.FC<SatelliteMapProps> = ({
                     Accuracy: ±{accuracy.toFixed(0)} meters
                   </>
                 )}
+                {heading !== null && heading !== undefined && (
+                  <>
+                    <br />
+                    Heading: {heading.toFixed(0)}°
+                  </>
+                )}
+                {speed !== null && speed !== undefined && (
+                  <>
+                    <br />
+                    Speed: {(speed * 3.6).toFixed(1)} km/h
+                  </>
+                )}
               </div>
+              {onToggleTracking && (
+                <button 
+                  className="set-home-button"
+                  onClick={onToggleTracking}
+                  title={isTracking ? 'Stop following your location' : 'Follow your location as you move'}
+                >
+                  {isTracking ? '⏸️ Pause Tracking' : '▶️ Resume Tracking'}
+                </button>
+              )}
               {onSetHome && (
                 <button 
                   className="set-home-button"
@@ -294,8 +393,10 @@ const SatelliteMap: React.FC<SatelliteMapProps> = ({
             userLongitude={longitude}
             onDestinationSelect={onDestinationSelect}
             isFavourite={isFavourite(spot.id)}
-            onToggleFavourite={() => onToggleFavourite?.(spot)}
+            onToggleFavourite={() => onToggleFavourite?.({ ...spot, type: 'historical' })}
             showFavouritesFilter={showFavourites}
+            onAddToTrip={onAddToTrip && (() => onAddToTrip(toTripCandidate(spot)))}
+            isInTrip={isEditingStop(spot.id)}
           />
         ))}
 
@@ -308,8 +409,10 @@ const SatelliteMap: React.FC<SatelliteMapProps> = ({
             userLongitude={longitude}
             onDestinationSelect={onDestinationSelect}
             isFavourite={isFavourite(spot.id)}
-            onToggleFavourite={() => onToggleFavourite?.(spot)}
+            onToggleFavourite={() => onToggleFavourite?.({ ...spot, type: 'food' })}
             showFavouritesFilter={showFavourites}
+            onAddToTrip={onAddToTrip && (() => onAddToTrip(toTripCandidate(spot)))}
+            isInTrip={isEditingStop(spot.id)}
           />
         ))}
 
@@ -322,8 +425,10 @@ const SatelliteMap: React.FC<SatelliteMapProps> = ({
             userLongitude={longitude}
             onDestinationSelect={onDestinationSelect}
             isFavourite={isFavourite(spot.id)}
-            onToggleFavourite={() => onToggleFavourite?.(spot)}
+            onToggleFavourite={() => onToggleFavourite?.({ ...spot, type: 'accommodation' })}
             showFavouritesFilter={showFavourites}
+            onAddToTrip={onAddToTrip && (() => onAddToTrip(toTripCandidate(spot)))}
+            isInTrip={isEditingStop(spot.id)}
           />
         ))}
 
@@ -351,6 +456,19 @@ const SatelliteMap: React.FC<SatelliteMapProps> = ({
           />
         )}
 
+        {/* Trip being edited */}
+        {editingTrip?.routeGeometry && editingTrip.routeGeometry.length > 0 && (
+          <Polyline
+            positions={editingTrip.routeGeometry.map(coord => [coord[1], coord[0]])}
+            pathOptions={{
+              color: '#f59e0b',
+              weight: 5,
+              opacity: 0.8,
+              dashArray: '8, 8'
+            }}
+          />
+        )}
+
         {/* Trip Route */}
         {isTripMode && currentTrip?.route && currentTrip.route.routeGeometry && (
           <Polyline
@@ -366,70 +484,82 @@ const SatelliteMap: React.FC<SatelliteMapProps> = ({
         )}
 
         {/* Trip Point Markers */}
-        {isTripMode && currentTrip?.route.points && currentTrip.route.points.map((point, index) => (
-          <Marker
-            key={`trip-point-${point.id}`}
-            position={[point.latitude, point.longitude]}
-            icon={divIcon({
-              html: `
-                <div style="
-                  width: 40px;
-                  height: 40px;
-                  background: linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%);
-                  border: 3px solid white;
-                  border-radius: 50%;
-                  display: flex;
-                  align-items: center;
-                  justify-content: center;
-                  box-shadow: 0 4px 12px rgba(59, 130, 246, 0.3);
-                  cursor: pointer;
-                ">
-                  <span style="
-                    color: white;
-                    font-size: 16px;
-                    font-weight: bold;
-                    line-height: 1;
-                  ">${index + 1}</span>
-                </div>
-              `,
-              className: 'trip-point-marker',
-              iconSize: [40, 40],
-              iconAnchor: [20, 20],
-              popupAnchor: [0, -20]
-            })}
-            eventHandlers={{
-              click: () => handleTripPointPopupOpen(point)
-            }}
-          >
-            <Popup>
-              <div className="trip-point-popup">
-                <div className="trip-point-info">
-                  <strong>📍 {point.name}</strong>
-                  <br />
-                  Category: {point.category}
-                  <br />
-                  Visit Duration: {point.visitDuration} minutes
+        {isTripMode && currentTrip?.route.points && currentTrip.route.points.map((point, index) => {
+          const progress = tripProgress || currentTrip.progress;
+          const isVisited = progress?.visitedPointIds.includes(point.id) ?? false;
+          const isNext = !isVisited && (progress?.currentSegmentIndex ?? 0) === index;
+          const markerBackground = isVisited
+            ? 'linear-gradient(135deg, #10b981 0%, #047857 100%)'
+            : isNext
+              ? 'linear-gradient(135deg, #f59e0b 0%, #d97706 100%)'
+              : 'linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%)';
+
+          return (
+            <Marker
+              key={`trip-point-${point.id}`}
+              position={[point.latitude, point.longitude]}
+              icon={divIcon({
+                html: `
+                  <div style="
+                    width: 40px;
+                    height: 40px;
+                    background: ${markerBackground};
+                    border: 3px solid white;
+                    border-radius: 50%;
+                    display: flex;
+                    align-items: center;
+                    justify-content: center;
+                    box-shadow: 0 4px 12px rgba(59, 130, 246, 0.3);
+                    cursor: pointer;
+                  ">
+                    <span style="
+                      color: white;
+                      font-size: 16px;
+                      font-weight: bold;
+                      line-height: 1;
+                    ">${isVisited ? '✓' : index + 1}</span>
+                  </div>
+                `,
+                className: 'trip-point-marker',
+                iconSize: [40, 40],
+                iconAnchor: [20, 20],
+                popupAnchor: [0, -20]
+              })}
+              eventHandlers={{
+                click: () => handleTripPointPopupOpen(point),
+                popupclose: () => handleTripPointPopupClose(point.id)
+              }}
+            >
+              <Popup>
+                <div className="trip-point-popup">
+                  <div className="trip-point-info">
+                    <strong>📍 {point.name}</strong>
+                    <br />
+                    Category: {point.category}
+                    <br />
+                    Visit Duration: {point.visitDuration} minutes
+                  </div>
+                  {tripPointDetails[point.id]?.loading ? (
+                    <div className="trip-point-loading">Loading details...</div>
+                  ) : (
+                    <>
+                      {tripPointDetails[point.id]?.funFact && (
+                        <div className="trip-point-fun-fact">
+                          <strong>Fun Fact:</strong> {tripPointDetails[point.id]?.funFact}
+                        </div>
+                      )}
+                      {tripPointDetails[point.id]?.historicalSignificance && (
+                        <div className="trip-point-historical-significance">
+                          <strong>Historical Significance:</strong> {tripPointDetails[point.id]?.historicalSignificance}
+                        </div>
+                      )}
+                    </>
+                  )}
                 </div>
-                {tripPointDetails[point.id]?.loading ? (
-                  <div className="trip-point-loading">Loading details...</div>
-                ) : (
-                  <>
-                    {tripPointDetails[point.id]?.funFact && (
-                      <div className="trip-point-fun-fact">
-                        <strong>Fun Fact:</strong> {tripPointDetails[point.id]?.funFact}
-                      </div>
-                    )}
-                    {tripPointDetails[point.id]?.historicalSignificance && (
-                      <div className="trip-point-historical-significance">
-                        <strong>Historical Significance:</strong> {tripPointDetails[point.id]?.historicalSignificance}
-                      </div>
-                    )}
-                  </>
-                )}
-              </div>
-            </Popup>
-          </Marker>
-        ))}
+              </Popup>
+            </Marker>
+          );
+        })}
       </MapContainer>
 
       {/* Map Control Buttons */}
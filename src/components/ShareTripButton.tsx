@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import type { TripRoute } from '../services/tripPlanningService';
+import { buildTripShareUrl } from '../services/tripShareService';
+import './ShareTripButton.css';
+
+interface ShareTripButtonProps {
+  trip: TripRoute;
+}
+
+const COPIED_FEEDBACK_MS = 2000;
+
+const ShareTripButton: React.FC<ShareTripButtonProps> = ({ trip }) => {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = window.setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  const handleShare = async () => {
+    const url = buildTripShareUrl(trip);
+    try {
+      await navigator.clipboard.writeText(url);
+      console.log(`🔗 Copied share link for "${trip.name}" (${url.length} characters)`);
+      setCopied(true);
+    } catch {
+      // No clipboard access (insecure origin, denied permission): let the user copy it
+      window.prompt('Copy this link to share the trip:', url);
+    }
+  };
+
+  return (
+    <button
+      className={`share-trip-btn ${copied ? 'copied' : ''}`}
+      onClick={handleShare}
+      title="Copy a link that opens this trip"
+    >
+      {copied ? '✓ Link Copied' : '🔗 Share Link'}
+    </button>
+  );
+};
+
+export default ShareTripButton;
@@ -1,11 +1,22 @@
 import React from 'react';
 import type { TripRoute } from '../services/tripPlanningService';
+import { trackFromTrip } from '../services/tripExportService';
+import { TRAVEL_MODE_ICONS, type TravelMode } from '../services/tripRoutingService';
+import { buildTripSchedule, formatClockTime } from '../services/tripScheduleService';
+import ExportButtons from './ExportButtons';
+import ShareTripButton from './ShareTripButton';
 import './TripDisplay.css';
 
 interface TripDisplayProps {
   trip: TripRoute;
   onClose: () => void;
   onSelectTrip: (trip: TripRoute) => void;
+  onEditTrip?: (trip: TripRoute) => void;
+  onSaveTrip?: (trip: TripRoute) => void;
+  isSaved?: boolean;
+  onPrintTrip?: (trip: TripRoute) => void;
+  onChangeStartTime?: (trip: TripRoute, startTime: Date) => void;
+  onReorderForOpeningHours?: (trip: TripRoute) => void;
   allTrips: TripRoute[];
 }
 
@@ -13,6 +24,12 @@ const TripDisplay: React.FC<TripDisplayProps> = ({
   trip,
   onClose,
   onSelectTrip,
+  onEditTrip,
+  onSaveTrip,
+  isSaved = false,
+  onPrintTrip,
+  onChangeStartTime,
+  onReorderForOpeningHours,
   allTrips
 }) => {
   const formatDuration = (minutes: number): string => {
@@ -31,6 +48,20 @@ const TripDisplay: React.FC<TripDisplayProps> = ({
     return `${meters}m`;
   };
 
+  // datetime-local wants local time without a zone
+  const toInputValue = (date: Date): string => {
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+  };
+
+  // Clock times and opening-hours checks for the chosen start, now by default
+  const schedule = buildTripSchedule(trip, trip.startTime ? new Date(trip.startTime) : new Date());
+  const hoursProblems = schedule.stops.filter(stop => stop.status === 'closed' || stop.status === 'closes_early').length;
+
+  // The trip's mode first, then any other mode a leg uses
+  const tripMode = trip.mode || 'walking';
+  const travelModes = [tripMode, ...trip.points.map(point => point.travelMode)]
+    .filter((mode, index, modes): mode is TravelMode => mode !== undefined && modes.indexOf(mode) === index);
+
   return (
     <div className="trip-display-overlay">
       <div className="trip-display">
@@ -49,10 +80,39 @@ const TripDisplay: React.FC<TripDisplayProps> = ({
               <span className="stat-value">{formatDuration(trip.totalDuration)}</span>
             </div>
             <div className="stat">
-              <span className="stat-icon">🚶</span>
+              <span className="stat-icon">📏</span>
               <span className="stat-label">Distance:</span>
               <span className="stat-value">{formatDistance(trip.totalDistance)}</span>
             </div>
+            <div className="stat">
+              <span className="stat-icon">{TRAVEL_MODE_ICONS[tripMode]}</span>
+              <span className="stat-label">Travel:</span>
+              <span className="stat-value">{travelModes.map(mode => `${TRAVEL_MODE_ICONS[mode]} ${mode}`).join(' + ')}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-icon">🕒</span>
+              <span className="stat-label">Start:</span>
+              {onChangeStartTime ? (
+                <input
+                  type="datetime-local"
+                  className="stat-value trip-start-input"
+                  value={toInputValue(schedule.start)}
+                  onChange={(e) => {
+                    const startTime = new Date(e.target.value);
+                    if (!isNaN(startTime.getTime())) {
+                      onChangeStartTime(trip, startTime);
+                    }
+                  }}
+                />
+              ) : (
+                <span className="stat-value">{formatClockTime(schedule.start)}</span>
+              )}
+            </div>
+            <div className="stat">
+              <span className="stat-icon">🏁</span>
+              <span className="stat-label">Ends:</span>
+              <span className="stat-value">{formatClockTime(schedule.end)}</span>
+            </div>
             {trip.estimatedCost && (
               <div className="stat">
                 <span className="stat-icon">💰</span>
@@ -73,22 +133,52 @@ const TripDisplay: React.FC<TripDisplayProps> = ({
             <p>{trip.description}</p>
           </div>
 
+          {hoursProblems > 0 && (
+            <div className="trip-hours-warnings">
+              <ul>
+                {schedule.warnings.map(warning => (
+                  <li key={warning}>⚠️ {warning}</li>
+                ))}
+              </ul>
+              {onReorderForOpeningHours && (
+                <button className="trip-hours-reorder" onClick={() => onReorderForOpeningHours(trip)}>
+                  🔀 Reorder around opening hours
+                </button>
+              )}
+            </div>
+          )}
+
           <div className="trip-route">
             <h4>📍 Route Points</h4>
             <div className="route-points">
-              {trip.points.map((point, index) => (
-                <div key={point.id} className="route-point">
-                  <div className="point-number">{index + 1}</div>
-                  <div className="point-info">
-                    <div className="point-name">{point.name}</div>
-                    <div className="point-details">
-                      <span className="point-category">{point.category}</span>
-                      <span className="point-duration">{formatDuration(point.visitDuration)}</span>
+              {trip.points.map((point, index) => {
+                const stop = schedule.stops[index];
+                return (
+                  <div
+                    key={point.id}
+                    className={`route-point ${stop.status === 'closed' || stop.status === 'closes_early' ? 'hours-problem' : ''}`}
+                  >
+                    <div className="point-number">{index + 1}</div>
+                    <div className="point-info">
+                      <div className="point-name">{point.name}</div>
+                      <div className="point-details">
+                        <span className="point-category">{point.category}</span>
+                        <span className="point-time">
+                          {formatClockTime(stop.arrival)}–{formatClockTime(stop.departure)}
+                        </span>
+                        <span className="point-duration">{formatDuration(point.visitDuration)}</span>
+                      </div>
+                      {point.openingHours && (
+                        <div className="point-hours">
+                          🕒 {point.openingHours}
+                          {stop.waitMinutes > 0 && ` · opens ${stop.waitMinutes} min after you arrive`}
+                        </div>
+                      )}
+                      <div className="point-description">{point.description}</div>
                     </div>
-                    <div className="point-description">{point.description}</div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
 
@@ -115,10 +205,38 @@ const TripDisplay: React.FC<TripDisplayProps> = ({
           )}
         </div>
 
+        <div className="trip-export">
+          <ExportButtons getTrack={() => trackFromTrip(trip)} />
+          <ShareTripButton trip={trip} />
+        </div>
+
         <div className="trip-actions">
           <button className="trip-action-btn primary" onClick={() => onSelectTrip(trip)}>
             🎯 Set as Current Trip
           </button>
+          {onEditTrip && (
+            <button className="trip-action-btn secondary" onClick={() => onEditTrip(trip)}>
+              ✏️ Edit Stops
+            </button>
+          )}
+          {onSaveTrip && (
+            <button
+              className="trip-action-btn secondary"
+              onClick={() => onSaveTrip(trip)}
+              title={isSaved ? 'Update the copy in My Trips' : 'Keep this trip in My Trips'}
+            >
+              {isSaved ? '💾 Update Saved' : '💾 Save'}
+            </button>
+          )}
+          {onPrintTrip && (
+            <button
+              className="trip-action-btn secondary"
+              onClick={() => onPrintTrip(trip)}
+              title="Printable itinerary with map, stops and directions"
+            >
+              🖨️ Print
+            </button>
+          )}
           <button className="trip-action-btn secondary" onClick={onClose}>
             ✕ Close
           </button>
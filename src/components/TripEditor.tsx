@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import type { TripRoute } from '../services/tripPlanningService';
+import type { CandidatePoint } from '../services/tripPlanSchema';
+import type { FavouriteItem } from '../hooks/useFavourites';
+import { TRAVEL_MODES, TRAVEL_MODE_ICONS, type TravelMode } from '../services/tripRoutingService';
+import './TripEditor.css';
+
+interface TripEditorProps {
+  trip: TripRoute;
+  isRouting: boolean;
+  error: string | null;
+  onRename: (name: string) => void;
+  onMoveStop: (fromIndex: number, toIndex: number) => void;
+  onRemoveStop: (pointId: string) => void;
+  onSetVisitDuration: (pointId: string, minutes: number) => void;
+  onSetTravelMode: (mode: TravelMode) => void;
+  onSetLegMode: (pointId: string, mode: TravelMode | null) => void;
+  favourites: FavouriteItem[];
+  onAddStop: (point: CandidatePoint) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+const TripEditor: React.FC<TripEditorProps> = ({
+  trip,
+  isRouting,
+  error,
+  onRename,
+  onMoveStop,
+  onRemoveStop,
+  onSetVisitDuration,
+  onSetTravelMode,
+  onSetLegMode,
+  favourites,
+  onAddStop,
+  onSave,
+  onCancel
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const tripMode = trip.mode || 'walking';
+
+  const formatDuration = (minutes: number): string => {
+    const hours = Math.floor(minutes / 60);
+    const mins = Math.round(minutes % 60);
+    if (hours > 0) {
+      return `${hours}h ${mins}m`;
+    }
+    return `${mins}m`;
+  };
+
+  const formatDistance = (meters: number): string => {
+    if (meters >= 1000) {
+      return `${(meters / 1000).toFixed(1)}km`;
+    }
+    return `${Math.round(meters)}m`;
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      onMoveStop(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  // Favourites are stored with their name and position, so they can be added
+  // whether or not their marker is loaded on the map
+  const addableFavourites = favourites.filter(favourite => !trip.points.some(point => point.id === favourite.id));
+
+  const addFavourite = (id: string) => {
+    const favourite = favourites.find(item => item.id === id);
+    if (favourite) {
+      onAddStop({
+        id: favourite.id,
+        name: favourite.name,
+        category: favourite.category,
+        latitude: favourite.latitude,
+        longitude: favourite.longitude,
+        description: ''
+      });
+    }
+  };
+
+  // Visit lengths are committed on blur or Enter, so the field can be cleared while typing
+  const commitVisitDuration = (pointId: string, value: string, current: number) => {
+    const minutes = Number(value);
+    if (Number.isFinite(minutes) && minutes > 0 && minutes !== current) {
+      onSetVisitDuration(pointId, minutes);
+    }
+  };
+
+  return (
+    <div className="trip-editor">
+      <div className="trip-editor-header">
+        <h3>✏️ Edit Trip</h3>
+        <button className="trip-editor-close-btn" onClick={onCancel} title="Discard changes">
+          ✕
+        </button>
+      </div>
+
+      <div className="trip-editor-content">
+        <input
+          className="trip-editor-name"
+          type="text"
+          value={trip.name}
+          onChange={(e) => onRename(e.target.value)}
+          placeholder="Trip name"
+        />
+
+        <div className="trip-editor-modes" role="group" aria-label="Travel mode">
+          {TRAVEL_MODES.map(mode => (
+            <button
+              key={mode}
+              className={`trip-editor-mode ${tripMode === mode ? 'active' : ''}`}
+              onClick={() => onSetTravelMode(mode)}
+              title={`Route the whole trip by ${mode}`}
+            >
+              {TRAVEL_MODE_ICONS[mode]} {mode.charAt(0).toUpperCase() + mode.slice(1)}
+            </button>
+          ))}
+        </div>
+
+        <div className="trip-editor-stats">
+          <span>⏱️ {formatDuration(trip.totalDuration)}</span>
+          <span>📏 {formatDistance(trip.totalDistance)}</span>
+          <span>📍 {trip.points.length} stop{trip.points.length === 1 ? '' : 's'}</span>
+          {isRouting && <span className="trip-editor-routing">🔄 Updating route...</span>}
+        </div>
+
+        {error && <div className="trip-editor-error">⚠️ {error}</div>}
+
+        {addableFavourites.length > 0 && (
+          <select
+            className="trip-editor-favourites"
+            value=""
+            onChange={(e) => addFavourite(e.target.value)}
+            disabled={isRouting}
+            title="Add one of your favourites as the last stop"
+          >
+            <option value="">⭐ Add a favourite...</option>
+            {addableFavourites.map(favourite => (
+              <option key={favourite.id} value={favourite.id}>{favourite.name}</option>
+            ))}
+          </select>
+        )}
+
+        {trip.points.length === 0 ? (
+          <div className="trip-editor-empty">
+            Open a place on the map and press <strong>➕ Add to Trip</strong> to add your first stop.
+          </div>
+        ) : (
+          <ol className="trip-editor-stops">
+            {trip.points.map((point, index) => {
+              const segment = trip.routeSegments?.[index];
+              return (
+                <li
+                  key={point.id}
+                  className={`trip-editor-stop ${dragIndex === index ? 'dragging' : ''} ${dropIndex === index && dragIndex !== index ? 'drop-target' : ''}`}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDragIndex(index);
+                  }}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setDropIndex(index);
+                  }}
+                  onDragEnd={() => {
+                    setDragIndex(null);
+                    setDropIndex(null);
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(index);
+                  }}
+                >
+                  {segment && (
+                    <div className="trip-editor-leg">
+                      <select
+                        className="trip-editor-leg-mode"
+                        value={point.travelMode || ''}
+                        onChange={(e) => onSetLegMode(point.id, (e.target.value || null) as TravelMode | null)}
+                        title="How to get to this stop"
+                      >
+                        <option value="">{TRAVEL_MODE_ICONS[tripMode]} Trip mode</option>
+                        {TRAVEL_MODES.filter(mode => mode !== tripMode).map(mode => (
+                          <option key={mode} value={mode}>{TRAVEL_MODE_ICONS[mode]} {mode}</option>
+                        ))}
+                      </select>
+                      {TRAVEL_MODE_ICONS[segment.mode || 'walking']} {formatDistance(segment.distance)} • {formatDuration(segment.duration)}
+                    </div>
+                  )}
+                  <div className="trip-editor-stop-row">
+                    <span className="trip-editor-handle" title="Drag to reorder">⋮⋮</span>
+                    <span className="trip-editor-number">{index + 1}</span>
+                    <div className="trip-editor-stop-info">
+                      <div className="trip-editor-stop-name">{point.name}</div>
+                      <div className="trip-editor-stop-category">{point.category}</div>
+                    </div>
+                    <label className="trip-editor-visit" title="Visit duration in minutes">
+                      <input
+                        key={`${point.id}-${point.visitDuration}`}
+                        type="number"
+                        min={1}
+                        step={5}
+                        defaultValue={point.visitDuration}
+                        onBlur={(e) => commitVisitDuration(point.id, e.target.value, point.visitDuration)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            commitVisitDuration(point.id, e.currentTarget.value, point.visitDuration);
+                          }
+                        }}
+                      />
+                      min
+                    </label>
+                    <div className="trip-editor-stop-actions">
+                      <button
+                        onClick={() => onMoveStop(index, index - 1)}
+                        disabled={index === 0}
+                        title="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => onMoveStop(index, index + 1)}
+                        disabled={index === trip.points.length - 1}
+                        title="Move down"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        className="trip-editor-remove"
+                        onClick={() => onRemoveStop(point.id)}
+                        disabled={trip.points.length === 1}
+                        title={trip.points.length === 1 ? 'A trip needs at least one stop' : 'Remove stop'}
+                      >
+                        🗑️
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+
+      <div className="trip-editor-actions">
+        <button
+          className="trip-editor-save"
+          onClick={onSave}
+          disabled={trip.points.length === 0 || isRouting || !trip.name.trim()}
+        >
+          🎯 Save & Set as Current Trip
+        </button>
+        <button className="trip-editor-cancel" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TripEditor;
@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { TripRoute } from '../services/tripPlanningService';
+import { getLocationDetails } from '../services/openaiService';
+import { isAbortError } from '../services/apiClient';
+import { TRAVEL_MODE_ICONS } from '../services/tripRoutingService';
+import { buildTripSchedule, formatClockTime } from '../services/tripScheduleService';
+import './TripItinerary.css';
+
+interface TripItineraryProps {
+  trip: TripRoute;
+  onClose: () => void;
+}
+
+const MAP_WIDTH = 800;
+const MAP_HEIGHT = 420;
+const MAP_PADDING = 36;
+const SCALE_BAR_STEPS = [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+
+// Web Mercator y for a latitude, in the same degree units as longitude
+const mercatorY = (latitude: number): number => {
+  const radians = latitude * Math.PI / 180;
+  return Math.log(Math.tan(Math.PI / 4 + radians / 2)) * 180 / Math.PI;
+};
+
+// A tile-free overview of the route, so the printout needs no network and stays sharp
+const ItineraryMap: React.FC<{ trip: TripRoute }> = ({ trip }) => {
+  const stops = trip.points.map(point => [point.latitude, point.longitude] as [number, number]);
+  const start = trip.routeSegments?.[0]?.fromCoordinates;
+  // routeGeometry is in Mapbox [lng, lat] order
+  const line = trip.routeGeometry && trip.routeGeometry.length > 1
+    ? trip.routeGeometry.map(([lng, lat]) => [lat, lng] as [number, number])
+    : [...(start ? [start] : []), ...stops];
+  const all = [...line, ...stops, ...(start ? [start] : [])];
+  if (all.length === 0) {
+    return null;
+  }
+
+  const xs = all.map(([, lng]) => lng);
+  const ys = all.map(([lat]) => mercatorY(lat));
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  // Degrees per pixel; a single point still gets a sensible zoom
+  const scale = Math.max(
+    (maxX - minX) / (MAP_WIDTH - 2 * MAP_PADDING),
+    (maxY - minY) / (MAP_HEIGHT - 2 * MAP_PADDING),
+    0.00001
+  );
+  const offsetX = (MAP_WIDTH - (maxX - minX) / scale) / 2;
+  const offsetY = (MAP_HEIGHT - (maxY - minY) / scale) / 2;
+  const project = ([lat, lng]: [number, number]): [number, number] => [
+    offsetX + (lng - minX) / scale,
+    offsetY + (maxY - mercatorY(lat)) / scale
+  ];
+
+  const centerLatitude = (Math.min(...all.map(([lat]) => lat)) + Math.max(...all.map(([lat]) => lat))) / 2;
+  const metersPerPixel = scale * 111320 * Math.cos(centerLatitude * Math.PI / 180);
+  const scaleMeters = [...SCALE_BAR_STEPS].reverse().find(meters => meters / metersPerPixel <= MAP_WIDTH / 4) || SCALE_BAR_STEPS[0];
+  const scalePixels = scaleMeters / metersPerPixel;
+
+  return (
+    <svg
+      className="itinerary-map"
+      viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+      role="img"
+      aria-label={`Overview map of ${trip.name}`}
+    >
+      <rect x="0" y="0" width={MAP_WIDTH} height={MAP_HEIGHT} className="itinerary-map-background" />
+      <polyline
+        points={line.map(position => project(position).join(',')).join(' ')}
+        className="itinerary-map-route"
+      />
+      {start && (
+        <g transform={`translate(${project(start).join(',')})`}>
+          <circle r="8" className="itinerary-map-start" />
+          <text y="4" textAnchor="middle" className="itinerary-map-label">S</text>
+        </g>
+      )}
+      {stops.map((position, index) => (
+        <g key={trip.points[index].id} transform={`translate(${project(position).join(',')})`}>
+          <circle r="11" className="itinerary-map-stop" />
+          <text y="4" textAnchor="middle" className="itinerary-map-label">{index + 1}</text>
+        </g>
+      ))}
+      <g transform={`translate(${MAP_PADDING / 2}, ${MAP_HEIGHT - MAP_PADDING / 2})`}>
+        <line x1="0" y1="0" x2={scalePixels} y2="0" className="itinerary-map-scale" />
+        <text x={scalePixels / 2} y="-6" textAnchor="middle" className="itinerary-map-scale-label">
+          {scaleMeters >= 1000 ? `${scaleMeters / 1000} km` : `${scaleMeters} m`}
+        </text>
+      </g>
+      <text x={MAP_WIDTH - MAP_PADDING / 2} y={MAP_PADDING} textAnchor="end" className="itinerary-map-north">N ↑</text>
+    </svg>
+  );
+};
+
+const TripItinerary: React.FC<TripItineraryProps> = ({ trip, onClose }) => {
+  const [funFacts, setFunFacts] = useState<Record<string, string>>({});
+  const [loadedCount, setLoadedCount] = useState(0);
+
+  // Fetch fun facts one stop at a time; they come from the same cache as the map popups
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const loadFunFacts = async () => {
+      for (const point of trip.points) {
+        try {
+          const details = await getLocationDetails(
+            point.name,
+            point.latitude,
+            point.longitude,
+            point.category,
+            point.id,
+            { signal: controller.signal }
+          );
+          if (controller.signal.aborted) return;
+          setFunFacts(prev => ({ ...prev, [point.id]: details.funFact }));
+        } catch (error) {
+          if (isAbortError(error)) return;
+          console.error(`Failed to load fun fact for ${point.name}:`, error);
+        }
+        setLoadedCount(count => count + 1);
+      }
+    };
+
+    loadFunFacts();
+    return () => controller.abort();
+  }, [trip.points]);
+
+  const formatDuration = (minutes: number): string => {
+    const rounded = Math.round(minutes);
+    const hours = Math.floor(rounded / 60);
+    const mins = rounded % 60;
+    if (hours > 0) {
+      return `${hours}h ${mins}m`;
+    }
+    return `${mins}m`;
+  };
+
+  const formatDistance = (meters: number): string => {
+    if (meters >= 1000) {
+      return `${(meters / 1000).toFixed(1)}km`;
+    }
+    return `${Math.round(meters)}m`;
+  };
+
+  const isLoadingFacts = loadedCount < trip.points.length;
+  const schedule = buildTripSchedule(trip, trip.startTime ? new Date(trip.startTime) : new Date());
+
+  const itinerary = (
+    <div className="trip-itinerary-overlay">
+      <div className="trip-itinerary-toolbar">
+        <span className="trip-itinerary-status">
+          {isLoadingFacts
+            ? `Loading fun facts ${loadedCount}/${trip.points.length}…`
+            : 'Ready to print'}
+        </span>
+        <button className="trip-itinerary-print" onClick={() => window.print()}>
+          🖨️ Print / Save as PDF
+        </button>
+        <button className="trip-itinerary-close" onClick={onClose}>
+          ✕ Close
+        </button>
+      </div>
+
+      <article className="trip-itinerary">
+        <header className="trip-itinerary-header">
+          <h1>{trip.name}</h1>
+          {trip.description && <p className="trip-itinerary-description">{trip.description}</p>}
+          <div className="trip-itinerary-stats">
+            <span>⏱️ {formatDuration(trip.totalDuration)}</span>
+            <span>📏 {formatDistance(trip.totalDistance)}</span>
+            <span>📍 {trip.points.length} stops</span>
+            <span>🕒 {schedule.start.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}–{formatClockTime(schedule.end)}</span>
+          </div>
+        </header>
+
+        <ItineraryMap trip={trip} />
+
+        <ol className="trip-itinerary-stops">
+          {trip.points.map((point, index) => {
+            const segment = trip.routeSegments?.[index];
+            const stop = schedule.stops[index];
+            return (
+              <li key={point.id} className="trip-itinerary-stop">
+                {segment && (
+                  <div className="trip-itinerary-leg">
+                    <div className="trip-itinerary-leg-summary">
+                      {TRAVEL_MODE_ICONS[segment.mode || 'walking']} {formatDistance(segment.distance)} · {formatDuration(segment.duration)}
+                      {' '}from {index === 0 ? 'the start' : trip.points[index - 1].name}
+                    </div>
+                    {segment.steps.length > 0 && (
+                      <ol className="trip-itinerary-steps">
+                        {segment.steps.map((step, stepIndex) => (
+                          <li key={stepIndex}>
+                            {step.instruction}
+                            {step.distance > 0 && (
+                              <span className="trip-itinerary-step-distance"> ({formatDistance(step.distance)})</span>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </div>
+                )}
+
+                <section className="trip-itinerary-stop-details">
+                  <h2>
+                    <span className="trip-itinerary-stop-number">{index + 1}</span>
+                    {point.name}
+                  </h2>
+                  <div className="trip-itinerary-stop-meta">
+                    {formatClockTime(stop.arrival)}–{formatClockTime(stop.departure)} · {point.category} · about {formatDuration(point.visitDuration)} here
+                    {point.openingHours && <> · open {point.openingHours}</>}
+                  </div>
+                  {stop.warning && <p className="trip-itinerary-hours-warning">⚠️ {stop.warning}</p>}
+                  {point.description && <p>{point.description}</p>}
+                  {funFacts[point.id] && (
+                    <p className="trip-itinerary-fun-fact">
+                      <strong>Fun fact:</strong> {funFacts[point.id]}
+                    </p>
+                  )}
+                </section>
+              </li>
+            );
+          })}
+        </ol>
+
+        <footer className="trip-itinerary-footer">
+          Printed from Histowalk on {new Date().toLocaleDateString()}
+        </footer>
+      </article>
+    </div>
+  );
+
+  // Rendered next to #root so the print stylesheet can hide the whole app
+  return createPortal(itinerary, document.body);
+};
+
+export default TripItinerary;
@@ -0,0 +1,152 @@
+import React, { useRef, useState } from 'react';
+import type { SavedTrip } from '../hooks/useTripLibrary';
+import type { TripRoute } from '../services/tripPlanningService';
+import './TripLibrary.css';
+
+interface TripLibraryProps {
+  savedTrips: SavedTrip[];
+  currentTripId?: string | null;
+  onOpen: (trip: TripRoute) => void;
+  onRename: (routeId: string, name: string) => void;
+  onDuplicate: (routeId: string) => void;
+  onDelete: (routeId: string) => void;
+  onImport?: (file: File) => Promise<void>; // GPX or GeoJSON
+}
+
+const TripLibrary: React.FC<TripLibraryProps> = ({
+  savedTrips,
+  currentTripId = null,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onImport
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameInput, setNameInput] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const formatDuration = (minutes: number): string => {
+    const hours = Math.floor(minutes / 60);
+    const mins = Math.round(minutes % 60);
+    if (hours > 0) {
+      return `${hours}h ${mins}m`;
+    }
+    return `${mins}m`;
+  };
+
+  const startRenaming = (saved: SavedTrip) => {
+    setRenamingId(saved.route.id);
+    setNameInput(saved.route.name);
+  };
+
+  const finishRenaming = () => {
+    if (renamingId) {
+      onRename(renamingId, nameInput);
+    }
+    setRenamingId(null);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow importing the same file again
+    if (!file || !onImport) return;
+
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      await onImport(file);
+    } catch (error) {
+      console.error('Error importing trip:', error);
+      setImportError(error instanceof Error ? error.message : 'Could not import this file');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDelete = (saved: SavedTrip) => {
+    if (window.confirm(`Delete "${saved.route.name}" from your trips?`)) {
+      onDelete(saved.route.id);
+    }
+  };
+
+  return (
+    <div className="trip-library">
+      <h3>📚 My Trips</h3>
+
+      {onImport && (
+        <div className="trip-library-import">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".gpx,.geojson,.json,application/gpx+xml,application/geo+json"
+            onChange={handleImportFile}
+            hidden
+          />
+          <button
+            className="control-button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            title="Import a tour from a GPX or GeoJSON file"
+          >
+            <span className="control-icon">📥</span>
+            <span className="control-text">{isImporting ? 'Importing...' : 'Import GPX / GeoJSON'}</span>
+          </button>
+          {importError && <p className="trip-library-error">⚠️ {importError}</p>}
+        </div>
+      )}
+
+      {savedTrips.length === 0 ? (
+        <p className="trip-library-empty">Saved trips appear here. Use 💾 Save on any trip to keep it.</p>
+      ) : (
+        <ul className="trip-library-list">
+          {savedTrips.map(saved => (
+            <li
+              key={saved.route.id}
+              className={`trip-library-item ${saved.route.id === currentTripId ? 'current' : ''}`}
+            >
+              {renamingId === saved.route.id ? (
+                <input
+                  className="trip-library-rename"
+                  value={nameInput}
+                  autoFocus
+                  onChange={(e) => setNameInput(e.target.value)}
+                  onBlur={finishRenaming}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') finishRenaming();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                />
+              ) : (
+                <button
+                  className="trip-library-open"
+                  onClick={() => onOpen(saved.route)}
+                  title="Open this trip"
+                >
+                  <span className="trip-library-name">{saved.route.name}</span>
+                  <span className="trip-library-meta">
+                    {[
+                      saved.city,
+                      new Date(saved.createdAt).toLocaleDateString(),
+                      formatDuration(saved.route.totalDuration),
+                      `${saved.route.points.length} stops`
+                    ].filter(Boolean).join(' • ')}
+                  </span>
+                </button>
+              )}
+              <div className="trip-library-actions">
+                <button onClick={() => startRenaming(saved)} title="Rename">✏️</button>
+                <button onClick={() => onDuplicate(saved.route.id)} title="Duplicate">⧉</button>
+                <button onClick={() => handleDelete(saved)} title="Delete">🗑️</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TripLibrary;
@@ -1,6 +1,12 @@
 import React, { useState } from 'react';
 import type { TripRoute } from '../services/tripPlanningService';
 import type { CurrentTrip } from '../hooks/useTrip';
+import { tripLegCount, type TripProgressSnapshot } from '../services/tripProgressService';
+import { trackFromTrip } from '../services/tripExportService';
+import { TRAVEL_MODE_ICONS } from '../services/tripRoutingService';
+import { formatClockTime } from '../services/tripScheduleService';
+import ExportButtons from './ExportButtons';
+import ShareTripButton from './ShareTripButton';
 import './TripPanel.css';
 
 interface TripPanelProps {
@@ -10,6 +16,12 @@ interface TripPanelProps {
   onClose: () => void;
   onToggleTripMode: () => void;
   isTripMode: boolean;
+  tripProgress?: TripProgressSnapshot | null;
+  isRerouting?: boolean;
+  onEditTrip?: (trip: TripRoute) => void;
+  onSaveTrip?: (trip: TripRoute) => void;
+  isSaved?: boolean;
+  onPrintTrip?: (trip: TripRoute) => void;
 }
 
 const TripPanel: React.FC<TripPanelProps> = ({
@@ -18,7 +30,13 @@ const TripPanel: React.FC<TripPanelProps> = ({
   onSelectTrip,
   onClose,
   onToggleTripMode,
-  isTripMode
+  isTripMode,
+  tripProgress,
+  isRerouting = false,
+  onEditTrip,
+  onSaveTrip,
+  isSaved = false,
+  onPrintTrip
 }) => {
   const [expandedPointIndex, setExpandedPointIndex] = useState<number>(-1);
   const [isMinimized, setIsMinimized] = useState<boolean>(false);
@@ -62,41 +80,48 @@ const TripPanel: React.FC<TripPanelProps> = ({
     return '→';
   };
 
+  // Live progress when tracking, otherwise whatever was stored with the trip
+  const progress = tripProgress || currentTrip?.progress;
+  const currentSegmentIndex = progress?.currentSegmentIndex ?? 0;
+  const visitedPointIds = progress?.visitedPointIds ?? [];
+
   const getNextTurnByTurnStep = () => {
-    if (!currentTrip?.route.routeSegments || currentTrip.route.routeSegments.length === 0) {
+    const segment = getStepsToNextPoint();
+    if (!segment?.steps || segment.steps.length === 0) {
       return null;
     }
-    
-    // For now, return the first step of the first segment
-    // In a real implementation, you might want to track current progress
-    const firstSegment = currentTrip.route.routeSegments[0];
-    if (firstSegment.steps && firstSegment.steps.length > 0) {
-      return firstSegment.steps[0];
-    }
-    
-    return null;
+    return segment.steps[Math.min(progress?.currentStepIndex ?? 0, segment.steps.length - 1)];
   };
 
   const getNextRoutePoint = () => {
     if (!currentTrip?.route.points || currentTrip.route.points.length === 0) {
       return null;
     }
-    
-    // For now, return the first route point
-    // In a real implementation, you might want to track current progress
-    return currentTrip.route.points[0];
+    return currentTrip.route.points[currentSegmentIndex] || null;
   };
 
   const getStepsToNextPoint = () => {
     if (!currentTrip?.route.routeSegments || currentTrip.route.routeSegments.length === 0) {
       return null;
     }
-    
-    // For now, return the first segment
-    // In a real implementation, you might want to track current progress
-    return currentTrip.route.routeSegments[0];
+    return currentTrip.route.routeSegments[currentSegmentIndex] || null;
   };
 
+  // After the last stop a round trip heads back to where it started
+  const getNextStopName = () => {
+    const nextPoint = getNextRoutePoint();
+    if (nextPoint) {
+      return nextPoint.name;
+    }
+    const returnTo = currentTrip?.route.returnTo;
+    if (returnTo && currentSegmentIndex === currentTrip.route.points.length) {
+      return returnTo.id === 'home' ? 'Home' : 'Start';
+    }
+    return null;
+  };
+
+  const isTripComplete = currentTrip ? currentSegmentIndex >= tripLegCount(currentTrip.route) : false;
+
   const [showMinimizedSteps, setShowMinimizedSteps] = useState<boolean>(false);
 
   if (!currentTrip) return null;
@@ -119,19 +144,29 @@ const TripPanel: React.FC<TripPanelProps> = ({
         </div>
       </div>
 
+      {isRerouting && (
+        <div className="trip-reroute-banner">🔀 Off route, finding a new way to {getNextStopName() || 'the next stop'}...</div>
+      )}
+
       {isMinimized ? (
         <div className="trip-panel-minimized">
           <div className="next-step-container">
-            <h4>🎯 {getNextRoutePoint()?.name || 'Next Route Point'}</h4>
+            <h4>🎯 {isTripComplete ? 'Trip complete' : getNextStopName() || 'Next Route Point'}</h4>
+            {!isTripComplete && tripProgress?.distanceToNextPoint != null && (
+              <div className="next-point-distance">
+                {formatDistance(Math.round(tripProgress.distanceToNextPoint))} to go • {visitedPointIds.length}/{currentTrip.route.points.length} visited
+              </div>
+            )}
             {(() => {
               const nextStep = getNextTurnByTurnStep();
               const stepsToNextPoint = getStepsToNextPoint();
               const nextPoint = getNextRoutePoint();
+              const nextStopName = getNextStopName();
               
               if (!nextStep) {
                 return (
                   <div className="no-next-step">
-                    <p>No active navigation step</p>
+                    <p>{isTripComplete ? '🎉 All stops visited' : 'No active navigation step'}</p>
                   </div>
                 );
               }
@@ -150,7 +185,7 @@ const TripPanel: React.FC<TripPanelProps> = ({
                     <div className="next-step-info">
                       <div className="next-step-instruction">{nextStep.instruction}</div>
                       <div className="next-step-distance">
-                        {formatDistance(Math.round(nextStep.distance))}
+                        {formatDistance(Math.round(tripProgress?.distanceToNextStep ?? nextStep.distance))}
                       </div>
                     </div>
                     <div className="expand-hint">{showMinimizedSteps ? '▼' : '▶'}</div>
@@ -160,11 +195,14 @@ const TripPanel: React.FC<TripPanelProps> = ({
                   {showMinimizedSteps && stepsToNextPoint && (
                     <div className="minimized-steps">
                       <div className="steps-header">
-                        <span>All steps to: {nextPoint?.name}</span>
+                        <span>All steps to: {nextStopName}</span>
                       </div>
                       <div className="steps-list">
                         {stepsToNextPoint.steps?.map((step, stepIndex) => (
-                          <div key={`minimized-step-${stepIndex}`} className="minimized-step">
+                          <div 
+                            key={`minimized-step-${stepIndex}`} 
+                            className={`minimized-step ${stepIndex < (progress?.currentStepIndex ?? 0) ? 'completed' : ''} ${stepIndex === (progress?.currentStepIndex ?? 0) ? 'current' : ''}`}
+                          >
                             <div className="step-icon">
                               {getDirectionIcon(step.instruction)}
                             </div>
@@ -180,7 +218,7 @@ const TripPanel: React.FC<TripPanelProps> = ({
                       <div className="destination-point">
                         <div className="destination-icon">📍</div>
                         <div className="destination-info">
-                          <div className="destination-name">{nextPoint?.name}</div>
+                          <div className="destination-name">{nextStopName}</div>
                           <div className="destination-category">{nextPoint?.category}</div>
                         </div>
                       </div>
@@ -200,7 +238,7 @@ const TripPanel: React.FC<TripPanelProps> = ({
               <span className="stat-value">{formatDuration(currentTrip.route.totalDuration)}</span>
             </div>
             <div className="trip-stat">
-              <span className="stat-icon">🚶</span>
+              <span className="stat-icon">{TRAVEL_MODE_ICONS[currentTrip.route.mode || 'walking']}</span>
               <span className="stat-label">Distance:</span>
               <span className="stat-value">{formatDistance(currentTrip.route.totalDistance)}</span>
             </div>
@@ -223,19 +261,22 @@ const TripPanel: React.FC<TripPanelProps> = ({
               {currentTrip.route.points.map((point, index) => (
                 <div key={point.id} className="route-point-container">
                   <div 
-                    className="route-point-item"
+                    className={`route-point-item ${visitedPointIds.includes(point.id) ? 'visited' : ''} ${index === currentSegmentIndex ? 'next' : ''}`}
                     onClick={() => handleRoutePointClick(index)}
                     style={{ cursor: 'pointer' }}
                     title="Click for turn-by-turn navigation"
                   >
-                    <div className="point-number">{index + 1}</div>
+                    <div className="point-number">{visitedPointIds.includes(point.id) ? '✓' : index + 1}</div>
                     <div className="point-info">
                       <div className="point-name">{point.name}</div>
                       <div className="point-details">
                         <span className="point-category">{point.category}</span>
+                        {point.arrivalTime && (
+                          <span className="point-arrival">🕒 {formatClockTime(new Date(point.arrivalTime))}</span>
+                        )}
                         <span className="point-duration">
                           {currentTrip?.route.routeSegments?.[index] 
-                            ? `${formatDistance(Math.round(currentTrip.route.routeSegments[index].distance))} • ${formatDuration(Math.round(currentTrip.route.routeSegments[index].duration))}`
+                            ? `${TRAVEL_MODE_ICONS[currentTrip.route.routeSegments[index].mode || 'walking']} ${formatDistance(Math.round(currentTrip.route.routeSegments[index].distance))} • ${formatDuration(Math.round(currentTrip.route.routeSegments[index].duration))}`
                             : formatDuration(point.visitDuration)
                           }
                         </span>
@@ -328,6 +369,37 @@ const TripPanel: React.FC<TripPanelProps> = ({
             {isTripMode ? 'Exit Trip Mode' : 'Enter Trip Mode'}
           </button>
         )}
+        {!isMinimized && onEditTrip && (
+          <button
+            className="trip-action-btn secondary"
+            onClick={() => onEditTrip(currentTrip.route)}
+          >
+            ✏️ Edit Trip
+          </button>
+        )}
+        {!isMinimized && onSaveTrip && (
+          <button
+            className="trip-action-btn secondary"
+            onClick={() => onSaveTrip(currentTrip.route)}
+            disabled={isSaved}
+          >
+            {isSaved ? '✓ Saved in My Trips' : '💾 Save to My Trips'}
+          </button>
+        )}
+        {!isMinimized && (
+          <ExportButtons getTrack={() => trackFromTrip(currentTrip.route)} />
+        )}
+        {!isMinimized && onPrintTrip && (
+          <button
+            className="trip-action-btn secondary"
+            onClick={() => onPrintTrip(currentTrip.route)}
+          >
+            🖨️ Printable Itinerary
+          </button>
+        )}
+        {!isMinimized && (
+          <ShareTripButton trip={currentTrip.route} />
+        )}
       </div>
     </div>
   );
@@ -1,18 +1,21 @@
 import React, { useState } from 'react';
 import type { TripRoute } from '../services/tripPlanningService';
 import type { TripRouteSegment } from '../services/tripRoutingService';
+import type { TripProgress } from '../services/tripProgressService';
 import './TripTurnByTurn.css';
 
 interface TripTurnByTurnProps {
   trip: TripRoute;
   routeSegments: TripRouteSegment[];
   onClose: () => void;
+  progress?: TripProgress | null; // follow live progress instead of the Previous/Next buttons
 }
 
 const TripTurnByTurn: React.FC<TripTurnByTurnProps> = ({
   trip,
   routeSegments,
-  onClose
+  onClose,
+  progress
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
@@ -54,13 +57,19 @@ const TripTurnByTurn: React.FC<TripTurnByTurnProps> = ({
       segmentIndex,
       stepIndex,
       isDestination: stepIndex === steps.length - 1,
-      destinationName: trip.points[segmentIndex]?.name || 'Unknown',
+      destinationName: trip.points[segmentIndex]?.name || (segment.to === 'home' ? 'Home' : segment.to === 'user' ? 'Start' : 'Unknown'),
       segmentDistance: segment.distance,
       segmentDuration: segment.duration
     }));
   });
 
-  const currentStep = allSteps[currentStepIndex];
+  const liveStepIndex = progress
+    ? allSteps.findIndex(step => step.segmentIndex === progress.currentSegmentIndex && step.stepIndex === progress.currentStepIndex)
+    : -1;
+  const isFollowingProgress = liveStepIndex >= 0;
+  const activeStepIndex = isFollowingProgress ? liveStepIndex : currentStepIndex;
+
+  const currentStep = allSteps[activeStepIndex];
 
   const handleNextStep = () => {
     if (currentStepIndex < allSteps.length - 1) {
@@ -74,7 +83,7 @@ const TripTurnByTurn: React.FC<TripTurnByTurnProps> = ({
     }
   };
 
-  const progressPercentage = ((currentStepIndex + 1) / allSteps.length) * 100;
+  const progressPercentage = ((activeStepIndex + 1) / allSteps.length) * 100;
 
   if (!currentStep) return null;
 
@@ -118,7 +127,7 @@ const TripTurnByTurn: React.FC<TripTurnByTurnProps> = ({
                 ></div>
               </div>
               <div className="progress-text">
-                Step {currentStepIndex + 1} of {allSteps.length}
+                Step {activeStepIndex + 1} of {allSteps.length}
               </div>
             </div>
 
@@ -126,7 +135,7 @@ const TripTurnByTurn: React.FC<TripTurnByTurnProps> = ({
               {allSteps.map((step, index) => (
                 <div 
                   key={`${step.segmentIndex}-${step.stepIndex}`}
-                  className={`route-step ${index === currentStepIndex ? 'current' : ''} ${step.isDestination ? 'destination' : ''}`}
+                  className={`route-step ${index === activeStepIndex ? 'current' : ''} ${step.isDestination ? 'destination' : ''}`}
                 >
                   <div className="step-icon">
                     {step.isDestination ? '📍' : getDirectionIcon(step.instruction)}
@@ -144,22 +153,24 @@ const TripTurnByTurn: React.FC<TripTurnByTurnProps> = ({
               ))}
             </div>
 
-            <div className="route-navigation">
-              <button 
-                className="nav-btn"
-                onClick={handlePreviousStep}
-                disabled={currentStepIndex === 0}
-              >
-                ← Previous
-              </button>
-              <button 
-                className="nav-btn"
-                onClick={handleNextStep}
-                disabled={currentStepIndex === allSteps.length - 1}
-              >
-                Next →
-              </button>
-            </div>
+            {!isFollowingProgress && (
+              <div className="route-navigation">
+                <button 
+                  className="nav-btn"
+                  onClick={handlePreviousStep}
+                  disabled={currentStepIndex === 0}
+                >
+                  ← Previous
+                </button>
+                <button 
+                  className="nav-btn"
+                  onClick={handleNextStep}
+                  disabled={currentStepIndex === allSteps.length - 1}
+                >
+                  Next →
+                </button>
+              </div>
+            )}
           </div>
         )}
       </div>
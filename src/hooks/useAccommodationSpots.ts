@@ -4,6 +4,8 @@ import type { AccommodationSpot } from '../types/AccommodationSpot';
 
 export const useAccommodationSpots = () => {
   const [spots, setSpots] = useState<AccommodationSpot[]>([]);
+  const [totalFound, setTotalFound] = useState(0);
+  const [complete, setComplete] = useState(true);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -18,15 +20,19 @@ export const useAccommodationSpots = () => {
     try {
       console.log(`Searching for accommodation spots at ${centerLat}, ${centerLng} with radius ${radiusMeters}m`);
       
-      const accommodationSpots = await fetchAccommodationSpots(centerLat, centerLng, radiusMeters);
+      const result = await fetchAccommodationSpots(centerLat, centerLng, radiusMeters);
       
-      console.log(`Found ${accommodationSpots.length} accommodation spots`);
-      setSpots(accommodationSpots);
+      console.log(`Found ${result.totalFound} accommodation spots, showing ${result.spots.length}`);
+      setSpots(result.spots);
+      setTotalFound(result.totalFound);
+      setComplete(result.complete);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch accommodation spots';
       console.error('Error in useAccommodationSpots:', errorMessage);
       setError(errorMessage);
       setSpots([]);
+      setTotalFound(0);
+      setComplete(true);
     } finally {
       setLoading(false);
     }
@@ -34,11 +40,15 @@ export const useAccommodationSpots = () => {
 
   const clearSpots = useCallback(() => {
     setSpots([]);
+    setTotalFound(0);
+    setComplete(true);
     setError(null);
   }, []);
 
   return {
     spots,
+    totalFound,
+    complete,
     loading,
     error,
     searchSpots,
@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { calculateDistance } from '../utils/mapBounds';
 
 export interface FavouriteItem {
   id: string;
@@ -12,6 +13,37 @@ export interface FavouriteItem {
 
 const FAVOURITES_STORAGE_KEY = 'histowalk_favourites';
 
+// Favourites saved before ids were provider-derived used the search result
+// index, e.g. `geoapify-3`, `food-0` or `accommodation-12`
+const LEGACY_ID_PATTERN = /^(geoapify|food|accommodation)-\d+$/;
+
+const LEGACY_ID_TYPES: { [key: string]: FavouriteItem['type'] } = {
+  'geoapify': 'historical',
+  'food': 'food',
+  'accommodation': 'accommodation'
+};
+
+// How far a re-found place may be from the saved position to count as the same place
+const RELINK_MAX_DISTANCE_METERS = 50;
+
+interface RelinkCandidate {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export const isLegacyFavouriteId = (id: string): boolean => LEGACY_ID_PATTERN.test(id);
+
+// Older entries may lack a type, recover it from the legacy id prefix
+const normaliseFavourite = (item: FavouriteItem): FavouriteItem => {
+  const match = LEGACY_ID_PATTERN.exec(item.id);
+  if (!item.type && match) {
+    return { ...item, type: LEGACY_ID_TYPES[match[1]] };
+  }
+  return item;
+};
+
 export const useFavourites = () => {
   const [favourites, setFavourites] = useState<FavouriteItem[]>([]);
 
@@ -20,8 +52,8 @@ export const useFavourites = () => {
     const stored = localStorage.getItem(FAVOURITES_STORAGE_KEY);
     if (stored) {
       try {
-        const parsed = JSON.parse(stored);
-        setFavourites(parsed);
+        const parsed: FavouriteItem[] = JSON.parse(stored);
+        setFavourites(parsed.map(normaliseFavourite));
       } catch (error) {
         console.error('Failed to parse stored favourites:', error);
         setFavourites([]);
@@ -67,6 +99,50 @@ export const useFavourites = () => {
     setFavourites([]);
   };
 
+  // Re-link favourites saved with index-based ids to the places from a fresh
+  // search, matching on name and position
+  const relinkLegacyFavourites = useCallback((type: FavouriteItem['type'], spots: RelinkCandidate[]) => {
+    if (spots.length === 0) {
+      return;
+    }
+
+    setFavourites(prev => {
+      if (!prev.some(fav => fav.type === type && isLegacyFavouriteId(fav.id))) {
+        return prev;
+      }
+
+      const takenIds = new Set(prev.map(fav => fav.id));
+      let relinked = 0;
+
+      const next = prev.map(fav => {
+        if (fav.type !== type || !isLegacyFavouriteId(fav.id)) {
+          return fav;
+        }
+
+        const match = spots.find(spot =>
+          !takenIds.has(spot.id) &&
+          spot.name.trim().toLowerCase() === fav.name.trim().toLowerCase() &&
+          calculateDistance(fav.latitude, fav.longitude, spot.latitude, spot.longitude) <= RELINK_MAX_DISTANCE_METERS
+        );
+
+        if (!match) {
+          return fav;
+        }
+
+        takenIds.add(match.id);
+        relinked++;
+        return { ...fav, id: match.id, latitude: match.latitude, longitude: match.longitude };
+      });
+
+      if (relinked === 0) {
+        return prev;
+      }
+
+      console.log(`Re-linked ${relinked} ${type} favourite(s) to stable place ids`);
+      return next;
+    });
+  }, []);
+
   return {
     favourites,
     addFavourite,
@@ -74,6 +150,7 @@ export const useFavourites = () => {
     toggleFavourite,
     isFavourite,
     getFavouritesByType,
-    clearAllFavourites
+    clearAllFavourites,
+    relinkLegacyFavourites
   };
 }; 
\ No newline at end of file
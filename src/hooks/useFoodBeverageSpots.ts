@@ -4,6 +4,8 @@ import type { FoodBeverageSpot } from '../types/FoodBeverageSpot';
 
 export const useFoodBeverageSpots = () => {
   const [spots, setSpots] = useState<FoodBeverageSpot[]>([]);
+  const [totalFound, setTotalFound] = useState(0);
+  const [complete, setComplete] = useState(true);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -18,15 +20,19 @@ export const useFoodBeverageSpots = () => {
     try {
       console.log(`Searching for food & beverage spots at ${centerLat}, ${centerLng} with radius ${radiusMeters}m`);
       
-      const foodSpots = await fetchFoodBeverageSpots(centerLat, centerLng, radiusMeters);
+      const result = await fetchFoodBeverageSpots(centerLat, centerLng, radiusMeters);
       
-      console.log(`Found ${foodSpots.length} food & beverage spots`);
-      setSpots(foodSpots);
+      console.log(`Found ${result.totalFound} food & beverage spots, showing ${result.spots.length}`);
+      setSpots(result.spots);
+      setTotalFound(result.totalFound);
+      setComplete(result.complete);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch food & beverage spots';
       console.error('Error in useFoodBeverageSpots:', errorMessage);
       setError(errorMessage);
       setSpots([]);
+      setTotalFound(0);
+      setComplete(true);
     } finally {
       setLoading(false);
     }
@@ -34,11 +40,15 @@ export const useFoodBeverageSpots = () => {
 
   const clearSpots = useCallback(() => {
     setSpots([]);
+    setTotalFound(0);
+    setComplete(true);
     setError(null);
   }, []);
 
   return {
     spots,
+    totalFound,
+    complete,
     loading,
     error,
     searchSpots,
@@ -1,61 +1,160 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { calculateBearing, calculateDistance } from '../utils/mapBounds';
 
 interface GeolocationState {
   latitude: number | null;
   longitude: number | null;
   accuracy: number | null;
-  error: string | null;
+  heading: number | null; // degrees clockwise from north
+  speed: number | null; // metres per second
+  timestamp: number | null;
+  error: string | null; // no position could be found at all
+  warning: string | null; // the watch failed after a position was found, which is kept
   loading: boolean;
 }
 
-export const useGeolocation = (options?: PositionOptions) => {
+export interface UseGeolocationOptions extends PositionOptions {
+  watch?: boolean; // keep following the device (default) or read the position once
+  throttleMs?: number; // minimum time between updates
+  minDistanceMeters?: number; // movements smaller than this only update accuracy
+}
+
+const DEFAULT_THROTTLE_MS = 1000;
+const DEFAULT_MIN_DISTANCE_METERS = 2;
+
+export const useGeolocation = (options?: UseGeolocationOptions) => {
+  const {
+    watch = true,
+    throttleMs = DEFAULT_THROTTLE_MS,
+    minDistanceMeters = DEFAULT_MIN_DISTANCE_METERS,
+    ...positionOptions
+  } = options || {};
+
   const [state, setState] = useState<GeolocationState>({
     latitude: null,
     longitude: null,
     accuracy: null,
+    heading: null,
+    speed: null,
+    timestamp: null,
     error: null,
+    warning: null,
     loading: true,
   });
+  const [isTracking, setIsTracking] = useState(watch);
 
-  useEffect(() => {
-    if (!navigator.geolocation) {
+  // Last accepted position, used for the minimum distance and for deriving a
+  // heading when the device does not report one (most browsers only do so while moving fast)
+  const lastFixRef = useRef<{ latitude: number; longitude: number } | null>(null);
+  // When the state was last updated, moved or not, for throttling
+  const lastUpdateRef = useRef<number | null>(null);
+  // Read the latest options inside the watch callbacks without restarting the watch
+  const optionsRef = useRef({ throttleMs, minDistanceMeters, positionOptions });
+  optionsRef.current = { throttleMs, minDistanceMeters, positionOptions };
+
+  const onSuccess = useCallback((position: GeolocationPosition) => {
+    const { latitude, longitude, accuracy, heading, speed } = position.coords;
+    const lastFix = lastFixRef.current;
+    const { throttleMs: minInterval, minDistanceMeters: minDistance } = optionsRef.current;
+
+    if (lastUpdateRef.current !== null && position.timestamp - lastUpdateRef.current < minInterval) {
+      return;
+    }
+    lastUpdateRef.current = position.timestamp;
+
+    const moved = lastFix ? calculateDistance(lastFix.latitude, lastFix.longitude, latitude, longitude) : Infinity;
+
+    if (lastFix && moved < minDistance) {
+      // Standing still: keep the marker where it is but refresh accuracy and speed
       setState(prev => ({
         ...prev,
-        error: 'Geolocation is not supported by this browser.',
+        accuracy,
+        speed: speed ?? 0,
+        timestamp: position.timestamp,
+        error: null,
+        warning: null,
         loading: false,
       }));
       return;
     }
 
-    const onSuccess = (position: GeolocationPosition) => {
-      setState({
-        latitude: position.coords.latitude,
-        longitude: position.coords.longitude,
-        accuracy: position.coords.accuracy,
-        error: null,
-        loading: false,
-      });
-    };
+    const derivedHeading = lastFix && (heading === null || isNaN(heading))
+      ? calculateBearing(lastFix.latitude, lastFix.longitude, latitude, longitude)
+      : heading;
+
+    lastFixRef.current = { latitude, longitude };
+
+    setState(prev => ({
+      latitude,
+      longitude,
+      accuracy,
+      heading: derivedHeading ?? prev.heading,
+      speed,
+      timestamp: position.timestamp,
+      error: null,
+      warning: null,
+      loading: false,
+    }));
+  }, []);
+
+  // Once there is a position a failed fix (e.g. a timeout in a tunnel) is not
+  // fatal: keep showing the last position and let the watch carry on
+  const onError = useCallback((error: GeolocationPositionError) => {
+    if (lastFixRef.current !== null) {
+      console.warn('⚠️ Location update failed, keeping the last position:', error.message);
+      setState(prev => ({ ...prev, warning: error.message, loading: false }));
+      return;
+    }
+
+    setState(prev => ({
+      ...prev,
+      error: error.message,
+      loading: false,
+    }));
+  }, []);
 
-    const onError = (error: GeolocationPositionError) => {
+  useEffect(() => {
+    if (!navigator.geolocation) {
       setState(prev => ({
         ...prev,
-        error: error.message,
+        error: 'Geolocation is not supported by this browser.',
         loading: false,
       }));
+      return;
+    }
+
+    // A watch waits for the next fix however long it takes, only a one-off reading times out
+    const geolocationOptions: PositionOptions = {
+      enableHighAccuracy: true,
+      ...(isTracking ? {} : { timeout: 10000 }),
+      maximumAge: 0,
+      ...optionsRef.current.positionOptions,
     };
 
-    navigator.geolocation.getCurrentPosition(
-      onSuccess,
-      onError,
-      {
-        enableHighAccuracy: true,
-        timeout: 10000,
-        maximumAge: 0,
-        ...options,
+    if (!isTracking) {
+      // One-off reading, also used while tracking is paused to get an initial fix
+      if (lastFixRef.current === null) {
+        navigator.geolocation.getCurrentPosition(onSuccess, onError, geolocationOptions);
       }
-    );
-  }, []);
+      return;
+    }
+
+    console.log('📍 Starting location tracking');
+    const watchId = navigator.geolocation.watchPosition(onSuccess, onError, geolocationOptions);
+
+    return () => {
+      console.log('📍 Stopping location tracking');
+      navigator.geolocation.clearWatch(watchId);
+    };
+  }, [isTracking, onSuccess, onError]);
+
+  const pause = useCallback(() => setIsTracking(false), []);
+  const resume = useCallback(() => setIsTracking(true), []);
 
-  return state;
-}; 
\ No newline at end of file
+  return {
+    ...state,
+    isTracking,
+    pause,
+    resume,
+  };
+};
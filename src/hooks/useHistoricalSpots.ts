@@ -1,9 +1,12 @@
 import { useState } from 'react';
 import { fetchHistoricalSpots } from '../services/geoapifyService';
+import { placesService } from '../services/placesService';
 import type { HistoricalSpot } from '../types/HistoricalSpot';
 
 interface UseHistoricalSpotsState {
   spots: HistoricalSpot[];
+  totalFound: number;
+  complete: boolean;
   loading: boolean;
   error: string | null;
   searchSpots: (centerLat: number, centerLng: number, radiusMeters: number) => Promise<void>;
@@ -12,6 +15,8 @@ interface UseHistoricalSpotsState {
 
 export const useHistoricalSpots = (): UseHistoricalSpotsState => {
   const [spots, setSpots] = useState<HistoricalSpot[]>([]);
+  const [totalFound, setTotalFound] = useState(0);
+  const [complete, setComplete] = useState(true);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -20,12 +25,16 @@ export const useHistoricalSpots = (): UseHistoricalSpotsState => {
     setError(null);
 
     try {
-      console.log(`Searching for historical spots at ${centerLat}, ${centerLng} within ${radiusMeters}m radius using Geoapify`);
-      const historicalSpots = await fetchHistoricalSpots(centerLat, centerLng, radiusMeters);
-      setSpots(historicalSpots);
+      console.log(`Searching for historical spots at ${centerLat}, ${centerLng} within ${radiusMeters}m radius using ${placesService.providerName}`);
+      const result = await fetchHistoricalSpots(centerLat, centerLng, radiusMeters);
+      setSpots(result.spots);
+      setTotalFound(result.totalFound);
+      setComplete(result.complete);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch historical spots from Geoapify');
+      setError(err instanceof Error ? err.message : 'Failed to fetch historical spots');
       setSpots([]);
+      setTotalFound(0);
+      setComplete(true);
     } finally {
       setLoading(false);
     }
@@ -33,11 +42,15 @@ export const useHistoricalSpots = (): UseHistoricalSpotsState => {
 
   const clearSpots = () => {
     setSpots([]);
+    setTotalFound(0);
+    setComplete(true);
     setError(null);
   };
 
   return {
     spots,
+    totalFound,
+    complete,
     loading,
     error,
     searchSpots,
@@ -1,17 +1,33 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { TripRoute } from '../services/tripPlanningService';
+import {
+  createTripProgress,
+  isOffRoute,
+  OFF_ROUTE_CONFIRMATIONS,
+  rerouteTrip,
+  updateTripProgress
+} from '../services/tripProgressService';
+import type { TripProgress, TripProgressSnapshot } from '../services/tripProgressService';
 
 const TRIP_STORAGE_KEY = 'histowalk_current_trip';
+// Minimum time between two reroutes, so a walker crossing a square is not rerouted on every fix
+const REROUTE_COOLDOWN_MS = 30000;
 
 export interface CurrentTrip {
   route: TripRoute;
   timestamp: number;
   isActive: boolean;
+  progress?: TripProgress; // missing on trips saved before progress tracking
 }
 
 export const useTrip = () => {
   const [currentTrip, setCurrentTrip] = useState<CurrentTrip | null>(null);
   const [isTripMode, setIsTripMode] = useState(false);
+  const [tripProgress, setTripProgress] = useState<TripProgressSnapshot | null>(null);
+  const [isRerouting, setIsRerouting] = useState(false);
+  const offRouteCountRef = useRef(0);
+  const lastFixRef = useRef<string | null>(null);
+  const lastRerouteRef = useRef(0);
 
   // Load trip from localStorage on mount
   useEffect(() => {
@@ -41,15 +57,111 @@ export const useTrip = () => {
     const newTrip: CurrentTrip = {
       route,
       timestamp: Date.now(),
-      isActive: true
+      isActive: true,
+      progress: createTripProgress()
     };
     setCurrentTrip(newTrip);
     setIsTripMode(true);
+    setTripProgress(null);
+    offRouteCountRef.current = 0;
+  };
+
+  // Swap in another copy of the same trip, e.g. with its library id, keeping the progress
+  const updateRoute = (route: TripRoute) => {
+    setCurrentTrip(prev => prev && { ...prev, route });
   };
 
   const clearTrip = () => {
     setCurrentTrip(null);
     setIsTripMode(false);
+    setTripProgress(null);
+  };
+
+  const reroute = useCallback(async (trip: CurrentTrip, latitude: number, longitude: number) => {
+    setIsRerouting(true);
+    lastRerouteRef.current = Date.now();
+    offRouteCountRef.current = 0;
+
+    try {
+      const progress = trip.progress || createTripProgress();
+      const route = await rerouteTrip(trip.route, progress, latitude, longitude);
+
+      // Keep visited stops from the latest state; only the route and step change
+      setCurrentTrip(prev => {
+        if (!prev || prev.route.id !== trip.route.id) {
+          return prev;
+        }
+        const latestProgress = prev.progress || createTripProgress();
+        return {
+          ...prev,
+          route,
+          progress: { ...latestProgress, currentStepIndex: 0 }
+        };
+      });
+    } catch (error) {
+      console.error('Error rerouting trip:', error);
+    } finally {
+      setIsRerouting(false);
+    }
+  }, []);
+
+  // Feed a new position into the active trip. Stored progress only changes
+  // when a stop is reached or a step is passed, to keep localStorage writes rare.
+  const updatePosition = useCallback((latitude: number, longitude: number, accuracy?: number | null) => {
+    if (!currentTrip || !currentTrip.isActive) {
+      return;
+    }
+
+    const progress = currentTrip.progress || createTripProgress();
+    const snapshot = updateTripProgress(currentTrip.route, progress, latitude, longitude);
+    setTripProgress(snapshot);
+
+    // The effect calling this also re-runs when the trip itself changes, so only
+    // count each GPS fix once
+    const fixKey = `${latitude},${longitude}`;
+    const isNewFix = fixKey !== lastFixRef.current;
+    lastFixRef.current = fixKey;
+
+    if (!isOffRoute(snapshot, accuracy)) {
+      offRouteCountRef.current = 0;
+    } else if (isNewFix) {
+      offRouteCountRef.current++;
+      console.log(`⚠️ Off route by ${snapshot.distanceFromRoute?.toFixed(0)}m (${offRouteCountRef.current}/${OFF_ROUTE_CONFIRMATIONS})`);
+    }
+
+    const changed = snapshot.currentSegmentIndex !== progress.currentSegmentIndex ||
+      snapshot.currentStepIndex !== progress.currentStepIndex ||
+      snapshot.visitedPointIds.length !== progress.visitedPointIds.length;
+
+    const updatedTrip: CurrentTrip = changed
+      ? {
+          ...currentTrip,
+          progress: {
+            currentSegmentIndex: snapshot.currentSegmentIndex,
+            currentStepIndex: snapshot.currentStepIndex,
+            visitedPointIds: snapshot.visitedPointIds
+          }
+        }
+      : currentTrip;
+
+    if (changed) {
+      setCurrentTrip(updatedTrip);
+    }
+
+    if (
+      offRouteCountRef.current >= OFF_ROUTE_CONFIRMATIONS &&
+      !isRerouting &&
+      Date.now() - lastRerouteRef.current > REROUTE_COOLDOWN_MS
+    ) {
+      void reroute(updatedTrip, latitude, longitude);
+    }
+  }, [currentTrip, isRerouting, reroute]);
+
+  const resetProgress = () => {
+    if (currentTrip) {
+      setCurrentTrip({ ...currentTrip, progress: createTripProgress() });
+      setTripProgress(null);
+    }
   };
 
   const toggleTripMode = () => {
@@ -72,7 +184,12 @@ export const useTrip = () => {
     currentTrip,
     isTripMode,
     setTrip,
+    updateRoute,
     clearTrip,
+    tripProgress,
+    isRerouting,
+    updatePosition,
+    resetProgress,
     toggleTripMode,
     hasTrip,
     isTripActive
@@ -0,0 +1,146 @@
+import { useState, useRef } from 'react';
+import type { TripRoute } from '../services/tripPlanningService';
+import type { CandidatePoint } from '../services/tripPlanSchema';
+import type { TravelMode } from '../services/tripRoutingService';
+import { applyTripEdits, routeEditedTrip, type TripEditOperation } from '../services/tripRefinementService';
+
+type Location = { latitude: number; longitude: number };
+
+const createManualTrip = (): TripRoute => ({
+  id: `manual-${Date.now()}`,
+  name: 'My Trip',
+  points: [],
+  totalDuration: 0,
+  totalDistance: 0,
+  description: 'A hand-crafted trip',
+  planner: 'manual',
+  mode: 'walking'
+});
+
+// Draft state for hand-editing a trip. Every change goes through applyTripEdits,
+// the same operations the chat refinement uses, and is then re-routed.
+export const useTripEditor = (startLocation: Location | null) => {
+  const [draft, setDraft] = useState<TripRoute | null>(null);
+  const [isRouting, setIsRouting] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  // Only the latest routing request may update the draft
+  const routeRequestRef = useRef(0);
+
+  const recompute = async (trip: TripRoute) => {
+    if (!startLocation) {
+      return;
+    }
+
+    const requestId = ++routeRequestRef.current;
+    setIsRouting(true);
+
+    try {
+      const routed = await routeEditedTrip(trip, startLocation);
+      if (requestId === routeRequestRef.current) {
+        // Keep a name typed while the route was loading
+        setDraft(prev => (prev ? { ...routed, name: prev.name } : prev));
+      }
+    } catch (error) {
+      console.error('Error routing edited trip:', error);
+    } finally {
+      if (requestId === routeRequestRef.current) {
+        setIsRouting(false);
+      }
+    }
+  };
+
+  const applyEdit = (base: TripRoute, operation: TripEditOperation, candidates: CandidatePoint[] = []) => {
+    const result = applyTripEdits(base, [operation], candidates, startLocation || { latitude: 0, longitude: 0 });
+    setEditError(result.rejected.length > 0 ? result.rejected.map(rejection => rejection.reason).join('; ') : null);
+
+    if (result.applied.length === 0) {
+      return;
+    }
+
+    // A longer or shorter visit does not change the walk, only the total
+    if (operation.type === 'set_visit_duration') {
+      const visitMinutes = (trip: TripRoute) => trip.points.reduce((sum, point) => sum + point.visitDuration, 0);
+      setDraft({ ...result.trip, totalDuration: base.totalDuration + visitMinutes(result.trip) - visitMinutes(base) });
+      return;
+    }
+
+    setDraft(result.trip);
+    void recompute(result.trip);
+  };
+
+  const startEditing = (trip?: TripRoute) => {
+    routeRequestRef.current++;
+    setIsRouting(false);
+    setEditError(null);
+    setDraft(trip ? { ...trip, points: [...trip.points] } : createManualTrip());
+  };
+
+  const cancelEditing = () => {
+    routeRequestRef.current++;
+    setIsRouting(false);
+    setEditError(null);
+    setDraft(null);
+  };
+
+  // Add a stop at the end, starting a new trip if nothing is being edited
+  const addStop = (point: CandidatePoint) => {
+    applyEdit(draft || createManualTrip(), { type: 'add_point', pointId: point.id }, [point]);
+  };
+
+  const removeStop = (pointId: string) => {
+    if (draft) {
+      applyEdit(draft, { type: 'remove_point', pointId });
+    }
+  };
+
+  const moveStop = (fromIndex: number, toIndex: number) => {
+    if (!draft || fromIndex === toIndex || toIndex < 0 || toIndex >= draft.points.length) {
+      return;
+    }
+    const pointIds = draft.points.map(point => point.id);
+    const [moved] = pointIds.splice(fromIndex, 1);
+    pointIds.splice(toIndex, 0, moved);
+    applyEdit(draft, { type: 'reorder', pointIds });
+  };
+
+  const setVisitDuration = (pointId: string, minutes: number) => {
+    if (draft) {
+      applyEdit(draft, { type: 'set_visit_duration', pointId, minutes });
+    }
+  };
+
+  const setTravelMode = (mode: TravelMode) => {
+    if (draft && mode !== (draft.mode || 'walking')) {
+      applyEdit(draft, { type: 'set_travel_mode', mode });
+    }
+  };
+
+  // How to get to one stop; null goes back to the trip's mode
+  const setLegMode = (pointId: string, mode: TravelMode | null) => {
+    if (draft) {
+      applyEdit(draft, { type: 'set_leg_mode', pointId, mode });
+    }
+  };
+
+  const renameTrip = (name: string) => {
+    setDraft(prev => (prev ? { ...prev, name } : prev));
+  };
+
+  const isEditing = draft !== null;
+
+  return {
+    draft,
+    isEditing,
+    isRouting,
+    editError,
+    startEditing,
+    cancelEditing,
+    addStop,
+    removeStop,
+    moveStop,
+    setVisitDuration,
+    setTravelMode,
+    setLegMode,
+    renameTrip
+  };
+};
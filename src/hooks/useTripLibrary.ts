@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import type { TripRoute } from '../services/tripPlanningService';
+import { reverseGeocodeCity } from '../services/geocodingService';
+
+export interface SavedTrip {
+  route: TripRoute;
+  createdAt: number;
+  updatedAt: number;
+  city: string | null; // looked up from the first stop after saving
+}
+
+const TRIP_LIBRARY_STORAGE_KEY = 'histowalk_trip_library';
+
+const loadLibrary = (): SavedTrip[] => {
+  const stored = localStorage.getItem(TRIP_LIBRARY_STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+  try {
+    return JSON.parse(stored);
+  } catch (error) {
+    console.error('Failed to parse stored trip library:', error);
+    return [];
+  }
+};
+
+// Same id and at least one stop in common. Older plans reused ids like
+// "rules-1" for unrelated trips, those must not overwrite each other.
+const isSameTrip = (saved: TripRoute, route: TripRoute): boolean => {
+  return saved.id === route.id && (
+    saved.points.length === 0 || route.points.length === 0 ||
+    route.points.some(point => saved.points.some(savedPoint => savedPoint.id === point.id))
+  );
+};
+
+// Named trips kept across reloads, keyed by the route id
+export const useTripLibrary = () => {
+  const [savedTrips, setSavedTrips] = useState<SavedTrip[]>(loadLibrary);
+
+  // Save the library to localStorage whenever it changes
+  useEffect(() => {
+    localStorage.setItem(TRIP_LIBRARY_STORAGE_KEY, JSON.stringify(savedTrips));
+  }, [savedTrips]);
+
+  const updateSavedTrip = (routeId: string, update: (saved: SavedTrip) => SavedTrip) => {
+    setSavedTrips(prev => prev.map(saved => saved.route.id === routeId ? update(saved) : saved));
+  };
+
+  const lookUpCity = async (route: TripRoute) => {
+    const firstStop = route.points[0];
+    if (!firstStop) {
+      return;
+    }
+    const city = await reverseGeocodeCity(firstStop.latitude, firstStop.longitude);
+    if (city) {
+      updateSavedTrip(route.id, saved => ({ ...saved, city }));
+    }
+  };
+
+  // Add a trip, or replace the stored copy if it is already in the library.
+  // Returns the trip as stored, with a new id when its id belongs to another trip.
+  const saveTrip = (route: TripRoute): TripRoute => {
+    const now = Date.now();
+    const taken = savedTrips.find(saved => saved.route.id === route.id);
+    const existing = taken && isSameTrip(taken.route, route) ? taken : undefined;
+    const stored = taken && !existing ? { ...route, id: `${route.id}-${now}` } : route;
+
+    if (existing) {
+      updateSavedTrip(route.id, saved => ({ ...saved, route, updatedAt: now }));
+    } else {
+      setSavedTrips(prev => [{ route: stored, createdAt: now, updatedAt: now, city: null }, ...prev]);
+      console.log(`💾 Saved trip "${stored.name}" to the library${stored.id !== route.id ? ` as ${stored.id}, ${route.id} was taken` : ''}`);
+    }
+
+    // The city only needs looking up again when the trip starts somewhere else
+    if (!existing?.city || existing.route.points[0]?.id !== route.points[0]?.id) {
+      void lookUpCity(stored);
+    }
+    return stored;
+  };
+
+  const renameTrip = (routeId: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return;
+    }
+    updateSavedTrip(routeId, saved => ({ ...saved, route: { ...saved.route, name: trimmed }, updatedAt: Date.now() }));
+  };
+
+  const duplicateTrip = (routeId: string): TripRoute | null => {
+    const original = savedTrips.find(saved => saved.route.id === routeId);
+    if (!original) {
+      return null;
+    }
+
+    const now = Date.now();
+    const route: TripRoute = { ...original.route, id: `${original.route.id}-copy-${now}`, name: `${original.route.name} (copy)` };
+    setSavedTrips(prev => {
+      const index = prev.findIndex(saved => saved.route.id === routeId);
+      const copy: SavedTrip = { ...original, route, createdAt: now, updatedAt: now };
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+    return route;
+  };
+
+  const deleteTrip = (routeId: string) => {
+    setSavedTrips(prev => prev.filter(saved => saved.route.id !== routeId));
+  };
+
+  const isSaved = (route: TripRoute): boolean => {
+    return savedTrips.some(saved => isSameTrip(saved.route, route));
+  };
+
+  return {
+    savedTrips,
+    saveTrip,
+    renameTrip,
+    duplicateTrip,
+    deleteTrip,
+    isSaved
+  };
+};
@@ -1,13 +1,18 @@
 import type { AccommodationSpot } from '../types/AccommodationSpot';
+import type { SpotSearchResult } from '../types/SpotSearchResult';
 import { 
   calculateDistance
 } from '../utils/mapBounds';
+import { placesService } from './placesService';
+
+// Markers shown on the map; the rest still count towards totalFound
+const MAX_SHOWN_SPOTS = 30;
 
 export const fetchAccommodationSpots = async (
   centerLatitude: number,
   centerLongitude: number,
   radiusMeters: number = 2000
-): Promise<AccommodationSpot[]> => {
+): Promise<SpotSearchResult<AccommodationSpot>> => {
   try {
     // Validate input coordinates
     if (isNaN(centerLatitude) || isNaN(centerLongitude)) {
@@ -24,59 +29,21 @@ export const fetchAccommodationSpots = async (
       radius: `${radiusMeters}m`
     });
 
-    // Geoapify Places API for accommodation places
-    const apiKey = import.meta.env.VITE_GEOAPIFY_API_KEY;
-    if (!apiKey) {
-      throw new Error('Geoapify API key not found. Please set VITE_GEOAPIFY_API_KEY in your .env file');
-    }
-    
-    console.log(`Using Geoapify API key: ${apiKey.substring(0, 8)}...`);
-
-    // Search for hotels, hostels, guesthouses, etc.
-    const categories = [
-      'accommodation'
-    ];
-
-    // Create filter for the bounding box
-    const url = new URL('https://api.geoapify.com/v2/places');
-    url.searchParams.append('categories', categories.join(','));
-    url.searchParams.append('filter', `circle:${centerLongitude},${centerLatitude},${radiusMeters}`);
-    url.searchParams.append('bias', `proximity:${centerLongitude},${centerLatitude}`);
-    url.searchParams.append('limit', '20');
-    url.searchParams.append('apiKey', apiKey);
-
-    console.log(`Geoapify Accommodation API URL: ${url.toString()}`);
-
-    const response = await fetch(url.toString());
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Geoapify API error response:', errorText);
-      throw new Error(`Geoapify API error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    
-    console.log('Geoapify Accommodation response:', data);
-
-    if (!data.features || !Array.isArray(data.features)) {
-      console.warn('No features found in Geoapify response');
-      return [];
-    }
+    // Hotels, hostels, guesthouses, etc. from the configured places provider
+    const { features, complete } = await placesService.searchPlaces({
+      kind: 'accommodation',
+      centerLatitude,
+      centerLongitude,
+      radiusMeters,
+      limit: 20 // per request, full tiles are split further
+    });
 
-    console.log(`Geoapify returned ${data.features.length} accommodation features`);
+    console.log(`${placesService.providerName} returned ${features.length} accommodation features`);
 
     // Process and filter the features
-    const spots: AccommodationSpot[] = data.features
-      .map((feature: any, index: number): AccommodationSpot | null => {
-        // Validate required fields
-        if (!feature.properties?.name || !feature.geometry?.coordinates) {
-          console.warn('Skipping feature with missing required fields:', feature);
-          return null;
-        }
-
-        // Geoapify coordinates are in [lng, lat] format
-        const [lng, lat] = feature.geometry.coordinates;
+    const matchingSpots: AccommodationSpot[] = features
+      .map((feature): AccommodationSpot | null => {
+        const { latitude: lat, longitude: lng } = feature;
         
         if (isNaN(lat) || isNaN(lng)) {
           console.warn(`Invalid coordinates for place "${feature.properties.name}":`, lat, lng);
@@ -91,7 +58,7 @@ export const fetchAccommodationSpots = async (
           return null;
         }
         
-        // Determine category based on Geoapify categories
+        // Determine category from the provider's categories
         const category = determineAccommodationCategory(feature.properties.categories || []);
         
         // Determine accommodation type
@@ -103,29 +70,31 @@ export const fetchAccommodationSpots = async (
         console.log(`✓ Valid accommodation place "${feature.properties.name}" at ${lat.toFixed(6)}, ${lng.toFixed(6)} - Distance: ${distance.toFixed(0)}m`);
         
         return {
-          id: `accommodation-${index}`,
+          id: feature.id,
           name: feature.properties.name,
           description: description,
           latitude: lat,
           longitude: lng,
           category: category,
           accommodationType: accommodationType,
+          openingHours: feature.properties.opening_hours,
           distance: distance
         };
       })
       .filter((spot: AccommodationSpot | null): spot is AccommodationSpot => spot !== null)
-      .sort((a: AccommodationSpot, b: AccommodationSpot) => a.distance - b.distance) // Sort by distance
-      .slice(0, 8); // Limit to 8 best results
+      .sort((a: AccommodationSpot, b: AccommodationSpot) => a.distance - b.distance); // Sort by distance
+
+    const spots = matchingSpots.slice(0, MAX_SHOWN_SPOTS);
 
-    console.log(`Found ${spots.length} valid accommodation places within ${radiusMeters}m radius`);
+    console.log(`Found ${matchingSpots.length} valid accommodation places within ${radiusMeters}m radius, showing ${spots.length}`);
     
     // If no valid spots were found, create a demo spot within bounds for testing
     if (spots.length === 0) {
-      console.log('No valid accommodation places found from Geoapify, creating demo spot within bounds');
+      console.log(`No valid accommodation places found from ${placesService.providerName}, creating demo spot within bounds`);
       const demoSpot: AccommodationSpot = {
         id: 'demo-accommodation-spot',
         name: 'Demo Hotel',
-        description: 'This is a demonstration marker showing that the Geoapify accommodation integration is working. Real hotels and accommodation from Geoapify will appear here when found.',
+        description: `This is a demonstration marker showing that the ${placesService.providerName} accommodation integration is working. Real hotels and accommodation from ${placesService.providerName} will appear here when found.`,
         latitude: centerLatitude + (Math.random() - 0.5) * 0.005,
         longitude: centerLongitude + (Math.random() - 0.5) * 0.005,
         category: 'Hotel',
@@ -135,14 +104,14 @@ export const fetchAccommodationSpots = async (
       spots.push(demoSpot);
     }
     
-    return spots;
+    return { spots, totalFound: matchingSpots.length, complete };
   } catch (error) {
-    console.error('Error fetching accommodation places from Geoapify:', error);
-    throw new Error('Failed to fetch accommodation places. Please check your Geoapify API key and try again.');
+    console.error(`Error fetching accommodation places from ${placesService.providerName}:`, error);
+    throw new Error('Failed to fetch accommodation places. Please check your places provider configuration and try again.');
   }
 };
 
-// Helper function to determine accommodation category from Geoapify categories
+// Helper function to determine accommodation category from provider categories
 const determineAccommodationCategory = (categories: string[]): string => {
   const categoryMappings: { [key: string]: string } = {
     'accommodation.hotel': 'Hotel',
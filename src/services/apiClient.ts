@@ -0,0 +1,110 @@
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionCreateParamsNonStreaming
+} from 'openai/resources/chat/completions';
+
+// All vendor calls go through the server's /api proxy, which holds the API keys.
+// In development Vite forwards /api to `npm run dev:server` (see vite.config.ts).
+const API_BASE_PATH = '/api';
+
+export class ApiProxyError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiProxyError';
+    this.status = status;
+  }
+}
+
+// Build an absolute URL to a proxy route
+export const apiUrl = (path: string): URL => {
+  return new URL(`${API_BASE_PATH}${path}`, window.location.origin);
+};
+
+// Throw an ApiProxyError carrying the upstream status if the response failed
+export const ensureOk = async (response: Response, vendor: string): Promise<Response> => {
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ApiProxyError(`${vendor} API error: ${response.status} ${response.statusText} - ${errorText}`, response.status);
+  }
+  return response;
+};
+
+// OpenAI chat completion through the server proxy
+export const createChatCompletion = async (
+  params: ChatCompletionCreateParamsNonStreaming
+): Promise<ChatCompletion> => {
+  const response = await fetch(apiUrl('/chat/completions'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params)
+  });
+
+  await ensureOk(response, 'OpenAI');
+  return response.json();
+};
+
+// True for the error fetch and streams reject with after an AbortController fires
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  onDelta?: (text: string, delta: string) => void; // called with the text so far and the new piece
+}
+
+// OpenAI chat completion streamed as server-sent events through the proxy.
+// Resolves with the full text; aborting the signal rejects with an AbortError.
+export const streamChatCompletion = async (
+  params: ChatCompletionCreateParamsNonStreaming,
+  { signal, onDelta }: StreamOptions = {}
+): Promise<string> => {
+  const response = await fetch(apiUrl('/chat/completions'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...params, stream: true }),
+    signal
+  });
+
+  await ensureOk(response, 'OpenAI');
+  if (!response.body) {
+    throw new Error('OpenAI stream has no body');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += value;
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const event of events) {
+      const data = event.split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('');
+      if (!data || data === '[DONE]') {
+        continue;
+      }
+
+      const chunk: ChatCompletionChunk = JSON.parse(data);
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onDelta?.(text, delta);
+      }
+    }
+  }
+
+  return text;
+};
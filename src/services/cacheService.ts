@@ -0,0 +1,130 @@
+// Persistent cache in IndexedDB so revisited areas and reopened popups work
+// without a network round trip. Every method resolves (with null/undefined)
+// instead of throwing when IndexedDB is unavailable, e.g. in private browsing.
+
+const DB_NAME = 'histowalk_cache';
+const DB_VERSION = 1;
+
+export type CacheStoreName = 'places' | 'details';
+
+const STORE_NAMES: CacheStoreName[] = ['places', 'details'];
+
+export interface CacheEntry<T> {
+  key: string;
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export const isFresh = <T>(entry: CacheEntry<T>): boolean => entry.expiresAt > Date.now();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export class CacheService {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          console.warn('IndexedDB not available, caching disabled');
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          STORE_NAMES.forEach(storeName => {
+            if (!db.objectStoreNames.contains(storeName)) {
+              db.createObjectStore(storeName, { keyPath: 'key' });
+            }
+          });
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Failed to open IndexedDB cache:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Returns the entry even when expired, so callers can fall back to it offline
+  async get<T>(storeName: CacheStoreName, key: string): Promise<CacheEntry<T> | null> {
+    const db = await this.openDatabase();
+    if (!db) {
+      return null;
+    }
+
+    try {
+      const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+      const entry = await requestToPromise<CacheEntry<T> | undefined>(store.get(key));
+      return entry ?? null;
+    } catch (error) {
+      console.warn(`Cache read failed for ${storeName}/${key}:`, error);
+      return null;
+    }
+  }
+
+  async set<T>(storeName: CacheStoreName, key: string, value: T, ttlMs: number): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) {
+      return;
+    }
+
+    const now = Date.now();
+    const entry: CacheEntry<T> = { key, value, storedAt: now, expiresAt: now + ttlMs };
+
+    try {
+      const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+      await requestToPromise(store.put(entry));
+    } catch (error) {
+      console.warn(`Cache write failed for ${storeName}/${key}:`, error);
+    }
+  }
+
+  // Remove entries that expired more than maxStaleMs ago
+  async prune(storeName: CacheStoreName, maxStaleMs: number): Promise<number> {
+    const db = await this.openDatabase();
+    if (!db) {
+      return 0;
+    }
+
+    try {
+      const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+      const entries = await requestToPromise<CacheEntry<unknown>[]>(store.getAll());
+      const cutoff = Date.now() - maxStaleMs;
+      const expired = entries.filter(entry => entry.expiresAt < cutoff);
+      await Promise.all(expired.map(entry => requestToPromise(store.delete(entry.key))));
+      return expired.length;
+    } catch (error) {
+      console.warn(`Cache prune failed for ${storeName}:`, error);
+      return 0;
+    }
+  }
+
+  async clear(storeName: CacheStoreName): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) {
+      return;
+    }
+
+    try {
+      const store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+      await requestToPromise(store.clear());
+    } catch (error) {
+      console.warn(`Cache clear failed for ${storeName}:`, error);
+    }
+  }
+}
+
+export const cacheService = new CacheService();
@@ -0,0 +1,192 @@
+import { apiUrl, ensureOk } from './apiClient';
+import { calculateDistance } from '../utils/mapBounds';
+import { TRAVEL_SPEEDS, type TravelMode } from './tripRoutingService';
+import { OSRM_PROFILES, OSRM_URL, osrmServesProfile } from './routeService';
+import type { StreetMode } from './routingTypes';
+
+export interface MatrixLocation {
+  id: string;
+  latitude: number;
+  longitude: number;
+}
+
+export type DistanceMatrixProviderName = 'mapbox' | 'osrm' | 'straight-line';
+
+// All-pairs travel times between locations, indexed in the order they were requested
+export interface DistanceMatrix {
+  ids: string[];
+  durations: number[][]; // in minutes
+  distances: number[][]; // in meters
+  provider: DistanceMatrixProviderName;
+  mode: TravelMode;
+}
+
+interface MatrixBlock {
+  durations: Array<Array<number | null>>; // in seconds, null when unreachable
+  distances: Array<Array<number | null>>; // in meters
+}
+
+interface MatrixProvider {
+  name: DistanceMatrixProviderName;
+  maxCoordinates: number; // per request
+  servesMode(mode: StreetMode): boolean;
+  fetchBlock(mode: StreetMode, coordinates: MatrixLocation[], sources: number[], destinations: number[]): Promise<MatrixBlock>;
+}
+
+const OSRM_TABLE_URL = `${OSRM_URL}/table/v1`;
+
+const toCoordinatePath = (locations: MatrixLocation[]): string => {
+  return locations.map(location => `${location.longitude.toFixed(6)},${location.latitude.toFixed(6)}`).join(';');
+};
+
+const parseMatrixResponse = async (response: Response, vendor: string): Promise<MatrixBlock> => {
+  await ensureOk(response, vendor);
+  const data = await response.json();
+
+  if (data.code !== 'Ok' || !data.durations) {
+    throw new Error(`${vendor} matrix error: ${data.code || 'no durations'}`);
+  }
+
+  return {
+    durations: data.durations,
+    distances: data.distances || []
+  };
+};
+
+const mapboxMatrixProvider: MatrixProvider = {
+  name: 'mapbox',
+  maxCoordinates: 25,
+  servesMode: () => true,
+  async fetchBlock(mode, coordinates, sources, destinations) {
+    const url = apiUrl(`/matrix/${mode}/${toCoordinatePath(coordinates)}`);
+    url.searchParams.append('annotations', 'duration,distance');
+    url.searchParams.append('sources', sources.join(';'));
+    url.searchParams.append('destinations', destinations.join(';'));
+
+    return parseMatrixResponse(await fetch(url), 'Mapbox');
+  }
+};
+
+const osrmMatrixProvider: MatrixProvider = {
+  name: 'osrm',
+  maxCoordinates: 100,
+  // Walking and cycling need a self-hosted server, the demo one routes cars
+  servesMode: osrmServesProfile,
+  async fetchBlock(mode, coordinates, sources, destinations) {
+    const url = new URL(`${OSRM_TABLE_URL}/${OSRM_PROFILES[mode]}/${toCoordinatePath(coordinates)}`);
+    url.searchParams.append('annotations', 'duration,distance');
+    url.searchParams.append('sources', sources.join(';'));
+    url.searchParams.append('destinations', destinations.join(';'));
+
+    return parseMatrixResponse(await fetch(url), 'OSRM');
+  }
+};
+
+const straightLineDistance = (from: MatrixLocation, to: MatrixLocation): number => {
+  return calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+export class DistanceMatrixService {
+  private providers: MatrixProvider[];
+
+  constructor() {
+    this.providers = import.meta.env.VITE_ENABLE_MAPBOX === 'true'
+      ? [mapboxMatrixProvider, osrmMatrixProvider]
+      : [osrmMatrixProvider];
+  }
+
+  // Straight-line estimate, used when no provider answers
+  estimateTravelMatrix(locations: MatrixLocation[], mode: TravelMode = 'walking'): DistanceMatrix {
+    const distances = locations.map(from => locations.map(to => straightLineDistance(from, to)));
+
+    return {
+      ids: locations.map(location => location.id),
+      durations: distances.map(row => row.map(distance => distance / TRAVEL_SPEEDS[mode])),
+      distances,
+      provider: 'straight-line',
+      mode
+    };
+  }
+
+  // Travel times between every pair of locations, trying each provider in turn
+  async getTravelMatrix(locations: MatrixLocation[], mode: TravelMode = 'walking'): Promise<DistanceMatrix> {
+    // No matrix provider knows the timetable, transit trips are planned on estimates
+    if (locations.length < 2 || mode === 'transit') {
+      return this.estimateTravelMatrix(locations, mode);
+    }
+
+    for (const provider of this.providers) {
+      if (!provider.servesMode(mode)) continue;
+      try {
+        const matrix = await this.fetchMatrix(provider, locations, mode);
+        console.log(`🧭 ${provider.name} ${mode} matrix for ${locations.length} locations`);
+        return matrix;
+      } catch (error) {
+        console.error(`Error fetching ${provider.name} ${mode} matrix:`, error);
+      }
+    }
+
+    console.warn(`Using straight-line ${mode} times for ${locations.length} locations`);
+    return this.estimateTravelMatrix(locations, mode);
+  }
+
+  // Split large requests into source x destination blocks that fit the
+  // provider's coordinate limit, then stitch the blocks back together
+  private async fetchMatrix(provider: MatrixProvider, locations: MatrixLocation[], mode: StreetMode): Promise<DistanceMatrix> {
+    const indices = locations.map((_, index) => index);
+    const blocks = locations.length <= provider.maxCoordinates
+      ? [indices]
+      : chunk(indices, Math.floor(provider.maxCoordinates / 2));
+
+    const durations: number[][] = locations.map(() => new Array(locations.length).fill(0));
+    const distances: number[][] = locations.map(() => new Array(locations.length).fill(0));
+
+    for (const sourceBlock of blocks) {
+      for (const destinationBlock of blocks) {
+        const blockIndices = sourceBlock === destinationBlock ? sourceBlock : [...sourceBlock, ...destinationBlock];
+        const sources = sourceBlock.map((_, i) => i);
+        const destinations = destinationBlock.map((_, i) => (sourceBlock === destinationBlock ? i : sourceBlock.length + i));
+
+        const block = await provider.fetchBlock(mode, blockIndices.map(index => locations[index]), sources, destinations);
+
+        sourceBlock.forEach((from, row) => {
+          destinationBlock.forEach((to, column) => {
+            const duration = block.durations[row]?.[column];
+            const distance = block.distances[row]?.[column];
+            // Unreachable pairs fall back to the straight-line estimate
+            const fallbackDistance = straightLineDistance(locations[from], locations[to]);
+            durations[from][to] = duration != null ? duration / 60 : fallbackDistance / TRAVEL_SPEEDS[mode];
+            distances[from][to] = distance != null ? distance : fallbackDistance;
+          });
+        });
+      }
+    }
+
+    return {
+      ids: locations.map(location => location.id),
+      durations,
+      distances,
+      provider: provider.name,
+      mode
+    };
+  }
+}
+
+// Sub-matrix of durations for the given ids, or null if any id is missing
+export const selectDurations = (matrix: DistanceMatrix, ids: string[]): number[][] | null => {
+  const indices = ids.map(id => matrix.ids.indexOf(id));
+  if (indices.some(index => index === -1)) {
+    return null;
+  }
+  return indices.map(from => indices.map(to => matrix.durations[from][to]));
+};
+
+export const distanceMatrixService = new DistanceMatrixService();
@@ -1,3 +1,5 @@
+import { apiUrl } from './apiClient';
+
 // ElevenLabs API integration for authentic Megatron voice
 export interface ElevenLabsVoice {
   voice_id: string;
@@ -17,21 +19,14 @@ export interface ElevenLabsResponse {
   voice_id: string;
 }
 
+// Requests go through the server's /api/tts proxy, which adds the xi-api-key header
 export class ElevenLabsService {
-  private apiKey: string;
-  private baseUrl = 'https://api.elevenlabs.io/v1';
-
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-  }
-
   // Get available voices from ElevenLabs
   async getVoices(): Promise<ElevenLabsVoice[]> {
     try {
-      const response = await fetch(`${this.baseUrl}/voices`, {
+      const response = await fetch(apiUrl('/tts/voices'), {
         method: 'GET',
         headers: {
-          'xi-api-key': this.apiKey,
           'Content-Type': 'application/json'
         }
       });
@@ -51,10 +46,9 @@ export class ElevenLabsService {
   // Generate speech using a specific voice
   async generateSpeech(text: string, voiceId: string, modelId: string = 'eleven_monolingual_v1', voiceSettings?: { stability: number; similarity_boost: number; speed: number }): Promise<ElevenLabsResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/text-to-speech/${voiceId}`, {
+      const response = await fetch(apiUrl(`/tts/${encodeURIComponent(voiceId)}`), {
         method: 'POST',
         headers: {
-          'xi-api-key': this.apiKey,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
@@ -249,7 +243,8 @@ ELEVENLABS MEGATRON VOICE SETUP:
    - Test different voices for best Megatron sound
 
 4. Environment Variables:
-   - Add VITE_ELEVENLABS_API_KEY to your .env file
+   - Add ELEVENLABS_API_KEY to the server environment
+   - Set VITE_ENABLE_ELEVENLABS=true in your .env file
    - Add VITE_MEGATRON_VOICE_ID (optional, for cloned voice)
 
 5. Voice Settings for Megatron:
@@ -272,18 +267,12 @@ ELEVENLABS MEGATRON VOICE SETUP:
 
 // Factory function to create ElevenLabs service
 export const createElevenLabsService = (): ElevenLabsService | null => {
-  const apiKey = import.meta.env.VITE_ELEVENLABS_API_KEY;
   const enableElevenLabs = import.meta.env.VITE_ENABLE_ELEVENLABS === 'true';
   
   if (!enableElevenLabs) {
     console.log('ElevenLabs is disabled. Set VITE_ENABLE_ELEVENLABS=true to enable');
     return null;
   }
-  
-  if (!apiKey) {
-    console.warn('ElevenLabs API key not found. Add VITE_ELEVENLABS_API_KEY to your .env file');
-    return null;
-  }
 
-  return new ElevenLabsService(apiKey);
+  return new ElevenLabsService();
 }; 
\ No newline at end of file
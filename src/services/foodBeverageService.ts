@@ -1,13 +1,18 @@
 import type { FoodBeverageSpot } from '../types/FoodBeverageSpot';
+import type { SpotSearchResult } from '../types/SpotSearchResult';
 import { 
   calculateDistance
 } from '../utils/mapBounds';
+import { placesService } from './placesService';
+
+// Markers shown on the map; the rest still count towards totalFound
+const MAX_SHOWN_SPOTS = 30;
 
 export const fetchFoodBeverageSpots = async (
   centerLatitude: number,
   centerLongitude: number,
   radiusMeters: number = 2000
-): Promise<FoodBeverageSpot[]> => {
+): Promise<SpotSearchResult<FoodBeverageSpot>> => {
   try {
     // Validate input coordinates
     if (isNaN(centerLatitude) || isNaN(centerLongitude)) {
@@ -24,60 +29,21 @@ export const fetchFoodBeverageSpots = async (
       radius: `${radiusMeters}m`
     });
 
-    // Geoapify Places API for food and beverage places
-    const apiKey = import.meta.env.VITE_GEOAPIFY_API_KEY;
-    if (!apiKey) {
-      throw new Error('Geoapify API key not found. Please set VITE_GEOAPIFY_API_KEY in your .env file');
-    }
-    
-    console.log(`Using Geoapify API key: ${apiKey.substring(0, 8)}...`);
-
-    // Search for restaurants, cafes, bars, etc.
-    const categories = [
-      'catering',
-      'leisure'
-    ];
-
-    // Create filter for the bounding box
-    const url = new URL('https://api.geoapify.com/v2/places');
-    url.searchParams.append('categories', categories.join(','));
-    url.searchParams.append('filter', `circle:${centerLongitude},${centerLatitude},${radiusMeters}`);
-    url.searchParams.append('bias', `proximity:${centerLongitude},${centerLatitude}`);
-    url.searchParams.append('limit', '20');
-    url.searchParams.append('apiKey', apiKey);
-
-    console.log(`Geoapify Food & Beverage API URL: ${url.toString()}`);
-
-    const response = await fetch(url.toString());
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Geoapify API error response:', errorText);
-      throw new Error(`Geoapify API error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    
-    console.log('Geoapify Food & Beverage response:', data);
-
-    if (!data.features || !Array.isArray(data.features)) {
-      console.warn('No features found in Geoapify response');
-      return [];
-    }
+    // Restaurants, cafes, bars, etc. from the configured places provider
+    const { features, complete } = await placesService.searchPlaces({
+      kind: 'food',
+      centerLatitude,
+      centerLongitude,
+      radiusMeters,
+      limit: 20 // per request, full tiles are split further
+    });
 
-    console.log(`Geoapify returned ${data.features.length} food & beverage features`);
+    console.log(`${placesService.providerName} returned ${features.length} food & beverage features`);
 
     // Process and filter the features
-    const spots: FoodBeverageSpot[] = data.features
-      .map((feature: any, index: number): FoodBeverageSpot | null => {
-        // Validate required fields
-        if (!feature.properties?.name || !feature.geometry?.coordinates) {
-          console.warn('Skipping feature with missing required fields:', feature);
-          return null;
-        }
-
-        // Geoapify coordinates are in [lng, lat] format
-        const [lng, lat] = feature.geometry.coordinates;
+    const matchingSpots: FoodBeverageSpot[] = features
+      .map((feature): FoodBeverageSpot | null => {
+        const { latitude: lat, longitude: lng } = feature;
         
         if (isNaN(lat) || isNaN(lng)) {
           console.warn(`Invalid coordinates for place "${feature.properties.name}":`, lat, lng);
@@ -92,7 +58,7 @@ export const fetchFoodBeverageSpots = async (
           return null;
         }
         
-        // Determine category based on Geoapify categories
+        // Determine category from the provider's categories
         const category = determineFoodCategory(feature.properties.categories || []);
         
         // Determine cuisine type
@@ -104,29 +70,31 @@ export const fetchFoodBeverageSpots = async (
         console.log(`✓ Valid food & beverage place "${feature.properties.name}" at ${lat.toFixed(6)}, ${lng.toFixed(6)} - Distance: ${distance.toFixed(0)}m`);
         
         return {
-          id: `food-${index}`,
+          id: feature.id,
           name: feature.properties.name,
           description: description,
           latitude: lat,
           longitude: lng,
           category: category,
           cuisine: cuisine,
+          openingHours: feature.properties.opening_hours,
           distance: distance
         };
       })
       .filter((spot: FoodBeverageSpot | null): spot is FoodBeverageSpot => spot !== null)
-      .sort((a: FoodBeverageSpot, b: FoodBeverageSpot) => a.distance - b.distance) // Sort by distance
-      .slice(0, 8); // Limit to 8 best results
+      .sort((a: FoodBeverageSpot, b: FoodBeverageSpot) => a.distance - b.distance); // Sort by distance
+
+    const spots = matchingSpots.slice(0, MAX_SHOWN_SPOTS);
 
-    console.log(`Found ${spots.length} valid food & beverage places within ${radiusMeters}m radius`);
+    console.log(`Found ${matchingSpots.length} valid food & beverage places within ${radiusMeters}m radius, showing ${spots.length}`);
     
     // If no valid spots were found, create a demo spot within bounds for testing
     if (spots.length === 0) {
-      console.log('No valid food & beverage places found from Geoapify, creating demo spot within bounds');
+      console.log(`No valid food & beverage places found from ${placesService.providerName}, creating demo spot within bounds`);
       const demoSpot: FoodBeverageSpot = {
         id: 'demo-food-spot',
         name: 'Demo Restaurant',
-        description: 'This is a demonstration marker showing that the Geoapify food & beverage integration is working. Real restaurants and cafes from Geoapify will appear here when found.',
+        description: `This is a demonstration marker showing that the ${placesService.providerName} food & beverage integration is working. Real restaurants and cafes from ${placesService.providerName} will appear here when found.`,
         latitude: centerLatitude + (Math.random() - 0.5) * 0.005,
         longitude: centerLongitude + (Math.random() - 0.5) * 0.005,
         category: 'Restaurant',
@@ -136,14 +104,14 @@ export const fetchFoodBeverageSpots = async (
       spots.push(demoSpot);
     }
     
-    return spots;
+    return { spots, totalFound: matchingSpots.length, complete };
   } catch (error) {
-    console.error('Error fetching food & beverage places from Geoapify:', error);
-    throw new Error('Failed to fetch food & beverage places. Please check your Geoapify API key and try again.');
+    console.error(`Error fetching food & beverage places from ${placesService.providerName}:`, error);
+    throw new Error('Failed to fetch food & beverage places. Please check your places provider configuration and try again.');
   }
 };
 
-// Helper function to determine food category from Geoapify categories
+// Helper function to determine food category from provider categories
 const determineFoodCategory = (categories: string[]): string => {
   const categoryMappings: { [key: string]: string } = {
     'catering.restaurant': 'Restaurant',
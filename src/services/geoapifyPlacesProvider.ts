@@ -0,0 +1,166 @@
+import { apiUrl } from './apiClient';
+import { osmPlaceId, type OsmElementType, type PlaceFeature, type PlaceKind, type PlacesPage, type PlacesProvider, type PlacesSearchRequest } from './placesTypes';
+
+// Geoapify categories requested for each kind of place
+const GEOAPIFY_CATEGORIES: Record<PlaceKind, string[]> = {
+  // Expanded categories for richer results
+  historical: [
+    'tourism',
+    'religion',
+    'heritage',
+    'building.tourism',
+    'entertainment',
+    'tourism.information.map',
+    'tourism.information.ranger_station',
+    'tourism.information',
+    'tourism.attraction.artwork',
+    'tourism.attraction.viewpoint',
+    'tourism.attraction.fountain',
+    'tourism.attraction.clock',
+    'tourism.attraction',
+    'tourism.sights.square',
+    'tourism.sights.place_of_worship.church',
+    'tourism.sights.place_of_worship.chapel',
+    'tourism.sights.place_of_worship.cathedral',
+    'tourism.sights.place_of_worship.mosque',
+    'tourism.sights.place_of_worship.synagogue',
+    'tourism.sights.place_of_worship.temple',
+    'tourism.sights.place_of_worship.shrine',
+    'tourism.sights.place_of_worship',
+    'tourism.sights.monastery',
+    'tourism.sights.city_hall',
+    'tourism.sights.conference_centre',
+    'tourism.sights.lighthouse',
+    'tourism.sights.windmill',
+    'tourism.sights.tower',
+    'tourism.sights.battlefield',
+    'tourism.sights.fort',
+    'tourism.sights.castle',
+    'tourism.sights.ruines',
+    'tourism.sights.archaeological_site',
+    'tourism.sights.city_gate',
+    'tourism.sights.bridge',
+    'tourism.sights.memorial.aircraft',
+    'tourism.sights.memorial.locomotive',
+    'tourism.sights.memorial.railway_car',
+    'tourism.sights.memorial.ship',
+    'tourism.sights.memorial.tank',
+    'tourism.sights.memorial.tomb',
+    'tourism.sights.memorial.monument',
+    'tourism.sights.memorial.wayside_cross',
+    'tourism.sights.memorial.boundary_stone',
+    'tourism.sights.memorial.pillory',
+    'tourism.sights.memorial.milestone',
+    'tourism.sights.memorial',
+    'tourism.sights',
+    'tourism'
+  ],
+  // Restaurants, cafes, bars, etc.
+  food: [
+    'catering',
+    'leisure'
+  ],
+  // Hotels, hostels, guesthouses, etc.
+  accommodation: [
+    'accommodation'
+  ]
+};
+
+interface GeoapifyFeature {
+  properties?: {
+    name?: string;
+    categories?: string[];
+    place_id?: string;
+    datasource?: {
+      sourcename?: string;
+      raw?: {
+        osm_id?: number;
+        osm_type?: string;
+      };
+    };
+    [key: string]: unknown;
+  };
+  geometry?: {
+    coordinates?: [number, number];
+  };
+}
+
+const GEOAPIFY_OSM_TYPES: { [key: string]: OsmElementType } = {
+  'n': 'node',
+  'w': 'way',
+  'r': 'relation'
+};
+
+// Prefer the OpenStreetMap id so favourites survive a provider switch,
+// otherwise fall back to Geoapify's own place_id
+const toPlaceId = (properties: NonNullable<GeoapifyFeature['properties']>, lat: number, lng: number): string => {
+  const raw = properties.datasource?.raw;
+  const osmType = raw?.osm_type ? GEOAPIFY_OSM_TYPES[raw.osm_type] : undefined;
+  if (osmType && raw?.osm_id !== undefined) {
+    return osmPlaceId(osmType, raw.osm_id);
+  }
+  if (properties.place_id) {
+    return `geoapify:${properties.place_id}`;
+  }
+  return `geoapify:${lat.toFixed(6)},${lng.toFixed(6)}`;
+};
+
+export class GeoapifyPlacesProvider implements PlacesProvider {
+  name = 'Geoapify';
+
+  async searchPlaces({ kind, centerLatitude, centerLongitude, radiusMeters, limit }: PlacesSearchRequest): Promise<PlacesPage> {
+    // The server proxy adds the Geoapify API key
+    const url = apiUrl('/places');
+    url.searchParams.append('categories', GEOAPIFY_CATEGORIES[kind].join(','));
+    url.searchParams.append('filter', `circle:${centerLongitude},${centerLatitude},${radiusMeters}`);
+    url.searchParams.append('bias', `proximity:${centerLongitude},${centerLatitude}`);
+    url.searchParams.append('limit', limit.toString());
+
+    console.log(`Geoapify ${kind} API URL: ${url.toString()}`);
+
+    const response = await fetch(url.toString());
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Geoapify API error response:', errorText);
+      throw new Error(`Geoapify API error: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    const data = await response.json();
+
+    console.log(`Geoapify ${kind} response:`, data);
+
+    if (!data.features || !Array.isArray(data.features)) {
+      console.warn('No features found in Geoapify response');
+      return { features: [], hasMore: false };
+    }
+
+    const features = (data.features as GeoapifyFeature[])
+      .map((feature): PlaceFeature | null => {
+        // Validate required fields
+        if (!feature.properties?.name || !feature.geometry?.coordinates) {
+          console.warn('Skipping feature with missing required fields:', feature);
+          return null;
+        }
+
+        // Geoapify coordinates are in [lng, lat] format
+        const [lng, lat] = feature.geometry.coordinates;
+
+        return {
+          id: toPlaceId(feature.properties, lat, lng),
+          latitude: lat,
+          longitude: lng,
+          properties: {
+            ...feature.properties,
+            name: feature.properties.name,
+            categories: feature.properties.categories || []
+          }
+        };
+      })
+      .filter((feature): feature is PlaceFeature => feature !== null);
+
+    return { features, hasMore: data.features.length >= limit };
+  }
+}
+
+export const geoapifyPlacesProvider = new GeoapifyPlacesProvider();
@@ -1,13 +1,18 @@
 import type { HistoricalSpot } from '../types/HistoricalSpot';
+import type { SpotSearchResult } from '../types/SpotSearchResult';
 import { 
   calculateDistance
 } from '../utils/mapBounds';
+import { placesService } from './placesService';
+
+// Markers shown on the map; the rest still count towards totalFound
+const MAX_SHOWN_SPOTS = 100;
 
 export const fetchHistoricalSpots = async (
   centerLatitude: number,
   centerLongitude: number,
   radiusMeters: number = 2000
-): Promise<HistoricalSpot[]> => {
+): Promise<SpotSearchResult<HistoricalSpot>> => {
   try {
     // Validate input coordinates
     if (isNaN(centerLatitude) || isNaN(centerLongitude)) {
@@ -24,107 +29,21 @@ export const fetchHistoricalSpots = async (
       radius: `${radiusMeters}m`
     });
 
-    // Geoapify Places API for historical and tourist attractions
-    const apiKey = import.meta.env.VITE_GEOAPIFY_API_KEY;
-    if (!apiKey) {
-      throw new Error('Geoapify API key not found. Please set VITE_GEOAPIFY_API_KEY in your .env file');
-    }
-    
-    console.log(`Using Geoapify API key: ${apiKey.substring(0, 8)}...`);
-
-    // Expanded categories for richer results
-    const categories = [
-      'tourism',
-      'religion',
-      'heritage',
-      'building.tourism',
-      'entertainment',
-      'tourism.information.map',
-      'tourism.information.ranger_station',
-      'tourism.information',
-      'tourism.attraction.artwork',
-      'tourism.attraction.viewpoint',
-      'tourism.attraction.fountain',
-      'tourism.attraction.clock', 
-      'tourism.attraction',
-      'tourism.sights.square',
-      'tourism.sights.place_of_worship.church',
-      'tourism.sights.place_of_worship.chapel',
-      'tourism.sights.place_of_worship.cathedral',
-      'tourism.sights.place_of_worship.mosque', 
-      'tourism.sights.place_of_worship.synagogue',
-      'tourism.sights.place_of_worship.temple',
-      'tourism.sights.place_of_worship.shrine',
-      'tourism.sights.place_of_worship',
-      'tourism.sights.monastery',
-      'tourism.sights.city_hall',
-      'tourism.sights.conference_centre',
-      'tourism.sights.lighthouse',
-      'tourism.sights.windmill',
-      'tourism.sights.tower',
-      'tourism.sights.battlefield',
-      'tourism.sights.fort',
-      'tourism.sights.castle',
-      'tourism.sights.ruines',
-      'tourism.sights.archaeological_site',
-      'tourism.sights.city_gate',
-      'tourism.sights.bridge',
-      'tourism.sights.memorial.aircraft',
-      'tourism.sights.memorial.locomotive',
-      'tourism.sights.memorial.railway_car',
-      'tourism.sights.memorial.ship',
-      'tourism.sights.memorial.tank',
-      'tourism.sights.memorial.tomb',
-      'tourism.sights.memorial.monument',
-      'tourism.sights.memorial.wayside_cross',
-      'tourism.sights.memorial.boundary_stone',
-      'tourism.sights.memorial.pillory',
-      'tourism.sights.memorial.milestone',
-      'tourism.sights.memorial',
-      'tourism.sights',
-      'tourism'
-    ];
-
-    // Create filter for the bounding box
-    const url = new URL('https://api.geoapify.com/v2/places');
-    url.searchParams.append('categories', categories.join(','));
-    url.searchParams.append('filter', `circle:${centerLongitude},${centerLatitude},${radiusMeters}`);
-    url.searchParams.append('bias', `proximity:${centerLongitude},${centerLatitude}`);
-    url.searchParams.append('limit', '50'); // Increased from 20 to 50
-    url.searchParams.append('apiKey', apiKey);
-
-    console.log(`Geoapify API URL: ${url.toString()}`);
-
-    const response = await fetch(url.toString());
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Geoapify API error response:', errorText);
-      throw new Error(`Geoapify API error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-
-    const data = await response.json();
-    
-    console.log('Geoapify response:', data);
-
-    if (!data.features || !Array.isArray(data.features)) {
-      console.warn('No features found in Geoapify response');
-      return [];
-    }
+    // Historical and tourist attractions from the configured places provider
+    const { features, complete } = await placesService.searchPlaces({
+      kind: 'historical',
+      centerLatitude,
+      centerLongitude,
+      radiusMeters,
+      limit: 50 // per request, full tiles are split further
+    });
 
-    console.log(`Geoapify returned ${data.features.length} features`);
+    console.log(`${placesService.providerName} returned ${features.length} features`);
 
     // Process and filter the features
-    const spots: HistoricalSpot[] = data.features
-      .map((feature: any, index: number): HistoricalSpot | null => {
-        // Validate required fields - Geoapify structure is different
-        if (!feature.properties?.name || !feature.geometry?.coordinates) {
-          console.warn('Skipping feature with missing required fields:', feature);
-          return null;
-        }
-
-        // Geoapify coordinates are in [lng, lat] format
-        const [lng, lat] = feature.geometry.coordinates;
+    const matchingSpots: HistoricalSpot[] = features
+      .map((feature): HistoricalSpot | null => {
+        const { latitude: lat, longitude: lng } = feature;
         
         if (isNaN(lat) || isNaN(lng)) {
           console.warn(`Invalid coordinates for place "${feature.properties.name}":`, lat, lng);
@@ -139,7 +58,7 @@ export const fetchHistoricalSpots = async (
           return null;
         }
         
-        // Determine category based on Geoapify categories
+        // Determine category from the provider's categories
         const category = determineCategory(feature.properties.categories || []);
         
         // Determine period based on available data
@@ -154,7 +73,7 @@ export const fetchHistoricalSpots = async (
         console.log(`✓ Valid place "${feature.properties.name}" at ${lat.toFixed(6)}, ${lng.toFixed(6)} - Distance: ${distance.toFixed(0)}m - Category: ${category}`);
         
         return {
-          id: `geoapify-${index}`,
+          id: feature.id,
           name: feature.properties.name,
           description: description,
           latitude: lat,
@@ -162,40 +81,42 @@ export const fetchHistoricalSpots = async (
           category: category,
           period: period,
           significance: significance,
+          openingHours: feature.properties.opening_hours,
           distance: distance
         };
       })
       .filter((spot: HistoricalSpot | null): spot is HistoricalSpot => spot !== null)
-      .sort((a: HistoricalSpot, b: HistoricalSpot) => a.distance - b.distance) // Sort by distance
-      .slice(0, 50); // Increased from 8 to 25 results
+      .sort((a: HistoricalSpot, b: HistoricalSpot) => a.distance - b.distance); // Sort by distance
+
+    const spots = matchingSpots.slice(0, MAX_SHOWN_SPOTS);
 
-    console.log(`Found ${spots.length} valid places within ${radiusMeters}m radius`);
+    console.log(`Found ${matchingSpots.length} valid places within ${radiusMeters}m radius, showing ${spots.length}`);
     
     // If no valid spots were found, create a demo spot within bounds for testing
     if (spots.length === 0) {
-      console.log('No valid places found from Geoapify, creating demo spot within bounds');
+      console.log(`No valid places found from ${placesService.providerName}, creating demo spot within bounds`);
       const demoSpot: HistoricalSpot = {
         id: 'demo-spot',
         name: 'Demo Location',
-        description: 'This is a demonstration marker showing that the Geoapify integration is working. Real places from Geoapify will appear here when found.',
+        description: `This is a demonstration marker showing that the ${placesService.providerName} integration is working. Real places from ${placesService.providerName} will appear here when found.`,
         latitude: centerLatitude + (Math.random() - 0.5) * 0.005,
         longitude: centerLongitude + (Math.random() - 0.5) * 0.005,
         category: 'Demo',
         period: 'Demo',
-        significance: 'Testing Geoapify Places API integration with verified real-world data.',
+        significance: `Testing ${placesService.providerName} places integration with verified real-world data.`,
         distance: Math.random() * 500
       };
       spots.push(demoSpot);
     }
     
-    return spots;
+    return { spots, totalFound: matchingSpots.length, complete };
   } catch (error) {
-    console.error('Error fetching places from Geoapify:', error);
-    throw new Error('Failed to fetch places. Please check your Geoapify API key and try again.');
+    console.error(`Error fetching places from ${placesService.providerName}:`, error);
+    throw new Error('Failed to fetch places. Please check your places provider configuration and try again.');
   }
 };
 
-// Helper function to determine category from Geoapify categories
+// Helper function to determine category from provider categories
 const determineCategory = (categories: string[]): string => {
   const categoryMappings: { [key: string]: string } = {
     // Tourism and Heritage
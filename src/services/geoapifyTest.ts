@@ -1,16 +1,11 @@
+import { apiUrl } from './apiClient';
+
 // Simple test function to debug Geoapify API issues
 export const testGeoapifyAPI = async (lat: number, lng: number) => {
-  const apiKey = import.meta.env.VITE_GEOAPIFY_API_KEY;
-  
-  if (!apiKey) {
-    console.error('No Geoapify API key found');
-    return;
-  }
-  
-  console.log(`Testing Geoapify API with key: ${apiKey.substring(0, 8)}...`);
+  console.log('Testing Geoapify API through the server proxy...');
   
   // Simple test call - just search for places near a location
-  const url = `https://api.geoapify.com/v2/places?categories=tourism&filter=circle:${lng},${lat},1000&limit=5&apiKey=${apiKey}`;
+  const url = apiUrl(`/places?categories=tourism&filter=circle:${lng},${lat},1000&limit=5`);
   
   console.log('Test URL:', url);
   
@@ -0,0 +1,33 @@
+// Nominatim is keyless, so it is called directly rather than through the proxy
+const NOMINATIM_REVERSE_URL = import.meta.env.VITE_NOMINATIM_URL || 'https://nominatim.openstreetmap.org/reverse';
+
+interface NominatimAddress {
+  city?: string;
+  town?: string;
+  village?: string;
+  municipality?: string;
+  county?: string;
+}
+
+// Name of the city (or town/village) at a position, or null when it cannot be found
+export const reverseGeocodeCity = async (latitude: number, longitude: number): Promise<string | null> => {
+  try {
+    const url = new URL(NOMINATIM_REVERSE_URL);
+    url.searchParams.append('format', 'jsonv2');
+    url.searchParams.append('lat', latitude.toFixed(6));
+    url.searchParams.append('lon', longitude.toFixed(6));
+    url.searchParams.append('zoom', '10'); // city level
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Nominatim error: ${response.status} ${response.statusText}`);
+    }
+
+    const data: { address?: NominatimAddress } = await response.json();
+    const address = data.address || {};
+    return address.city || address.town || address.village || address.municipality || address.county || null;
+  } catch (error) {
+    console.error('Error looking up city name:', error);
+    return null;
+  }
+};
@@ -0,0 +1,221 @@
+// Loads a GTFS feed from static text files (stops.txt, routes.txt, trips.txt,
+// stop_times.txt and calendar.txt / calendar_dates.txt), e.g. an unzipped feed
+// in public/gtfs. Times stay as seconds after the service day's midnight and
+// may run past 24:00:00, as in the feed.
+
+export interface GtfsStop {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface GtfsLine {
+  id: string;
+  shortName: string;
+  longName: string;
+  type: number; // GTFS route_type: 0 tram, 1 metro, 2 rail, 3 bus, ...
+  color?: string; // without '#'
+}
+
+export interface GtfsStopTime {
+  stop: number; // index into GtfsFeed.stops
+  arrival: number; // seconds after midnight
+  departure: number;
+}
+
+export interface GtfsTrip {
+  id: string;
+  lineId: string;
+  serviceId: string;
+  headsign: string;
+  stopTimes: GtfsStopTime[]; // in stop_sequence order
+}
+
+interface GtfsCalendar {
+  serviceId: string;
+  weekdays: boolean[]; // indexed like Date.getDay(), Sunday first
+  start: string; // YYYYMMDD
+  end: string;
+}
+
+export interface GtfsFeed {
+  stops: GtfsStop[];
+  lines: Map<string, GtfsLine>;
+  trips: GtfsTrip[];
+  calendars: GtfsCalendar[];
+  exceptions: Map<string, { added: Set<string>; removed: Set<string> }>; // by YYYYMMDD
+}
+
+export class GtfsFeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GtfsFeedError';
+  }
+}
+
+const DEFAULT_GTFS_URL = '/gtfs';
+const WEEKDAY_COLUMNS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF and a leading BOM
+export const parseCsv = (text: string): Array<Record<string, string>> => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header = [], ...records] = rows.filter(cells => cells.some(cell => cell !== ''));
+  const columns = header.map(column => column.trim());
+  return records.map(cells => Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? '').trim()])));
+};
+
+// "25:10:00" is ten past one the next night, still on the same service day
+export const parseGtfsTime = (time: string): number | null => {
+  const match = time.match(/^(\d+):(\d{2}):(\d{2})$/);
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : null;
+};
+
+export const toServiceDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+};
+
+const fetchTable = async (baseUrl: string, file: string, requiredColumns: string[], optional = false) => {
+  const response = await fetch(`${baseUrl}/${file}`);
+  if (!response.ok) {
+    if (optional) return [];
+    throw new GtfsFeedError(`Could not load ${file}: ${response.status}`);
+  }
+
+  const rows = parseCsv(await response.text());
+  // A missing file may come back as the app's index.html, so check the columns
+  const missing = requiredColumns.filter(column => rows.length > 0 && !(column in rows[0]));
+  if (rows.length === 0 || missing.length > 0) {
+    if (optional) return [];
+    throw new GtfsFeedError(`${file} is not a GTFS table${missing.length > 0 ? ` (missing ${missing.join(', ')})` : ''}`);
+  }
+  return rows;
+};
+
+export const loadGtfsFeed = async (baseUrl: string = import.meta.env.VITE_GTFS_URL || DEFAULT_GTFS_URL): Promise<GtfsFeed> => {
+  const [stopRows, routeRows, tripRows, stopTimeRows, calendarRows, calendarDateRows] = await Promise.all([
+    fetchTable(baseUrl, 'stops.txt', ['stop_id', 'stop_lat', 'stop_lon']),
+    fetchTable(baseUrl, 'routes.txt', ['route_id']),
+    fetchTable(baseUrl, 'trips.txt', ['route_id', 'service_id', 'trip_id']),
+    fetchTable(baseUrl, 'stop_times.txt', ['trip_id', 'stop_id', 'stop_sequence']),
+    fetchTable(baseUrl, 'calendar.txt', ['service_id', 'start_date', 'end_date'], true),
+    fetchTable(baseUrl, 'calendar_dates.txt', ['service_id', 'date', 'exception_type'], true)
+  ]);
+
+  // Stations (location_type 1) and entrances only group the platforms trips stop at
+  const stops: GtfsStop[] = [];
+  const stopIndex = new Map<string, number>();
+  stopRows.forEach(row => {
+    const latitude = Number(row.stop_lat);
+    const longitude = Number(row.stop_lon);
+    if ((row.location_type || '0') !== '0' || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      return;
+    }
+    stopIndex.set(row.stop_id, stops.length);
+    stops.push({ id: row.stop_id, name: row.stop_name || row.stop_id, latitude, longitude });
+  });
+
+  const lines = new Map<string, GtfsLine>(routeRows.map(row => [row.route_id, {
+    id: row.route_id,
+    shortName: row.route_short_name || '',
+    longName: row.route_long_name || '',
+    type: Number(row.route_type) || 3,
+    color: row.route_color || undefined
+  }]));
+
+  const stopTimesByTrip = new Map<string, Array<GtfsStopTime & { sequence: number }>>();
+  stopTimeRows.forEach(row => {
+    const stop = stopIndex.get(row.stop_id);
+    const arrival = parseGtfsTime(row.arrival_time || row.departure_time || '');
+    const departure = parseGtfsTime(row.departure_time || row.arrival_time || '');
+    // Untimed stops between timepoints cannot be boarded by this router
+    if (stop === undefined || arrival === null || departure === null) {
+      return;
+    }
+    const list = stopTimesByTrip.get(row.trip_id) || [];
+    list.push({ stop, arrival, departure, sequence: Number(row.stop_sequence) });
+    stopTimesByTrip.set(row.trip_id, list);
+  });
+
+  const trips: GtfsTrip[] = tripRows
+    .filter(row => (stopTimesByTrip.get(row.trip_id)?.length ?? 0) > 1)
+    .map(row => ({
+      id: row.trip_id,
+      lineId: row.route_id,
+      serviceId: row.service_id,
+      headsign: row.trip_headsign || '',
+      stopTimes: stopTimesByTrip.get(row.trip_id)!
+        .sort((a, b) => a.sequence - b.sequence)
+        .map(({ stop, arrival, departure }) => ({ stop, arrival, departure }))
+    }));
+
+  const calendars: GtfsCalendar[] = calendarRows.map(row => ({
+    serviceId: row.service_id,
+    weekdays: WEEKDAY_COLUMNS.map(column => row[column] === '1'),
+    start: row.start_date,
+    end: row.end_date
+  }));
+
+  const exceptions: GtfsFeed['exceptions'] = new Map();
+  calendarDateRows.forEach(row => {
+    const entry = exceptions.get(row.date) || { added: new Set<string>(), removed: new Set<string>() };
+    (row.exception_type === '1' ? entry.added : entry.removed).add(row.service_id);
+    exceptions.set(row.date, entry);
+  });
+
+  console.log(`🚉 Loaded GTFS feed: ${stops.length} stops, ${lines.size} lines, ${trips.length} trips`);
+  return { stops, lines, trips, calendars, exceptions };
+};
+
+// Services running on a day: the weekly calendar plus calendar_dates additions and removals
+export const activeServiceIds = (feed: GtfsFeed, date: Date): Set<string> => {
+  const serviceDate = toServiceDate(date);
+  const weekday = date.getDay();
+  const active = new Set(
+    feed.calendars
+      .filter(calendar => calendar.weekdays[weekday] && calendar.start <= serviceDate && serviceDate <= calendar.end)
+      .map(calendar => calendar.serviceId)
+  );
+
+  const exception = feed.exceptions.get(serviceDate);
+  exception?.added.forEach(serviceId => active.add(serviceId));
+  exception?.removed.forEach(serviceId => active.delete(serviceId));
+  return active;
+};
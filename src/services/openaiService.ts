@@ -1,38 +1,63 @@
-import OpenAI from 'openai';
+import { ApiProxyError, isAbortError, streamChatCompletion } from './apiClient';
+import { cacheService, isFresh } from './cacheService';
+import { placesService } from './placesService';
 
-const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true // Note: In production, this should be done server-side
-});
+// Generated details rarely change, keep them for a month
+const DETAILS_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
 
 interface LocationDetails {
   funFact: string;
   historicalSignificance: string;
 }
 
+interface LocationDetailsOptions {
+  signal?: AbortSignal; // aborting rejects with an AbortError and caches nothing
+  onUpdate?: (partial: Partial<LocationDetails>) => void; // streamed text as it arrives
+}
+
+const MAX_DETAIL_LENGTH = 200;
+
+// Split the streamed "FUN FACT: ... SIGNIFICANCE: ..." answer into its parts.
+// Works on partial text, so each section can be shown while it is written.
+const parseDetailsText = (text: string): Partial<LocationDetails> => {
+  const funFactMatch = text.match(/FUN FACT:\s*([\s\S]*?)(?=SIGNIFICANCE:|$)/i);
+  const significanceMatch = text.match(/SIGNIFICANCE:\s*([\s\S]*)$/i);
+  return {
+    funFact: funFactMatch?.[1].trim() || undefined,
+    historicalSignificance: significanceMatch?.[1].trim() || undefined
+  };
+};
+
+const truncate = (text: string): string => {
+  return text.length > MAX_DETAIL_LENGTH ? text.substring(0, MAX_DETAIL_LENGTH - 3) + '...' : text;
+};
+
 export const getLocationDetails = async (
   locationName: string,
   latitude: number,
   longitude: number,
-  category: string
+  category: string,
+  placeId?: string,
+  { signal, onUpdate }: LocationDetailsOptions = {}
 ): Promise<LocationDetails> => {
-  try {
-    const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-    if (!apiKey) {
-      return {
-        funFact: 'OpenAI API key not configured for location details.',
-        historicalSignificance: 'API configuration needed to load historical significance.'
-      };
-    }
+  // Demo and fallback spots reuse the same ids, so keep each provider's apart
+  const cacheKey = `${placesService.providerName}:${placeId || `${locationName}@${latitude.toFixed(5)},${longitude.toFixed(5)}`}`;
+  const cached = await cacheService.get<LocationDetails>('details', cacheKey);
 
+  if (cached && isFresh(cached)) {
+    console.log(`📦 Using cached location details for: ${locationName}`);
+    return cached.value;
+  }
+
+  try {
     console.log(`Getting location details for: ${locationName}`);
 
     const prompt = `Provide information about "${locationName}" located at coordinates ${latitude}, ${longitude}. This is a ${category.toLowerCase()} location.
 
-I need exactly 2 pieces of information in JSON format:
+I need exactly 2 pieces of information, each on its own line with its label:
 
-1. "funFact": A fascinating, lesser-known fun fact (200 characters max)
-2. "historicalSignificance": Why this location is historically important (200 characters max)
+FUN FACT: A fascinating, lesser-known fun fact (200 characters max)
+SIGNIFICANCE: Why this location is historically important (200 characters max)
 
 Requirements for both:
 - Exactly 200 characters or less each
@@ -40,20 +65,13 @@ Requirements for both:
 - Focus on history, architecture, culture, or interesting stories
 - Don't mention coordinates in the response
 - Start directly with the content, no introductory phrases
-
-Return ONLY valid JSON in this exact format:
-{
-  "funFact": "Your fascinating fun fact here...",
-  "historicalSignificance": "Why this location matters historically..."
-}
+- Return ONLY the two labelled lines, no other text
 
 Example:
-{
-  "funFact": "The cathedral's bell tower leans 4 degrees due to soft soil. Legend says it was built crooked to confuse invading armies.",
-  "historicalSignificance": "Built in 1247, this cathedral served as a refuge during medieval wars and housed royal coronations for over 300 years."
-}`;
+FUN FACT: The cathedral's bell tower leans 4 degrees due to soft soil. Legend says it was built crooked to confuse invading armies.
+SIGNIFICANCE: Built in 1247, this cathedral served as a refuge during medieval wars and housed royal coronations for over 300 years.`;
 
-    const completion = await openai.chat.completions.create({
+    const response = await streamChatCompletion({
       model: "gpt-3.5-turbo",
       messages: [
         {
@@ -63,51 +81,45 @@ Example:
       ],
       temperature: 0.7,
       max_tokens: 200 // Increased tokens for both fields
+    }, {
+      signal,
+      onDelta: text => onUpdate?.(parseDetailsText(text))
     });
 
-    const response = completion.choices[0]?.message?.content?.trim();
-    
-    if (!response) {
+    const parsed = parseDetailsText(response.trim());
+
+    if (!parsed.funFact && !parsed.historicalSignificance) {
       return {
         funFact: 'An interesting location with its own unique history and stories.',
         historicalSignificance: 'This location holds important historical value worth exploring.'
       };
     }
 
-    try {
-      // Parse JSON response
-      const parsedResponse = JSON.parse(response);
-      
-      let funFact = parsedResponse.funFact || 'This location has fascinating stories to discover.';
-      let historicalSignificance = parsedResponse.historicalSignificance || 'This location holds significant historical importance.';
-      
-      // Ensure character limits
-      if (funFact.length > 200) {
-        funFact = funFact.substring(0, 197) + '...';
-      }
-      if (historicalSignificance.length > 200) {
-        historicalSignificance = historicalSignificance.substring(0, 197) + '...';
-      }
-
-      console.log(`Location details retrieved for ${locationName}:`, { funFact, historicalSignificance });
-      
-      return {
-        funFact,
-        historicalSignificance
-      };
+    const funFact = truncate(parsed.funFact || 'This location has fascinating stories to discover.');
+    const historicalSignificance = truncate(parsed.historicalSignificance || 'This location holds significant historical importance.');
+
+    console.log(`Location details retrieved for ${locationName}:`, { funFact, historicalSignificance });
+    void cacheService.set('details', cacheKey, { funFact, historicalSignificance }, DETAILS_CACHE_TTL_MS);
+
+    return {
+      funFact,
+      historicalSignificance
+    };
 
-    } catch (parseError) {
-      console.error('Failed to parse OpenAI JSON response:', response);
-      
-      // Fallback: try to extract information from non-JSON response
-      const lines = response.split('\n').filter(line => line.trim());
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    if (cached) {
+      console.log(`📦 Using stale cached location details for: ${locationName}`);
+      return cached.value;
+    }
+    if (error instanceof ApiProxyError && error.status === 503) {
       return {
-        funFact: lines[0]?.substring(0, 200) || 'This location has fascinating stories to discover.',
-        historicalSignificance: lines[1]?.substring(0, 200) || 'This location holds significant historical importance.'
+        funFact: 'OpenAI API key not configured for location details.',
+        historicalSignificance: 'API configuration needed to load historical significance.'
       };
     }
-
-  } catch (error) {
     console.error('Error getting location details from OpenAI:', error);
     return {
       funFact: 'This location has many interesting stories worth exploring.',
@@ -0,0 +1,180 @@
+import { osmPlaceId, type OsmElementType, type PlaceFeature, type PlaceKind, type PlacesPage, type PlacesProvider, type PlacesSearchRequest } from './placesTypes';
+
+// Overpass is keyless, so it is called directly rather than through the proxy
+const OVERPASS_URL = import.meta.env.VITE_OVERPASS_URL || 'https://overpass-api.de/api/interpreter';
+
+// OpenStreetMap tag filters for each kind of place
+const OVERPASS_FILTERS: Record<PlaceKind, string[]> = {
+  historical: [
+    '["historic"]',
+    '["tourism"~"^(museum|attraction|artwork|viewpoint|gallery)$"]',
+    '["amenity"="place_of_worship"]["name"]'
+  ],
+  food: [
+    '["amenity"~"^(restaurant|cafe|bar|fast_food|pub|ice_cream|biergarten)$"]',
+    '["shop"~"^(bakery|pastry)$"]'
+  ],
+  accommodation: [
+    '["tourism"~"^(hotel|hostel|guest_house|motel|camp_site|caravan_site|alpine_hut|chalet|apartment)$"]'
+  ]
+};
+
+interface OverpassElement {
+  type: OsmElementType;
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+}
+
+// OSM tag values that differ from the Geoapify category names
+const OSM_TOURISM_TO_ACCOMMODATION: { [key: string]: string } = {
+  'camp_site': 'camping',
+  'caravan_site': 'caravan_site',
+  'apartment': 'apartment'
+};
+
+const OSM_HISTORIC_TO_CATEGORIES: { [key: string]: string[] } = {
+  'castle': ['heritage.castle', 'tourism.sights.castle'],
+  'fort': ['tourism.sights.fort'],
+  'monument': ['heritage.monument', 'tourism.sights.memorial.monument'],
+  'memorial': ['tourism.sights.memorial'],
+  'archaeological_site': ['heritage.archaeological_site', 'tourism.sights.archaeological_site'],
+  'ruins': ['tourism.sights.ruines'],
+  'city_gate': ['tourism.sights.city_gate'],
+  'battlefield': ['tourism.sights.battlefield'],
+  'tomb': ['tourism.sights.memorial.tomb'],
+  'wayside_cross': ['tourism.sights.memorial.wayside_cross'],
+  'boundary_stone': ['tourism.sights.memorial.boundary_stone'],
+  'milestone': ['tourism.sights.memorial.milestone']
+};
+
+// Translate OSM tags into Geoapify-style categories so the spot services can
+// keep a single category mapping
+const toCategories = (tags: Record<string, string>): string[] => {
+  const categories: string[] = [];
+
+  if (tags.historic) {
+    categories.push(...(OSM_HISTORIC_TO_CATEGORIES[tags.historic] || ['historic', 'heritage']));
+  }
+
+  switch (tags.tourism) {
+    case 'museum':
+      categories.push('entertainment.museum', 'tourism');
+      break;
+    case 'attraction':
+      categories.push('tourism.attraction');
+      break;
+    case 'artwork':
+    case 'viewpoint':
+      categories.push(`tourism.attraction.${tags.tourism}`);
+      break;
+    case 'gallery':
+      categories.push('entertainment.culture.gallery', 'tourism');
+      break;
+    case 'hotel':
+    case 'hostel':
+    case 'guest_house':
+    case 'motel':
+    case 'camp_site':
+    case 'caravan_site':
+    case 'alpine_hut':
+    case 'chalet':
+    case 'apartment':
+      categories.push(`accommodation.${OSM_TOURISM_TO_ACCOMMODATION[tags.tourism] || tags.tourism}`);
+      break;
+  }
+
+  if (tags.amenity === 'place_of_worship') {
+    categories.push('religion.place_of_worship');
+    if (tags.building) {
+      categories.push(`tourism.sights.place_of_worship.${tags.building}`);
+    }
+  } else if (tags.amenity) {
+    categories.push(`catering.${tags.amenity}`);
+  }
+
+  if (tags.shop === 'bakery' || tags.shop === 'pastry') {
+    categories.push('catering.bakery');
+  }
+
+  return categories;
+};
+
+const toAddress = (tags: Record<string, string>): { address_line1?: string; formatted?: string } => {
+  const street = [tags['addr:street'], tags['addr:housenumber']].filter(Boolean).join(' ');
+  if (!street) {
+    return {};
+  }
+  const city = [tags['addr:postcode'], tags['addr:city']].filter(Boolean).join(' ');
+  return {
+    address_line1: street,
+    formatted: city ? `${street}, ${city}` : street
+  };
+};
+
+export class OverpassPlacesProvider implements PlacesProvider {
+  name = 'OpenStreetMap';
+
+  async searchPlaces({ kind, centerLatitude, centerLongitude, radiusMeters, limit }: PlacesSearchRequest): Promise<PlacesPage> {
+    const around = `(around:${radiusMeters},${centerLatitude},${centerLongitude})`;
+    const query = `[out:json][timeout:25];(${OVERPASS_FILTERS[kind]
+      .map(filter => `nwr${filter}${around};`)
+      .join('')});out center tags ${limit};`;
+
+    console.log(`Overpass ${kind} query: ${query}`);
+
+    const response = await fetch(OVERPASS_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: `data=${encodeURIComponent(query)}`
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Overpass API error response:', errorText);
+      throw new Error(`Overpass API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.elements || !Array.isArray(data.elements)) {
+      console.warn('No elements found in Overpass response');
+      return { features: [], hasMore: false };
+    }
+
+    const features = (data.elements as OverpassElement[])
+      .map((element): PlaceFeature | null => {
+        const tags = element.tags || {};
+        // Ways and relations carry their position in `center`
+        const lat = element.lat ?? element.center?.lat;
+        const lng = element.lon ?? element.center?.lon;
+
+        if (!tags.name || lat === undefined || lng === undefined) {
+          return null;
+        }
+
+        return {
+          id: osmPlaceId(element.type, element.id),
+          latitude: lat,
+          longitude: lng,
+          properties: {
+            name: tags.name,
+            categories: toCategories(tags),
+            description: tags.description,
+            opening_hours: tags.opening_hours,
+            ...toAddress(tags),
+            osm_type: element.type,
+            osm_id: element.id,
+            tags
+          }
+        };
+      })
+      .filter((feature): feature is PlaceFeature => feature !== null);
+
+    return { features, hasMore: data.elements.length >= limit };
+  }
+}
+
+export const overpassPlacesProvider = new OverpassPlacesProvider();
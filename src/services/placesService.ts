@@ -0,0 +1,145 @@
+import { geoapifyPlacesProvider } from './geoapifyPlacesProvider';
+import { overpassPlacesProvider } from './overpassPlacesProvider';
+import { cacheService, isFresh } from './cacheService';
+import type { PlaceFeature, PlacesProvider, PlacesSearchRequest } from './placesTypes';
+
+export interface PlacesSearchResult {
+  features: PlaceFeature[];
+  // False when some tile was still full at the smallest tile size
+  complete: boolean;
+  requests: number;
+}
+
+export type PlacesProviderName = 'geoapify' | 'overpass';
+
+const providers: Record<PlacesProviderName, PlacesProvider> = {
+  geoapify: geoapifyPlacesProvider,
+  overpass: overpassPlacesProvider
+};
+
+// Area searches are reused for a day; older results are still served when offline
+const PLACES_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const PLACES_CACHE_MAX_STALE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Full tiles are split into four quadrant tiles, at most this many times
+const MAX_TILE_DEPTH = 2;
+const MIN_TILE_RADIUS_METERS = 250;
+// Tiles requested in parallel, kept low for the public Overpass instance
+const TILE_CONCURRENCY = 4;
+
+// Cover the circle's bounding square with four squares and return the circles
+// around them (offset r/2, radius r/√2)
+const splitTile = (tile: PlacesSearchRequest): PlacesSearchRequest[] => {
+  const offsetMeters = tile.radiusMeters / 2;
+  const latOffset = offsetMeters / 111320;
+  const lngOffset = offsetMeters / (111320 * Math.cos(tile.centerLatitude * Math.PI / 180));
+  const radiusMeters = Math.ceil(tile.radiusMeters / Math.SQRT2);
+
+  return [[1, 1], [1, -1], [-1, 1], [-1, -1]].map(([latSign, lngSign]) => ({
+    ...tile,
+    centerLatitude: tile.centerLatitude + latSign * latOffset,
+    centerLongitude: tile.centerLongitude + lngSign * lngOffset,
+    radiusMeters
+  }));
+};
+
+export class PlacesService {
+  private placesProvider: PlacesProviderName;
+
+  constructor() {
+    if (import.meta.env.VITE_PLACES_PROVIDER === 'overpass') {
+      this.placesProvider = 'overpass';
+    } else {
+      this.placesProvider = 'geoapify';
+    }
+    console.log(`Using ${this.placesProvider.toUpperCase()} for places`);
+    void cacheService.prune('places', PLACES_CACHE_MAX_STALE_MS);
+  }
+
+  // Centres are rounded to ~10m so small GPS jitter still hits the same area
+  private cacheKey({ kind, centerLatitude, centerLongitude, radiusMeters, limit }: PlacesSearchRequest): string {
+    return `${this.placesProvider}:${kind}:${centerLatitude.toFixed(4)},${centerLongitude.toFixed(4)}:${radiusMeters}:${limit}`;
+  }
+
+  get providerName(): string {
+    return providers[this.placesProvider].name;
+  }
+
+  // Serve the area from the cache when fresh, otherwise search it and fall back
+  // to a stale cached result if the network fails
+  async searchPlaces(request: PlacesSearchRequest): Promise<PlacesSearchResult> {
+    const key = this.cacheKey(request);
+    const cached = await cacheService.get<PlacesSearchResult>('places', key);
+
+    if (cached && isFresh(cached)) {
+      console.log(`📦 Using cached ${request.kind} places for ${key}`);
+      return cached.value;
+    }
+
+    try {
+      const result = await this.searchTiles(request);
+      void cacheService.set('places', key, result, PLACES_CACHE_TTL_MS);
+      return result;
+    } catch (error) {
+      if (cached) {
+        console.warn(`Places search failed, using stale cached ${request.kind} places from ${new Date(cached.storedAt).toLocaleString()}`, error);
+        return cached.value;
+      }
+      throw error;
+    }
+  }
+
+  // Search the whole radius first and split any tile that comes back full,
+  // merging the pages and dropping places found by more than one tile
+  private async searchTiles(request: PlacesSearchRequest): Promise<PlacesSearchResult> {
+    const provider = providers[this.placesProvider];
+    const found = new Map<string, PlaceFeature>();
+    let tiles = [request];
+    let requests = 0;
+    let complete = true;
+
+    for (let depth = 0; tiles.length > 0; depth++) {
+      const fullTiles: PlacesSearchRequest[] = [];
+
+      for (let i = 0; i < tiles.length; i += TILE_CONCURRENCY) {
+        const batch = tiles.slice(i, i + TILE_CONCURRENCY);
+        const pages = await Promise.all(batch.map(tile => provider.searchPlaces(tile)));
+        requests += batch.length;
+
+        pages.forEach((page, index) => {
+          page.features.forEach(feature => {
+            if (!found.has(feature.id)) {
+              found.set(feature.id, feature);
+            }
+          });
+          if (page.hasMore) {
+            fullTiles.push(batch[index]);
+          }
+        });
+      }
+
+      if (fullTiles.length === 0) {
+        break;
+      }
+
+      if (depth >= MAX_TILE_DEPTH || fullTiles[0].radiusMeters / Math.SQRT2 < MIN_TILE_RADIUS_METERS) {
+        console.warn(`${provider.name} ${request.kind} search stopped with ${fullTiles.length} full tile(s), results may be incomplete`);
+        complete = false;
+        break;
+      }
+
+      console.log(`Splitting ${fullTiles.length} full ${request.kind} tile(s) into ${fullTiles.length * 4}`);
+      tiles = fullTiles.flatMap(splitTile);
+    }
+
+    console.log(`${provider.name} ${request.kind} search: ${found.size} unique places from ${requests} request(s)`);
+
+    return {
+      features: Array.from(found.values()),
+      complete,
+      requests
+    };
+  }
+}
+
+export const placesService = new PlacesService();
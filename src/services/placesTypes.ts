@@ -0,0 +1,53 @@
+// Shared by placesService and the place providers, kept apart so the
+// providers do not import the service that imports them.
+
+export type PlaceKind = 'historical' | 'food' | 'accommodation';
+
+// Provider-neutral place properties. Categories use Geoapify-style dotted keys
+// (e.g. 'catering.cafe', 'heritage.castle') so the spot services can map them
+// the same way regardless of which provider returned the place.
+export interface PlaceProperties {
+  name: string;
+  categories: string[];
+  description?: string;
+  formatted?: string;
+  address_line1?: string;
+  opening_hours?: string; // OpenStreetMap opening_hours syntax
+  [key: string]: unknown;
+}
+
+export interface PlaceFeature {
+  // Stable across searches and providers, see osmPlaceId
+  id: string;
+  latitude: number;
+  longitude: number;
+  properties: PlaceProperties;
+}
+
+export type OsmElementType = 'node' | 'way' | 'relation';
+
+// OpenStreetMap ids are shared by Geoapify and Overpass, so a place keeps the
+// same id whichever provider found it
+export const osmPlaceId = (osmType: OsmElementType, osmId: number | string): string => {
+  return `osm:${osmType}/${osmId}`;
+};
+
+export interface PlacesSearchRequest {
+  kind: PlaceKind;
+  centerLatitude: number;
+  centerLongitude: number;
+  radiusMeters: number;
+  limit: number;
+}
+
+// One provider response. `hasMore` is set when the provider returned a full
+// page, i.e. the area probably holds more places than `limit`.
+export interface PlacesPage {
+  features: PlaceFeature[];
+  hasMore: boolean;
+}
+
+export interface PlacesProvider {
+  name: string;
+  searchPlaces(request: PlacesSearchRequest): Promise<PlacesPage>;
+}
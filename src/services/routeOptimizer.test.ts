@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { optimizeStopOrder, routeCost } from './routeOptimizer';
+
+// Locations on a line: the cost between two is the distance along it
+const lineMatrix = (positions: number[]): number[][] =>
+  positions.map(from => positions.map(to => Math.abs(from - to)));
+
+// Every order of the stops, to check the optimiser against brute force
+const permutations = (items: number[]): number[][] =>
+  items.length <= 1
+    ? [items]
+    : items.flatMap((item, index) =>
+      permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest]));
+
+// Deterministic pseudo-random points in a 10 × 10 square
+const gridMatrix = (count: number, seed: number): number[][] => {
+  let state = seed;
+  const next = () => (state = (state * 16807) % 2147483647) / 2147483647;
+  const points = Array.from({ length: count }, () => [next() * 10, next() * 10]);
+  return points.map(([x1, y1]) => points.map(([x2, y2]) => Math.hypot(x1 - x2, y1 - y2)));
+};
+
+describe('routeCost', () => {
+  it('adds up the legs from the start through the stops', () => {
+    const matrix = lineMatrix([0, 1, 3, 6]);
+    expect(routeCost(matrix, [1, 2, 3], { startIndex: 0 })).toBe(6);
+    expect(routeCost(matrix, [3, 1, 2], { startIndex: 0 })).toBe(13);
+  });
+
+  it('includes the leg to the end for round trips', () => {
+    const matrix = lineMatrix([0, 1, 3, 6]);
+    expect(routeCost(matrix, [1, 2, 3], { startIndex: 0, endIndex: 0 })).toBe(12);
+  });
+});
+
+describe('optimizeStopOrder', () => {
+  it('visits stops on a line in order from a fixed start', () => {
+    const matrix = lineMatrix([0, 5, 1, 3, 2, 4]);
+    expect(optimizeStopOrder(matrix, [1, 2, 3, 4, 5], { startIndex: 0 })).toEqual([2, 4, 3, 5, 1]);
+  });
+
+  it('matches brute force for an open path', () => {
+    const matrix = gridMatrix(8, 7);
+    const stops = [1, 2, 3, 4, 5, 6, 7];
+    const options = { startIndex: 0 };
+    const best = Math.min(...permutations(stops).map(order => routeCost(matrix, order, options)));
+    expect(routeCost(matrix, optimizeStopOrder(matrix, stops, options), options)).toBeCloseTo(best, 9);
+  });
+
+  it('keeps the fixed first and last stops in place', () => {
+    const matrix = gridMatrix(8, 11);
+    const order = optimizeStopOrder(matrix, [1, 2, 3, 4, 5, 6], { startIndex: 0, firstStopIndex: 3, lastStopIndex: 5 });
+    expect(order[0]).toBe(3);
+    expect(order[order.length - 1]).toBe(5);
+    expect([...order].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('plans round trips back to endIndex', () => {
+    const matrix = gridMatrix(9, 23);
+    const stops = [1, 2, 3, 4, 5, 6, 7];
+    const options = { startIndex: 0, endIndex: 8 };
+    const best = Math.min(...permutations(stops).map(order => routeCost(matrix, order, options)));
+    const order = optimizeStopOrder(matrix, stops, options);
+    expect(order).not.toContain(8);
+    expect(routeCost(matrix, order, options)).toBeCloseTo(best, 9);
+  });
+
+  it('uses 2-opt above the exact search limit', () => {
+    // 15 stops on a line, shuffled: the heuristic still has to find the straight walk
+    const positions = [0, 9, 3, 14, 1, 7, 12, 5, 15, 2, 10, 6, 13, 4, 11, 8];
+    const matrix = lineMatrix(positions);
+    const stops = positions.map((_, index) => index).slice(1);
+    const order = optimizeStopOrder(matrix, stops, { startIndex: 0 });
+
+    expect(order.map(index => positions[index])).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]);
+    expect(routeCost(matrix, order, { startIndex: 0 })).toBe(15);
+  });
+
+  it('returns the fixed stops alone when there is nothing to order', () => {
+    const matrix = lineMatrix([0, 1, 2]);
+    expect(optimizeStopOrder(matrix, [1, 2], { startIndex: 0, firstStopIndex: 2, lastStopIndex: 1 })).toEqual([2, 1]);
+  });
+});
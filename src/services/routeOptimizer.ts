@@ -0,0 +1,144 @@
+// Deterministic stop ordering for trips. Works on a plain travel-time matrix,
+// so it has no network dependency: matrix[i][j] is the cost of going from
+// location i to location j (any unit, as long as it is consistent).
+
+export interface RouteOptimizationOptions {
+  startIndex: number; // where the walk starts, usually the user's location
+  endIndex?: number; // where the walk must end (round trip or home); open path when omitted
+  firstStopIndex?: number; // stop that has to be visited first
+  lastStopIndex?: number; // stop that has to be visited last
+}
+
+// Exact search is exponential, above this many free stops use the heuristic
+const MAX_EXACT_STOPS = 12;
+
+const pathCost = (matrix: number[][], path: number[]): number => {
+  let cost = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    cost += matrix[path[i]][path[i + 1]];
+  }
+  return cost;
+};
+
+// Held-Karp dynamic programming over subsets: shortest path from `start`
+// through every stop, optionally finishing at `end`
+const solveExact = (matrix: number[][], start: number, stops: number[], end?: number): number[] => {
+  const n = stops.length;
+  const fullMask = (1 << n) - 1;
+  const cost: number[][] = Array.from({ length: 1 << n }, () => new Array(n).fill(Infinity));
+  const parent: number[][] = Array.from({ length: 1 << n }, () => new Array(n).fill(-1));
+
+  for (let i = 0; i < n; i++) {
+    cost[1 << i][i] = matrix[start][stops[i]];
+  }
+
+  for (let mask = 1; mask <= fullMask; mask++) {
+    for (let last = 0; last < n; last++) {
+      if (!(mask & (1 << last)) || cost[mask][last] === Infinity) {
+        continue;
+      }
+      for (let next = 0; next < n; next++) {
+        if (mask & (1 << next)) {
+          continue;
+        }
+        const nextMask = mask | (1 << next);
+        const candidate = cost[mask][last] + matrix[stops[last]][stops[next]];
+        if (candidate < cost[nextMask][next]) {
+          cost[nextMask][next] = candidate;
+          parent[nextMask][next] = last;
+        }
+      }
+    }
+  }
+
+  let bestLast = 0;
+  let bestCost = Infinity;
+  for (let last = 0; last < n; last++) {
+    const total = cost[fullMask][last] + (end !== undefined ? matrix[stops[last]][end] : 0);
+    if (total < bestCost) {
+      bestCost = total;
+      bestLast = last;
+    }
+  }
+
+  const order: number[] = [];
+  let mask = fullMask;
+  let current = bestLast;
+  while (current !== -1) {
+    order.unshift(stops[current]);
+    const previous = parent[mask][current];
+    mask &= ~(1 << current);
+    current = previous;
+  }
+  return order;
+};
+
+// Nearest neighbour followed by 2-opt improvement
+const solveHeuristic = (matrix: number[][], start: number, stops: number[], end?: number): number[] => {
+  const remaining = [...stops];
+  const order: number[] = [];
+  let current = start;
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (matrix[current][remaining[i]] < matrix[current][remaining[bestIndex]]) {
+        bestIndex = i;
+      }
+    }
+    current = remaining.splice(bestIndex, 1)[0];
+    order.push(current);
+  }
+
+  const withEnds = (candidate: number[]) => end !== undefined ? [start, ...candidate, end] : [start, ...candidate];
+  let bestCost = pathCost(matrix, withEnds(order));
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        const candidateCost = pathCost(matrix, withEnds(candidate));
+        if (candidateCost < bestCost - 1e-9) {
+          order.splice(0, order.length, ...candidate);
+          bestCost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+};
+
+// Return the stops in the order that minimises total travel cost
+export const optimizeStopOrder = (
+  matrix: number[][],
+  stopIndices: number[],
+  options: RouteOptimizationOptions
+): number[] => {
+  const { startIndex, endIndex, firstStopIndex, lastStopIndex } = options;
+  const freeStops = stopIndices.filter(index => index !== firstStopIndex && index !== lastStopIndex);
+
+  // Fixed stops become the effective start and end of the free part
+  const pathStart = firstStopIndex ?? startIndex;
+  const pathEnd = lastStopIndex ?? endIndex;
+
+  const freeOrder = freeStops.length === 0
+    ? []
+    : freeStops.length <= MAX_EXACT_STOPS
+      ? solveExact(matrix, pathStart, freeStops, pathEnd)
+      : solveHeuristic(matrix, pathStart, freeStops, pathEnd);
+
+  return [
+    ...(firstStopIndex !== undefined ? [firstStopIndex] : []),
+    ...freeOrder,
+    ...(lastStopIndex !== undefined ? [lastStopIndex] : [])
+  ];
+};
+
+export const routeCost = (matrix: number[][], order: number[], options: RouteOptimizationOptions): number => {
+  const path = [options.startIndex, ...order, ...(options.endIndex !== undefined ? [options.endIndex] : [])];
+  return pathCost(matrix, path);
+};
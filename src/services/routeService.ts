@@ -1,169 +1,141 @@
-export interface RoutePoint {
-  lat: number;
-  lng: number;
-}
-
-export interface RouteStep {
-  distance: number;
-  duration: number;
-  instruction: string;
-  maneuver: {
-    type: string;
-    location: [number, number];
+import { decodePolyline, type Route, type RoutePoint, type RouteStep, type RoutingProvider, type StreetMode } from './routingTypes';
+
+// The public demo server by default, which is rate limited and routes cars
+// only; VITE_OSRM_URL points at a self-hosted osrm-routed instead
+export const OSRM_URL = (import.meta.env.VITE_OSRM_URL || 'https://router.project-osrm.org').replace(/\/+$/, '');
+
+// The demo server answers every profile with car routes, so walking and
+// cycling are only asked of a self-hosted server
+export const OSRM_SELF_HOSTED = Boolean(import.meta.env.VITE_OSRM_URL);
+
+export const osrmServesProfile = (profile: StreetMode): boolean => OSRM_SELF_HOSTED || profile === 'driving';
+
+const DEFAULT_OSRM_PROFILES: Record<StreetMode, string> = {
+  walking: 'foot',
+  cycling: 'bike',
+  driving: 'driving'
+};
+
+// VITE_OSRM_PROFILES renames the profiles a server serves, e.g. "walking=foot,cycling=bicycle,driving=car"
+const parseOsrmProfiles = (value?: string): Record<StreetMode, string> => {
+  const profiles = { ...DEFAULT_OSRM_PROFILES };
+  for (const entry of (value || '').split(',')) {
+    if (!entry.trim()) continue;
+    const [mode, name] = entry.split('=').map(part => part.trim());
+    if (Object.keys(DEFAULT_OSRM_PROFILES).includes(mode) && name) {
+      profiles[mode as StreetMode] = name;
+    } else {
+      console.warn(`⚠️ Ignoring OSRM profile "${entry}", expected mode=profile with mode walking, cycling or driving`);
+    }
+  }
+  return profiles;
+};
+
+// Shared with the distance matrix, which asks the same server for its table
+export const OSRM_PROFILES = parseOsrmProfiles(import.meta.env.VITE_OSRM_PROFILES);
+
+interface OsrmStep {
+  name?: string;
+  distance?: number; // metres
+  duration?: number; // seconds
+  maneuver?: {
+    type?: string;
+    modifier?: string;
+    exit?: number; // roundabouts only
+    location?: [number, number]; // [lng, lat]
   };
 }
 
-export interface Route {
-  distance: number;
-  duration: number;
-  steps: RouteStep[];
-  geometry: [number, number][];
-  profile: 'driving' | 'walking' | 'cycling';
-}
+// OSRM steps carry no text, so describe the maneuver, e.g. "Turn left onto Unter den Linden"
+const describeOsrmStep = (step: OsrmStep): string => {
+  const type: string = step.maneuver?.type || 'continue';
+  const modifier: string | undefined = step.maneuver?.modifier;
+  const road = step.name ? ` onto ${step.name}` : '';
+
+  switch (type) {
+    case 'depart':
+      return `Head ${step.name ? `along ${step.name}` : 'off'}`;
+    case 'arrive':
+      return 'You have arrived at your destination';
+    case 'roundabout':
+    case 'rotary':
+      return `Take the roundabout${step.maneuver?.exit ? `, exit ${step.maneuver.exit}` : ''}${road}`;
+    case 'turn':
+    case 'end of road':
+    case 'fork':
+      return modifier ? `Turn ${modifier}${road}` : `Continue${road}`;
+    default:
+      return modifier && modifier !== 'straight' ? `Keep ${modifier}${road}` : `Continue${road}`;
+  }
+};
 
-// Polyline decoder function
-function decodePolyline(encoded: string): [number, number][] {
-  const poly: [number, number][] = [];
-  let index = 0, len = encoded.length;
-  let lat = 0, lng = 0;
+export class RouteService implements RoutingProvider {
+  name = 'OSRM';
+  private baseUrl = `${OSRM_URL}/route/v1`;
 
-  while (index < len) {
-    let shift = 0, result = 0;
+  // OSRM needs no key
+  isAvailable(): boolean {
+    return true;
+  }
 
-    do {
-      let b = encoded.charCodeAt(index++) - 63;
-      result |= (b & 0x1f) << shift;
-      shift += 5;
-    } while (result >= 0x20);
+  async calculateRoute(start: RoutePoint, end: RoutePoint, profile: StreetMode = 'driving'): Promise<Route> {
+    // Throwing lets the routing chain fall through to the straight-line estimate
+    if (!osrmServesProfile(profile)) {
+      throw new Error(`The OSRM demo server has no ${profile} profile, set VITE_OSRM_URL to a self-hosted server`);
+    }
 
-    let dlat = ((result & 1) ? ~(result >> 1) : (result >> 1));
-    lat += dlat;
+    const url = `${this.baseUrl}/${OSRM_PROFILES[profile]}/${start.lng},${start.lat};${end.lng},${end.lat}?overview=full&steps=true&annotations=true&geometries=geojson`;
 
-    shift = 0;
-    result = 0;
+    const response = await fetch(url);
 
-    do {
-      let b = encoded.charCodeAt(index++) - 63;
-      result |= (b & 0x1f) << shift;
-      shift += 5;
-    } while (result >= 0x20);
+    if (!response.ok) {
+      throw new Error(`Route calculation failed: ${response.status}`);
+    }
 
-    let dlng = ((result & 1) ? ~(result >> 1) : (result >> 1));
-    lng += dlng;
+    const data = await response.json();
 
-    // Convert to Leaflet format: [lat, lng]
-    poly.push([lat / 1e5, lng / 1e5] as [number, number]);
-  }
+    if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) {
+      throw new Error('No route found');
+    }
 
-  return poly;
-}
+    const route = data.routes[0];
 
-export class RouteService {
-  private baseUrl = 'https://router.project-osrm.org/route/v1';
-
-  async calculateRoute(
-    start: RoutePoint,
-    end: RoutePoint,
-    profile: 'driving' | 'walking' | 'cycling' = 'driving'
-  ): Promise<Route | null> {
-    try {
-      // Use correct OSRM profiles for different transport modes
-      let osrmProfile: string;
-      switch (profile) {
-        case 'walking':
-          osrmProfile = 'foot';
-          break;
-        case 'cycling':
-          osrmProfile = 'bike';
-          break;
-        case 'driving':
-        default:
-          osrmProfile = 'driving';
-          break;
-      }
-      
-      const url = `${this.baseUrl}/${osrmProfile}/${start.lng},${start.lat};${end.lng},${end.lat}?overview=full&steps=true&annotations=true&geometries=geojson`;
-      
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`Route calculation failed: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      if (data.code !== 'Ok' || !data.routes || data.routes.length === 0) {
-        throw new Error('No route found');
-      }
-      
-      const route = data.routes[0];
-      
-      // Handle different geometry formats from OSRM
-      let geometry: [number, number][] = [];
-      
-      if (route.geometry) {
-        if (route.geometry.type === 'LineString' && route.geometry.coordinates) {
-          // GeoJSON format - OSRM returns [lng, lat], Leaflet needs [lat, lng]
-          geometry = route.geometry.coordinates.map((coord: number[]) => [coord[1], coord[0]]);
-          console.log('🗺️ Converted LineString geometry:', geometry);
-        } else if (typeof route.geometry === 'string') {
-          // Polyline encoded format - decode it
-          geometry = decodePolyline(route.geometry);
-          console.log('🗺️ Decoded polyline geometry:', geometry);
-        } else if (Array.isArray(route.geometry)) {
-          // Array format - OSRM returns [lng, lat], Leaflet needs [lat, lng]
-          geometry = route.geometry.map((coord: number[]) => [coord[1], coord[0]]);
-          console.log('🗺️ Converted Array geometry:', geometry);
-        }
-      } else {
-        // Fallback: create a simple line between start and end points
-        geometry = [[start.lat, start.lng], [end.lat, end.lng]];
-        console.log('🗺️ Using fallback geometry:', geometry);
-      }
-      
-      // Ensure we have at least 2 points for a valid route
-      if (geometry.length < 2) {
-        geometry = [[start.lat, start.lng], [end.lat, end.lng]];
-      }
-      
-              return {
-          distance: route.distance,
-          duration: route.duration,
-          steps: (route.legs?.[0]?.steps || []).map((step: any) => ({
-            distance: step.distance || 0,
-            duration: step.duration || 0,
-            instruction: step.maneuver?.instruction || 'Continue',
-            maneuver: {
-              type: step.maneuver?.type || 'continue',
-              location: step.maneuver?.location || [0, 0]
-            }
-          })),
-          geometry: geometry,
-          profile: profile
-        };
-    } catch (error) {
-      console.error('Error calculating route:', error);
-      return null;
+    // GeoJSON and array geometries are [lng, lat], polylines decode to [lat, lng]
+    let geometry: [number, number][] = [];
+    if (route.geometry?.type === 'LineString' && route.geometry.coordinates) {
+      geometry = route.geometry.coordinates.map((coord: number[]) => [coord[1], coord[0]]);
+    } else if (typeof route.geometry === 'string') {
+      geometry = decodePolyline(route.geometry);
+    } else if (Array.isArray(route.geometry)) {
+      geometry = route.geometry.map((coord: number[]) => [coord[1], coord[0]]);
     }
-  }
 
-  formatDistance(meters: number): string {
-    if (meters < 1000) {
-      return `${Math.round(meters)}m`;
-    } else {
-      return `${(meters / 1000).toFixed(1)}km`;
+    // Ensure we have at least 2 points for a valid route
+    if (geometry.length < 2) {
+      geometry = [[start.lat, start.lng], [end.lat, end.lng]];
     }
-  }
 
-  formatDuration(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    
-    if (hours > 0) {
-      return `${hours}h ${minutes}m`;
-    } else {
-      return `${minutes}m`;
-    }
+    const steps: RouteStep[] = (route.legs?.[0]?.steps as OsrmStep[] || []).map(step => {
+      const location = step.maneuver?.location || [start.lng, start.lat];
+      return {
+        distance: step.distance || 0,
+        duration: step.duration || 0,
+        instruction: describeOsrmStep(step),
+        maneuver: {
+          type: step.maneuver?.type || 'continue',
+          location: [location[1], location[0]]
+        }
+      };
+    });
+
+    return {
+      distance: route.distance,
+      duration: route.duration,
+      steps,
+      geometry,
+      profile,
+      provider: this.name
+    };
   }
 
   getDirectionsUrl(start: RoutePoint, end: RoutePoint): string {
@@ -171,4 +143,4 @@ export class RouteService {
   }
 }
 
-export const routeService = new RouteService(); 
\ No newline at end of file
+export const routeService = new RouteService();
@@ -1,95 +1,97 @@
 import { googleMapsService } from './googleMapsService';
 import { mapboxService } from './mapboxService';
 import { routeService } from './routeService';
+import { straightLineRouteService } from './straightLineRouteService';
+import { valhallaService } from './valhallaService';
+import { describeTransitLeg, transitService, type TransitJourney } from './transitService';
+import {
+  formatRouteDistance,
+  formatRouteDuration,
+  type Route,
+  type RoutePoint,
+  type RouteProfile,
+  type RoutingProvider
+} from './routingTypes';
 
-export interface RoutePoint {
-  lat: number;
-  lng: number;
-}
-
-export interface RouteStep {
-  distance: number;
-  duration: number;
-  instruction: string;
-  maneuver: {
-    type: string;
-    location: [number, number];
-  };
-}
+export type { Route, RoutePoint, RouteProfile, RouteStep } from './routingTypes';
 
-export interface Route {
-  distance: number;
-  duration: number;
-  steps: RouteStep[];
-  geometry: [number, number][];
-  profile: 'driving' | 'walking' | 'cycling';
-}
+// A timetable journey as a route: one step per walk or ride
+const journeyToRoute = (journey: TransitJourney, departAt: Date): Route => ({
+  distance: journey.distance,
+  duration: (journey.arrival - departAt.getTime()) / 1000,
+  steps: journey.legs.map(leg => ({
+    distance: leg.distance,
+    duration: (leg.arrival - leg.departure) / 1000,
+    instruction: describeTransitLeg(leg),
+    maneuver: {
+      type: leg.type === 'ride' ? 'transit' : 'walk',
+      location: [leg.from.latitude, leg.from.longitude]
+    }
+  })),
+  geometry: journey.legs.flatMap(leg => leg.type === 'ride'
+    ? leg.path
+    : [[leg.from.latitude, leg.from.longitude], [leg.to.latitude, leg.to.longitude]] as [number, number][]),
+  profile: 'transit',
+  provider: 'GTFS timetable',
+  transit: journey
+});
 
+// Street routes try each provider in turn and fall through to the next on
+// failure; the straight line at the end always answers
 export class RoutingService {
-  private routingProvider: 'google' | 'mapbox' | 'osrm';
+  private providers: RoutingProvider[];
+  private lastProvider: RoutingProvider | null = null;
 
-  constructor() {
-    if (import.meta.env.VITE_GOOGLE_MAPS_API_KEY) {
-      this.routingProvider = 'google';
-    } else if (import.meta.env.VITE_MAPBOX_API_KEY) {
-      this.routingProvider = 'mapbox';
-    } else {
-      this.routingProvider = 'osrm';
-    }
-    console.log(`Using ${this.routingProvider.toUpperCase()} for routing`);
+  constructor(providers: RoutingProvider[] = [googleMapsService, mapboxService, valhallaService, routeService, straightLineRouteService]) {
+    this.providers = providers;
+    console.log(`Routing chain: ${providers.filter(provider => provider.isAvailable()).map(provider => provider.name).join(' → ')}`);
   }
 
-  async calculateRoute(
-    start: RoutePoint,
-    end: RoutePoint,
-    profile: 'driving' | 'walking' | 'cycling' = 'driving'
-  ): Promise<Route | null> {
-    switch (this.routingProvider) {
-      case 'google':
-        return await googleMapsService.calculateRoute(start, end, profile);
-      case 'mapbox':
-        return await mapboxService.calculateRoute(start, end, profile);
-      case 'osrm':
-      default:
-        return await routeService.calculateRoute(start, end, profile);
+  async calculateRoute(start: RoutePoint, end: RoutePoint, profile: RouteProfile = 'driving'): Promise<Route | null> {
+    // Transit comes from the local GTFS feed whatever the street router
+    if (profile === 'transit') {
+      const departAt = new Date();
+      try {
+        const journey = await transitService.planJourney(
+          { name: 'Start', latitude: start.lat, longitude: start.lng },
+          { name: 'your destination', latitude: end.lat, longitude: end.lng },
+          departAt
+        );
+        return journeyToRoute(journey, departAt);
+      } catch (error) {
+        console.error('Error calculating transit route:', error);
+        return null;
+      }
     }
+
+    for (const provider of this.providers) {
+      if (!provider.isAvailable()) continue;
+      try {
+        const route = await provider.calculateRoute(start, end, profile);
+        this.lastProvider = provider;
+        return route;
+      } catch (error) {
+        console.warn(`⚠️ ${provider.name} routing failed, trying the next provider:`, error);
+      }
+    }
+
+    console.error('No routing provider could calculate a route');
+    return null;
   }
 
   formatDistance(meters: number): string {
-    switch (this.routingProvider) {
-      case 'google':
-        return googleMapsService.formatDistance(meters);
-      case 'mapbox':
-        return mapboxService.formatDistance(meters);
-      case 'osrm':
-      default:
-        return routeService.formatDistance(meters);
-    }
+    return formatRouteDistance(meters);
   }
 
   formatDuration(seconds: number): string {
-    switch (this.routingProvider) {
-      case 'google':
-        return googleMapsService.formatDuration(seconds);
-      case 'mapbox':
-        return mapboxService.formatDuration(seconds);
-      case 'osrm':
-      default:
-        return routeService.formatDuration(seconds);
-    }
+    return formatRouteDuration(seconds);
   }
 
+  // Directions from whichever provider answered last, or the first configured one
   getDirectionsUrl(start: RoutePoint, end: RoutePoint): string {
-    switch (this.routingProvider) {
-      case 'google':
-        return googleMapsService.getDirectionsUrl(start, end);
-      case 'mapbox':
-        return mapboxService.getDirectionsUrl(start, end);
-      case 'osrm':
-      default:
-        return routeService.getDirectionsUrl(start, end);
-    }
+    const provider = this.lastProvider || this.providers.find(candidate => candidate.isAvailable()) || straightLineRouteService;
+    return provider.getDirectionsUrl(start, end);
   }
 }
 
-export const routingService = new RoutingService(); 
\ No newline at end of file
+export const routingService = new RoutingService();
@@ -0,0 +1,93 @@
+import type { TransitJourney } from './transitService';
+
+// Shared by every routing provider. Coordinates are Leaflet [lat, lng] pairs,
+// distances metres and durations seconds.
+
+export interface RoutePoint {
+  lat: number;
+  lng: number;
+}
+
+// Modes the street routers know; transit comes from the local GTFS timetable
+export type StreetMode = 'walking' | 'cycling' | 'driving';
+export type RouteProfile = StreetMode | 'transit';
+
+// Straight-line speeds in metres per minute, used when no route is available
+export const STREET_SPEEDS: Record<StreetMode, number> = {
+  walking: 80,
+  cycling: 250,
+  driving: 500
+};
+
+export interface RouteStep {
+  distance: number;
+  duration: number;
+  instruction: string;
+  maneuver: {
+    type: string;
+    location: [number, number]; // [lat, lng]
+  };
+}
+
+export interface Route {
+  distance: number;
+  duration: number;
+  steps: RouteStep[];
+  geometry: [number, number][]; // [lat, lng]
+  profile: RouteProfile;
+  provider?: string; // name of the provider that answered
+  transit?: TransitJourney; // transit routes only, with departure times
+}
+
+// One street router. calculateRoute rejects when it has no route, so the
+// routing service can try the next provider.
+export interface RoutingProvider {
+  name: string;
+  isAvailable(): boolean; // configured, e.g. has its API key
+  calculateRoute(start: RoutePoint, end: RoutePoint, profile: StreetMode): Promise<Route>;
+  getDirectionsUrl(start: RoutePoint, end: RoutePoint): string;
+}
+
+export const formatRouteDistance = (meters: number): string => {
+  if (meters < 1000) {
+    return `${Math.round(meters)}m`;
+  }
+  return `${(meters / 1000).toFixed(1)}km`;
+};
+
+export const formatRouteDuration = (seconds: number): string => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}min`;
+  }
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}min`;
+};
+
+// Encoded polylines (Google, OSRM) as [lat, lng] pairs
+export const decodePolyline = (encoded: string, precision: number = 5): [number, number][] => {
+  const factor = Math.pow(10, precision);
+  const poly: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = (): number => {
+    let shift = 0;
+    let result = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return (result & 1) ? ~(result >> 1) : (result >> 1);
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    poly.push([lat / factor, lng / factor]);
+  }
+
+  return poly;
+};
@@ -0,0 +1,193 @@
+import type { TripKeywords, TripPoint, TripRoute } from './tripPlanningService';
+import type { CandidatePoint } from './tripPlanSchema';
+import type { DistanceMatrix } from './distanceMatrixService';
+
+// Deterministic trip planner used when the AI is unavailable. Same input,
+// same trips: no randomness and ties are broken by candidate order.
+
+export interface RuleBasedPlanOptions {
+  keywords: TripKeywords;
+  startId: string; // matrix id of the start, usually 'user'
+  endId?: string | null; // matrix id to finish at for round trips
+  planId: number; // part of every trip id, so plans saved to the library stay apart
+}
+
+type StopKind = 'historical' | 'food';
+
+interface Stop {
+  kind: StopKind;
+  point: CandidatePoint;
+}
+
+const MAX_TRIP_POINTS = 8;
+const HISTORICAL_VISIT_MINUTES = 20;
+const COFFEE_VISIT_MINUTES = 20;
+const MEAL_VISIT_MINUTES = 40;
+
+const isCoffeeStop = (point: CandidatePoint): boolean => {
+  return /cafe|coffee|bakery|ice cream/i.test(point.category);
+};
+
+const visitDuration = (stop: Stop): number => {
+  if (stop.kind === 'historical') {
+    return HISTORICAL_VISIT_MINUTES;
+  }
+  return isCoffeeStop(stop.point) ? COFFEE_VISIT_MINUTES : MEAL_VISIT_MINUTES;
+};
+
+// Cheaper places first on a budget, sit-down places first when splashing out.
+// Array.prototype.sort is stable, so equal places keep their relevance order.
+const rankFood = (food: CandidatePoint[], keywords: TripKeywords): CandidatePoint[] => {
+  const wantsCoffee = keywords.interests.includes('coffee');
+  const score = (point: CandidatePoint): number => {
+    let value = 0;
+    if (wantsCoffee && isCoffeeStop(point)) value -= 2;
+    if (keywords.budget === 'budget' && /fast food|cafe|bakery|pizzeria/i.test(point.category)) value -= 1;
+    if (keywords.budget === 'luxury' && /restaurant|bistro/i.test(point.category)) value -= 1;
+    return value;
+  };
+  return [...food].sort((a, b) => score(a) - score(b));
+};
+
+// The order stop kinds are tried in. Never two food stops in a row, and
+// food-focused requests get food every other stop instead of every third.
+const nextKinds = (previous: StopKind | null, historicalInARow: number, keywords: TripKeywords): StopKind[] => {
+  if (previous === 'food') {
+    return ['historical'];
+  }
+  const foodFocused = keywords.interests.includes('food') || keywords.interests.includes('coffee');
+  const foodDue = previous !== null && (foodFocused || historicalInARow >= 2);
+  return foodDue ? ['food', 'historical'] : ['historical', 'food'];
+};
+
+const buildTrip = (
+  historical: CandidatePoint[],
+  food: CandidatePoint[],
+  matrix: DistanceMatrix,
+  options: RuleBasedPlanOptions
+): { stops: Stop[]; travelMinutes: number; distance: number; visitMinutes: number } => {
+  const { keywords, startId, endId } = options;
+  const indexOf = new Map(matrix.ids.map((id, index) => [id, index]));
+
+  const leg = (fromId: string, toId: string): { minutes: number; meters: number } => {
+    const from = indexOf.get(fromId);
+    const to = indexOf.get(toId);
+    if (from === undefined || to === undefined) {
+      return { minutes: Infinity, meters: Infinity };
+    }
+    // The matrix is in the trip's mode, see generateTripPlan
+    return { minutes: matrix.durations[from][to], meters: matrix.distances[from][to] };
+  };
+
+  const pools: Record<StopKind, CandidatePoint[]> = { historical: [...historical], food: rankFood(food, keywords) };
+  const stops: Stop[] = [];
+  let current = startId;
+  let travelMinutes = 0;
+  let distance = 0;
+  let visitMinutes = 0;
+  let historicalInARow = 0;
+
+  while (stops.length < MAX_TRIP_POINTS) {
+    const previous = stops.length > 0 ? stops[stops.length - 1].kind : null;
+    let chosen: { stop: Stop; minutes: number; meters: number } | null = null;
+
+    for (const kind of nextKinds(previous, historicalInARow, keywords)) {
+      // Nearest place of this kind that still fits in the time budget,
+      // leaving time to get back when the trip is a round trip
+      for (const point of pools[kind]) {
+        const stop: Stop = { kind, point };
+        const { minutes, meters } = leg(current, point.id);
+        const back = endId ? leg(point.id, endId).minutes : 0;
+        const fits = travelMinutes + visitMinutes + minutes + visitDuration(stop) + back <= keywords.duration;
+        if (fits && (!chosen || minutes < chosen.minutes)) {
+          chosen = { stop, minutes, meters };
+        }
+      }
+      if (chosen) {
+        break;
+      }
+    }
+
+    if (!chosen) {
+      break;
+    }
+
+    const { stop, minutes, meters } = chosen;
+    stops.push(stop);
+    pools[stop.kind] = pools[stop.kind].filter(point => point.id !== stop.point.id);
+    travelMinutes += minutes;
+    distance += meters;
+    visitMinutes += visitDuration(stop);
+    historicalInARow = stop.kind === 'historical' ? historicalInARow + 1 : 0;
+    current = stop.point.id;
+  }
+
+  if (endId && stops.length > 0) {
+    const { minutes, meters } = leg(current, endId);
+    travelMinutes += minutes;
+    distance += meters;
+  }
+
+  return { stops, travelMinutes, distance, visitMinutes };
+};
+
+const toTripPoint = (stop: Stop): TripPoint => ({
+  id: stop.point.id,
+  name: stop.point.name,
+  category: stop.point.category,
+  latitude: stop.point.latitude,
+  longitude: stop.point.longitude,
+  visitDuration: visitDuration(stop),
+  description: stop.point.description || `${stop.kind === 'food' ? 'Stop for food' : 'Visit'} at ${stop.point.name}`,
+  openingHours: stop.point.openingHours
+});
+
+const describeTrip = (stops: Stop[], keywords: TripKeywords): string => {
+  const sights = stops.filter(stop => stop.kind === 'historical').length;
+  const meals = stops.length - sights;
+  const parts = [`${sights} sight${sights === 1 ? '' : 's'}`];
+  if (meals > 0) {
+    parts.push(`${meals} food stop${meals === 1 ? '' : 's'}`);
+  }
+  return `A ${keywords.transportation} route with ${parts.join(' and ')}, planned to fit in ${Math.round(keywords.duration / 60 * 10) / 10} hours.`;
+};
+
+// Build up to two trips from the candidates: the best greedy route, and an
+// alternative that avoids the first trip's places where possible
+export const planRuleBasedTrips = (
+  candidates: { historical: CandidatePoint[]; food: CandidatePoint[] },
+  matrix: DistanceMatrix,
+  options: RuleBasedPlanOptions
+): TripRoute[] => {
+  const trips: TripRoute[] = [];
+  const used = new Set<string>();
+  const names = ['Highlights', 'Alternative'];
+
+  for (const [index, label] of names.entries()) {
+    const { stops, travelMinutes, distance, visitMinutes } = buildTrip(
+      candidates.historical.filter(point => !used.has(point.id)),
+      candidates.food.filter(point => !used.has(point.id)),
+      matrix,
+      options
+    );
+
+    if (stops.length < 2) {
+      break;
+    }
+
+    stops.forEach(stop => used.add(stop.point.id));
+    trips.push({
+      id: `rules-${options.planId}-${index + 1}`,
+      name: `${label} ${options.keywords.transportation === 'walking' ? 'Walk' : 'Tour'}`,
+      description: describeTrip(stops, options.keywords),
+      points: stops.map(toTripPoint),
+      totalDuration: Math.round(travelMinutes + visitMinutes),
+      totalDistance: Math.round(distance),
+      difficulty: distance > 5000 ? 'challenging' : distance > 2500 ? 'moderate' : 'easy',
+      planner: 'rules',
+      mode: options.keywords.transportation
+    });
+  }
+
+  return trips;
+};
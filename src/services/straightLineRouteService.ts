@@ -0,0 +1,45 @@
+import { calculateDistance } from '../utils/mapBounds';
+import { STREET_SPEEDS, type Route, type RoutePoint, type RoutingProvider, type StreetMode } from './routingTypes';
+
+// Last link of the routing chain: a straight line at the mode's usual speed,
+// so navigation still shows a direction and an estimate when no router answers
+export class StraightLineRouteService implements RoutingProvider {
+  name = 'Straight line';
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async calculateRoute(start: RoutePoint, end: RoutePoint, profile: StreetMode = 'driving'): Promise<Route> {
+    const distance = calculateDistance(start.lat, start.lng, end.lat, end.lng);
+    const duration = distance / STREET_SPEEDS[profile] * 60;
+
+    return {
+      distance,
+      duration,
+      steps: [
+        {
+          distance,
+          duration,
+          instruction: 'Head straight for your destination (no road route available)',
+          maneuver: { type: 'depart', location: [start.lat, start.lng] }
+        },
+        {
+          distance: 0,
+          duration: 0,
+          instruction: 'You have arrived at your destination',
+          maneuver: { type: 'arrive', location: [end.lat, end.lng] }
+        }
+      ],
+      geometry: [[start.lat, start.lng], [end.lat, end.lng]],
+      profile,
+      provider: this.name
+    };
+  }
+
+  getDirectionsUrl(start: RoutePoint, end: RoutePoint): string {
+    return `https://www.openstreetmap.org/directions?from=${start.lat},${start.lng}&to=${end.lat},${end.lng}`;
+  }
+}
+
+export const straightLineRouteService = new StraightLineRouteService();
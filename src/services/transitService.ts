@@ -0,0 +1,380 @@
+import { activeServiceIds, loadGtfsFeed, toServiceDate, type GtfsFeed } from './gtfsService';
+import { calculateDistance } from '../utils/mapBounds';
+
+export interface TransitPlace {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface TransitLegBase {
+  from: TransitPlace;
+  to: TransitPlace;
+  departure: number; // epoch milliseconds, so saved trips survive JSON
+  arrival: number;
+  distance: number; // in meters
+}
+
+export type TransitLeg =
+  | (TransitLegBase & { type: 'walk' })
+  | (TransitLegBase & {
+      type: 'ride';
+      line: string; // e.g. "Tram M4"
+      headsign: string;
+      stops: number; // stops travelled, not counting the boarding stop
+      path: Array<[number, number]>; // [lat, lng] of every stop on the way
+    });
+
+export interface TransitJourney {
+  departure: number; // epoch milliseconds
+  arrival: number;
+  distance: number; // in meters
+  legs: TransitLeg[];
+}
+
+interface Connection {
+  from: number; // stop index
+  to: number;
+  departure: number; // seconds after the service day's midnight
+  arrival: number;
+  trip: number; // index into GtfsFeed.trips
+  position: number; // index of the departure in the trip's stop times
+}
+
+type Pointer =
+  | { type: 'access' }
+  | { type: 'walk'; from: number }
+  | { type: 'ride'; enter: Connection; exit: Connection };
+
+interface Footpath {
+  stop: number;
+  seconds: number;
+  meters: number;
+}
+
+const WALKING_METERS_PER_SECOND = 80 / 60;
+const WALK_DETOUR_FACTOR = 1.25; // streets are longer than the straight line
+const MAX_ACCESS_METERS = 1000; // furthest walk to the first or from the last stop
+const MAX_TRANSFER_METERS = 300; // furthest walk between stops when changing
+const MIN_TRANSFER_SECONDS = 60; // to get off one vehicle and onto another
+const GRID_CELL_DEGREES = 0.01;
+const SECONDS_PER_DAY = 86400;
+
+const LINE_TYPE_NAMES: Record<number, string> = {
+  0: 'Tram',
+  1: 'Metro',
+  2: 'Train',
+  3: 'Bus',
+  4: 'Ferry',
+  5: 'Cable car',
+  6: 'Gondola',
+  7: 'Funicular',
+  11: 'Trolleybus',
+  12: 'Monorail'
+};
+
+// Extended route types come in ranges of a hundred
+const lineTypeName = (type: number): string => {
+  if (LINE_TYPE_NAMES[type]) return LINE_TYPE_NAMES[type];
+  if (type >= 100 && type < 200) return 'Train';
+  if (type >= 400 && type < 500) return 'Metro';
+  if (type >= 700 && type < 800) return 'Bus';
+  if (type >= 900 && type < 1000) return 'Tram';
+  if (type === 1000 || type === 1200) return 'Ferry';
+  return 'Line';
+};
+
+const walkSeconds = (meters: number): number => meters * WALK_DETOUR_FACTOR / WALKING_METERS_PER_SECOND;
+
+const distanceBetween = (a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): number => {
+  return calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+};
+
+export const formatTransitTime = (epoch: number): string => {
+  return new Date(epoch).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+// One line of directions per leg, e.g. "Take Tram M4 towards Hackescher Markt at 10:04 ..."
+export const describeTransitLeg = (leg: TransitLeg): string => {
+  if (leg.type === 'walk') {
+    return `Walk ${Math.round(leg.distance)}m to ${leg.to.name}`;
+  }
+  return `Take ${leg.line}${leg.headsign ? ` towards ${leg.headsign}` : ''} at ${formatTransitTime(leg.departure)} from ${leg.from.name}, ` +
+    `${leg.stops} stop${leg.stops === 1 ? '' : 's'} to ${leg.to.name} (arrives ${formatTransitTime(leg.arrival)})`;
+};
+
+// Earliest-arrival routing over a local GTFS feed with the Connection Scan
+// Algorithm: every departure of the day in time order, one pass per journey.
+export class TransitService {
+  private feed: Promise<GtfsFeed> | null = null;
+  private footpaths: Footpath[][] | null = null;
+  private connections = new Map<string, Connection[]>(); // by service date
+
+  private loadFeed(): Promise<GtfsFeed> {
+    if (!this.feed) {
+      this.feed = loadGtfsFeed().catch(error => {
+        // Let the next journey try again
+        this.feed = null;
+        throw error;
+      });
+    }
+    return this.feed;
+  }
+
+  // Short walks between nearby stops, found through a coarse grid instead of all pairs
+  private getFootpaths(feed: GtfsFeed): Footpath[][] {
+    if (this.footpaths) {
+      return this.footpaths;
+    }
+
+    const cellKey = (latitude: number, longitude: number) =>
+      `${Math.floor(latitude / GRID_CELL_DEGREES)},${Math.floor(longitude / GRID_CELL_DEGREES)}`;
+    const grid = new Map<string, number[]>();
+    feed.stops.forEach((stop, index) => {
+      const key = cellKey(stop.latitude, stop.longitude);
+      grid.set(key, [...(grid.get(key) || []), index]);
+    });
+
+    this.footpaths = feed.stops.map((stop, index) => {
+      const row = Math.floor(stop.latitude / GRID_CELL_DEGREES);
+      const column = Math.floor(stop.longitude / GRID_CELL_DEGREES);
+      const paths: Footpath[] = [];
+      for (let dRow = -1; dRow <= 1; dRow++) {
+        for (let dColumn = -1; dColumn <= 1; dColumn++) {
+          (grid.get(`${row + dRow},${column + dColumn}`) || []).forEach(other => {
+            const meters = distanceBetween(stop, feed.stops[other]);
+            if (other !== index && meters <= MAX_TRANSFER_METERS) {
+              paths.push({ stop: other, seconds: walkSeconds(meters), meters });
+            }
+          });
+        }
+      }
+      return paths;
+    });
+    return this.footpaths;
+  }
+
+  // All stop-to-stop hops of a service day, sorted by departure. Trips of the
+  // day before that run past midnight are included with shifted times.
+  private getConnections(feed: GtfsFeed, date: Date): Connection[] {
+    const serviceDate = toServiceDate(date);
+    const cached = this.connections.get(serviceDate);
+    if (cached) {
+      return cached;
+    }
+
+    const previousDay = new Date(date);
+    previousDay.setDate(previousDay.getDate() - 1);
+    const today = activeServiceIds(feed, date);
+    const yesterday = activeServiceIds(feed, previousDay);
+    const connections: Connection[] = [];
+
+    feed.trips.forEach((trip, tripIndex) => {
+      const add = (offset: number) => {
+        for (let position = 0; position < trip.stopTimes.length - 1; position++) {
+          const departure = trip.stopTimes[position].departure + offset;
+          if (departure < 0) continue;
+          connections.push({
+            from: trip.stopTimes[position].stop,
+            to: trip.stopTimes[position + 1].stop,
+            departure,
+            arrival: trip.stopTimes[position + 1].arrival + offset,
+            trip: tripIndex,
+            position
+          });
+        }
+      };
+      if (today.has(trip.serviceId)) {
+        add(0);
+      }
+      if (yesterday.has(trip.serviceId) && trip.stopTimes[trip.stopTimes.length - 1].arrival >= SECONDS_PER_DAY) {
+        add(-SECONDS_PER_DAY);
+      }
+    });
+
+    connections.sort((a, b) => a.departure - b.departure || a.arrival - b.arrival);
+    // Keep one day; journeys are almost always planned for today
+    this.connections.clear();
+    this.connections.set(serviceDate, connections);
+    console.log(`🚉 ${connections.length} transit connections on ${serviceDate}`);
+    return connections;
+  }
+
+  // Fastest way from one place to another leaving at departAt, walking only when no ride is faster.
+  // Throws a GtfsFeedError when there is no usable feed.
+  async planJourney(from: TransitPlace, to: TransitPlace, departAt: Date = new Date()): Promise<TransitJourney> {
+    const feed = await this.loadFeed();
+    const connections = this.getConnections(feed, departAt);
+    const footpaths = this.getFootpaths(feed);
+
+    const midnight = new Date(departAt);
+    midnight.setHours(0, 0, 0, 0);
+    const toEpoch = (seconds: number) => midnight.getTime() + seconds * 1000;
+    const start = (departAt.getTime() - midnight.getTime()) / 1000;
+
+    const earliest = new Float64Array(feed.stops.length).fill(Infinity);
+    const reachedByRide = new Uint8Array(feed.stops.length);
+    const pointers: Array<Pointer | undefined> = new Array(feed.stops.length);
+    const egress = new Map<number, number>(); // stop -> seconds to walk to the destination
+
+    feed.stops.forEach((stop, index) => {
+      const accessMeters = distanceBetween(from, stop);
+      if (accessMeters <= MAX_ACCESS_METERS) {
+        earliest[index] = start + walkSeconds(accessMeters);
+        pointers[index] = { type: 'access' };
+      }
+      const egressMeters = distanceBetween(stop, to);
+      if (egressMeters <= MAX_ACCESS_METERS) {
+        egress.set(index, walkSeconds(egressMeters));
+      }
+    });
+
+    const directMeters = distanceBetween(from, to);
+    let bestArrival = start + walkSeconds(directMeters);
+    let bestStop = -1; // -1: just walk
+
+    const reach = (stop: number, time: number) => {
+      const egressSeconds = egress.get(stop);
+      if (egressSeconds !== undefined && time + egressSeconds < bestArrival) {
+        bestArrival = time + egressSeconds;
+        bestStop = stop;
+      }
+    };
+
+    // Binary search for the first departure after the start
+    let low = 0;
+    let high = connections.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (connections[middle].departure < start) low = middle + 1;
+      else high = middle;
+    }
+
+    const boarded = new Map<number, Connection>(); // trip -> connection it was boarded at
+    for (let i = low; i < connections.length; i++) {
+      const connection = connections[i];
+      if (connection.departure > bestArrival) {
+        break;
+      }
+
+      let enter = boarded.get(connection.trip);
+      if (!enter) {
+        const ready = earliest[connection.from] + (reachedByRide[connection.from] ? MIN_TRANSFER_SECONDS : 0);
+        if (ready > connection.departure) {
+          continue;
+        }
+        enter = connection;
+        boarded.set(connection.trip, connection);
+      }
+
+      if (connection.arrival < earliest[connection.to]) {
+        earliest[connection.to] = connection.arrival;
+        reachedByRide[connection.to] = 1;
+        pointers[connection.to] = { type: 'ride', enter, exit: connection };
+        reach(connection.to, connection.arrival);
+
+        footpaths[connection.to].forEach(path => {
+          const time = connection.arrival + path.seconds;
+          if (time < earliest[path.stop]) {
+            earliest[path.stop] = time;
+            reachedByRide[path.stop] = 0;
+            pointers[path.stop] = { type: 'walk', from: connection.to };
+            reach(path.stop, time);
+          }
+        });
+      }
+    }
+
+    const place = (stop: number): TransitPlace => feed.stops[stop];
+
+    if (bestStop === -1) {
+      return {
+        departure: departAt.getTime(),
+        arrival: toEpoch(bestArrival),
+        distance: directMeters,
+        legs: [{ type: 'walk', from, to, departure: departAt.getTime(), arrival: toEpoch(bestArrival), distance: directMeters }]
+      };
+    }
+
+    // Follow the pointers back from the last stop; times are filled in below
+    const legs: TransitLeg[] = [];
+    const walk = (fromPlace: TransitPlace, toPlace: TransitPlace): TransitLeg => ({
+      type: 'walk', from: fromPlace, to: toPlace, departure: 0, arrival: 0, distance: distanceBetween(fromPlace, toPlace)
+    });
+    legs.unshift(walk(place(bestStop), to));
+
+    let stop = bestStop;
+    for (let guard = 0; guard < feed.stops.length; guard++) {
+      const pointer = pointers[stop];
+      if (!pointer || pointer.type === 'access') {
+        legs.unshift(walk(from, place(stop)));
+        break;
+      }
+      if (pointer.type === 'walk') {
+        legs.unshift(walk(place(pointer.from), place(stop)));
+        stop = pointer.from;
+        continue;
+      }
+
+      const trip = feed.trips[pointer.enter.trip];
+      const line = feed.lines.get(trip.lineId);
+      const stopTimes = trip.stopTimes.slice(pointer.enter.position, pointer.exit.position + 2);
+      const path = stopTimes.map(stopTime => [place(stopTime.stop).latitude, place(stopTime.stop).longitude] as [number, number]);
+      let distance = 0;
+      for (let j = 1; j < path.length; j++) {
+        distance += calculateDistance(path[j - 1][0], path[j - 1][1], path[j][0], path[j][1]);
+      }
+      legs.unshift({
+        type: 'ride',
+        from: place(pointer.enter.from),
+        to: place(pointer.exit.to),
+        departure: toEpoch(pointer.enter.departure),
+        arrival: toEpoch(pointer.exit.arrival),
+        distance,
+        line: `${lineTypeName(line?.type ?? 3)} ${line?.shortName || line?.longName || trip.lineId}`,
+        headsign: trip.headsign,
+        stops: stopTimes.length - 1,
+        path
+      });
+      stop = pointer.enter.from;
+    }
+
+    // Join walks that follow each other and drop empty ones
+    const merged = legs.reduce<TransitLeg[]>((result, leg) => {
+      const previous = result[result.length - 1];
+      if (leg.type === 'walk' && previous?.type === 'walk') {
+        result[result.length - 1] = { ...previous, to: leg.to, distance: previous.distance + leg.distance };
+      } else if (leg.type === 'ride' || leg.distance >= 1) {
+        result.push(leg);
+      }
+      return result;
+    }, []);
+
+    // Walks leave as late as the next ride allows, or right after the previous one
+    merged.forEach((leg, index) => {
+      if (leg.type === 'ride') return;
+      const duration = walkSeconds(leg.distance) * 1000;
+      const previous = merged[index - 1];
+      const next = merged[index + 1];
+      if (previous) {
+        leg.departure = previous.arrival;
+        leg.arrival = previous.arrival + duration;
+      } else {
+        leg.arrival = next ? next.departure : departAt.getTime() + duration;
+        leg.departure = leg.arrival - duration;
+      }
+    });
+
+    const rides = merged.filter(leg => leg.type === 'ride').length;
+    console.log(`🚇 Transit journey ${from.name} → ${to.name}: ${rides} ride(s), arriving ${formatTransitTime(toEpoch(bestArrival))}`);
+
+    return {
+      departure: merged[0].departure,
+      arrival: merged[merged.length - 1].arrival,
+      distance: merged.reduce((sum, leg) => sum + leg.distance, 0),
+      legs: merged
+    };
+  }
+}
+
+export const transitService = new TransitService();
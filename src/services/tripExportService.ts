@@ -0,0 +1,223 @@
+import type { TripRoute } from './tripPlanningService';
+import type { Route } from './routingService';
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface ExportWaypoint {
+  name: string;
+  latitude: number;
+  longitude: number;
+  description?: string;
+  category?: string;
+  visitDuration?: number; // in minutes
+}
+
+// A trip or navigation route reduced to what the file formats share
+export interface ExportableTrack {
+  name: string;
+  description?: string;
+  waypoints: ExportWaypoint[];
+  track: Array<[number, number]>; // [lat, lng]
+  distance?: number; // in meters
+  duration?: number; // in minutes
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+const CREATOR = 'Histowalk';
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json'
+};
+
+const coordinate = (value: number): string => value.toFixed(6);
+
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const slugify = (name: string): string => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug || 'trip';
+};
+
+// Trip geometry is in Mapbox [lng, lat] order; without it, join the stops with straight lines
+export const trackFromTrip = (
+  trip: TripRoute,
+  start?: { latitude: number; longitude: number } | null
+): ExportableTrack => {
+  const stopLine: Array<[number, number]> = [
+    ...(start ? [[start.latitude, start.longitude] as [number, number]] : []),
+    ...trip.points.map(point => [point.latitude, point.longitude] as [number, number])
+  ];
+
+  return {
+    name: trip.name,
+    description: trip.description,
+    waypoints: trip.points.map((point, index) => ({
+      name: `${index + 1}. ${point.name}`,
+      latitude: point.latitude,
+      longitude: point.longitude,
+      description: point.description,
+      category: point.category,
+      visitDuration: point.visitDuration
+    })),
+    track: trip.routeGeometry && trip.routeGeometry.length > 1
+      ? trip.routeGeometry.map(([lng, lat]) => [lat, lng])
+      : stopLine,
+    distance: trip.totalDistance,
+    duration: trip.totalDuration
+  };
+};
+
+// Navigation routes are already [lat, lng]; their duration is in seconds
+export const trackFromRoute = (route: Route, name: string): ExportableTrack => {
+  const first = route.geometry[0];
+  const last = route.geometry[route.geometry.length - 1];
+
+  return {
+    name,
+    description: `${route.profile} route`,
+    waypoints: first && last
+      ? [
+          { name: 'Start', latitude: first[0], longitude: first[1] },
+          { name: 'Destination', latitude: last[0], longitude: last[1] }
+        ]
+      : [],
+    track: route.geometry,
+    distance: route.distance,
+    duration: route.duration / 60
+  };
+};
+
+export const toGpx = (track: ExportableTrack): string => {
+  const waypoints = track.waypoints.map(waypoint => [
+    `  <wpt lat="${coordinate(waypoint.latitude)}" lon="${coordinate(waypoint.longitude)}">`,
+    `    <name>${escapeXml(waypoint.name)}</name>`,
+    ...(waypoint.description ? [`    <desc>${escapeXml(waypoint.description)}</desc>`] : []),
+    ...(waypoint.category ? [`    <type>${escapeXml(waypoint.category)}</type>`] : []),
+    '  </wpt>'
+  ].join('\n'));
+
+  const points = track.track.map(([lat, lng]) => `      <trkpt lat="${coordinate(lat)}" lon="${coordinate(lng)}"/>`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    '  <metadata>',
+    `    <name>${escapeXml(track.name)}</name>`,
+    ...(track.description ? [`    <desc>${escapeXml(track.description)}</desc>`] : []),
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    ...waypoints,
+    '  <trk>',
+    `    <name>${escapeXml(track.name)}</name>`,
+    '    <trkseg>',
+    ...points,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    ''
+  ].join('\n');
+};
+
+export const toKml = (track: ExportableTrack): string => {
+  const placemarks = track.waypoints.map(waypoint => [
+    '      <Placemark>',
+    `        <name>${escapeXml(waypoint.name)}</name>`,
+    ...(waypoint.description ? [`        <description>${escapeXml(waypoint.description)}</description>`] : []),
+    `        <Point><coordinates>${coordinate(waypoint.longitude)},${coordinate(waypoint.latitude)},0</coordinates></Point>`,
+    '      </Placemark>'
+  ].join('\n'));
+
+  const line = track.track.map(([lat, lng]) => `${coordinate(lng)},${coordinate(lat)},0`).join(' ');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(track.name)}</name>`,
+    ...(track.description ? [`    <description>${escapeXml(track.description)}</description>`] : []),
+    // KML colours are aabbggrr: the trip route blue (#3b82f6)
+    '    <Style id="route"><LineStyle><color>fff6823b</color><width>4</width></LineStyle></Style>',
+    '    <Folder>',
+    '      <name>Stops</name>',
+    ...placemarks,
+    '    </Folder>',
+    '    <Placemark>',
+    `      <name>${escapeXml(track.name)}</name>`,
+    '      <styleUrl>#route</styleUrl>',
+    `      <LineString><tessellate>1</tessellate><coordinates>${line}</coordinates></LineString>`,
+    '    </Placemark>',
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+};
+
+// GeoJSON is [lng, lat]; stops are Points and the route one LineString
+export const toGeoJson = (track: ExportableTrack): string => {
+  const round = (value: number) => Number(coordinate(value));
+
+  const collection = {
+    type: 'FeatureCollection',
+    properties: { name: track.name, description: track.description ?? null, creator: CREATOR },
+    features: [
+      ...track.waypoints.map((waypoint, index) => ({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [round(waypoint.longitude), round(waypoint.latitude)] },
+        properties: {
+          name: waypoint.name,
+          order: index + 1,
+          description: waypoint.description ?? null,
+          category: waypoint.category ?? null,
+          visitDuration: waypoint.visitDuration ?? null
+        }
+      })),
+      {
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: track.track.map(([lat, lng]) => [round(lng), round(lat)]) },
+        properties: {
+          name: track.name,
+          distance: track.distance ?? null,
+          duration: track.duration ?? null
+        }
+      }
+    ]
+  };
+
+  return JSON.stringify(collection, null, 2);
+};
+
+export const exportTrack = (track: ExportableTrack, format: ExportFormat): ExportFile => {
+  const content = format === 'gpx' ? toGpx(track) : format === 'kml' ? toKml(track) : toGeoJson(track);
+  return {
+    filename: `${slugify(track.name)}.${format}`,
+    mimeType: MIME_TYPES[format],
+    content
+  };
+};
+
+// Save the file through a temporary object URL
+export const downloadExport = (file: ExportFile): void => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+  console.log(`📤 Exported ${file.filename}`);
+};
@@ -0,0 +1,323 @@
+import type { TripPoint, TripRoute } from './tripPlanningService';
+import type { TripRouteSegment } from './tripRoutingService';
+import type { CandidatePoint } from './tripPlanSchema';
+import type { ExportableTrack, ExportWaypoint } from './tripExportService';
+import { routeEditedTrip } from './tripRefinementService';
+import { calculateDistance } from '../utils/mapBounds';
+
+// Imported files are read into the same shape the exporter writes
+export type ImportedTrack = ExportableTrack;
+
+// A waypoint this close to a loaded spot becomes that spot
+const MATCH_RADIUS_METERS = 50;
+// ...or this close when the names also match
+const NAME_MATCH_RADIUS_METERS = 150;
+const DEFAULT_VISIT_DURATION = 20;
+const WALKING_METERS_PER_MINUTE = 80;
+
+export class TripImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TripImportError';
+  }
+}
+
+const childText = (element: Element, tagName: string): string | undefined => {
+  const text = element.getElementsByTagName(tagName)[0]?.textContent?.trim();
+  return text || undefined;
+};
+
+const readLatLng = (element: Element): [number, number] | null => {
+  const lat = Number(element.getAttribute('lat'));
+  const lng = Number(element.getAttribute('lon'));
+  return Number.isFinite(lat) && Number.isFinite(lng) ? [lat, lng] : null;
+};
+
+const toWaypoint = (element: Element): ExportWaypoint | null => {
+  const position = readLatLng(element);
+  if (!position) {
+    return null;
+  }
+  return {
+    name: childText(element, 'name') || 'Stop',
+    latitude: position[0],
+    longitude: position[1],
+    description: childText(element, 'desc'),
+    category: childText(element, 'type')
+  };
+};
+
+// Waypoints from <wpt>, the line from <trkpt> (or <rtept> for route-only files)
+export const parseGpx = (text: string): ImportedTrack => {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0 || xml.documentElement.nodeName !== 'gpx') {
+    throw new TripImportError('The file is not valid GPX');
+  }
+
+  const elements = (tagName: string) => Array.from(xml.getElementsByTagName(tagName));
+  const routePoints = elements('rtept');
+  const trackPoints = elements('trkpt');
+
+  let waypoints = elements('wpt').map(toWaypoint).filter((waypoint): waypoint is ExportWaypoint => waypoint !== null);
+  if (waypoints.length === 0) {
+    // Route-only files name their stops on the route points
+    waypoints = routePoints
+      .filter(point => childText(point, 'name'))
+      .map(toWaypoint)
+      .filter((waypoint): waypoint is ExportWaypoint => waypoint !== null);
+  }
+
+  const line = (trackPoints.length > 0 ? trackPoints : routePoints)
+    .map(readLatLng)
+    .filter((position): position is [number, number] => position !== null);
+
+  const metadata = xml.getElementsByTagName('metadata')[0];
+  const track = xml.getElementsByTagName('trk')[0];
+
+  return {
+    name: (metadata && childText(metadata, 'name')) || (track && childText(track, 'name')) || 'Imported trip',
+    description: (metadata && childText(metadata, 'desc')) || undefined,
+    waypoints,
+    track: line
+  };
+};
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  geometry: { type: string; coordinates: unknown } | null;
+  properties?: Record<string, unknown> | null;
+}
+
+const isPosition = (value: unknown): value is number[] => {
+  return Array.isArray(value) && value.length >= 2 && value.every(item => typeof item === 'number');
+};
+
+// Points become waypoints (sorted by an "order" property when present),
+// LineStrings and MultiLineStrings are joined into one line
+export const parseGeoJson = (text: string): ImportedTrack => {
+  let data: { type?: string; features?: GeoJsonFeature[]; geometry?: unknown; properties?: Record<string, unknown> };
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new TripImportError(`The file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const features: GeoJsonFeature[] = data.type === 'FeatureCollection' && Array.isArray(data.features)
+    ? data.features
+    : data.type === 'Feature'
+      ? [data as GeoJsonFeature]
+      : [];
+  if (features.length === 0) {
+    throw new TripImportError('The file has no GeoJSON features');
+  }
+
+  const waypoints: Array<{ order: number; waypoint: ExportWaypoint }> = [];
+  const line: Array<[number, number]> = [];
+  const addLine = (coordinates: unknown) => {
+    if (Array.isArray(coordinates)) {
+      coordinates.filter(isPosition).forEach(([lng, lat]) => line.push([lat, lng]));
+    }
+  };
+
+  features.forEach((feature, index) => {
+    const geometry = feature.geometry;
+    const properties = feature.properties || {};
+    if (!geometry) {
+      return;
+    }
+
+    if (geometry.type === 'Point' && isPosition(geometry.coordinates)) {
+      const [lng, lat] = geometry.coordinates;
+      waypoints.push({
+        order: typeof properties.order === 'number' ? properties.order : index,
+        waypoint: {
+          name: typeof properties.name === 'string' && properties.name ? properties.name : `Stop ${waypoints.length + 1}`,
+          latitude: lat,
+          longitude: lng,
+          description: typeof properties.description === 'string' ? properties.description : undefined,
+          category: typeof properties.category === 'string' ? properties.category : undefined,
+          visitDuration: typeof properties.visitDuration === 'number' ? properties.visitDuration : undefined
+        }
+      });
+    } else if (geometry.type === 'LineString') {
+      addLine(geometry.coordinates);
+    } else if (geometry.type === 'MultiLineString' && Array.isArray(geometry.coordinates)) {
+      geometry.coordinates.forEach(addLine);
+    }
+  });
+
+  const collectionProperties = data.properties || {};
+  const lineFeature = features.find(feature => feature.geometry?.type.endsWith('LineString'));
+  const lineName = lineFeature?.properties?.name;
+
+  return {
+    name: typeof collectionProperties.name === 'string' && collectionProperties.name
+      ? collectionProperties.name
+      : typeof lineName === 'string' && lineName ? lineName : 'Imported trip',
+    description: typeof collectionProperties.description === 'string' ? collectionProperties.description : undefined,
+    waypoints: waypoints.sort((a, b) => a.order - b.order).map(entry => entry.waypoint),
+    track: line
+  };
+};
+
+export const parseTripFile = (filename: string, text: string): ImportedTrack => {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'gpx' || (extension !== 'json' && extension !== 'geojson' && text.trimStart().startsWith('<'))) {
+    return parseGpx(text);
+  }
+  return parseGeoJson(text);
+};
+
+const normaliseName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Our own exports number the stops ("1. Castle"), drop that again
+const stripStopNumber = (name: string): string => name.replace(/^\d+\.\s+/, '');
+
+// The loaded spot a waypoint stands for: the nearest within a short radius,
+// or a spot with the same name a little further away
+const matchSpot = (waypoint: ExportWaypoint, spots: CandidatePoint[]): CandidatePoint | null => {
+  const name = normaliseName(stripStopNumber(waypoint.name));
+  let best: CandidatePoint | null = null;
+  let bestDistance = Infinity;
+
+  for (const spot of spots) {
+    const distance = calculateDistance(waypoint.latitude, waypoint.longitude, spot.latitude, spot.longitude);
+    const radius = normaliseName(spot.name) === name ? NAME_MATCH_RADIUS_METERS : MATCH_RADIUS_METERS;
+    if (distance <= radius && distance < bestDistance) {
+      best = spot;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+};
+
+const lineLength = (line: Array<[number, number]>): number => {
+  let meters = 0;
+  for (let i = 1; i < line.length; i++) {
+    meters += calculateDistance(line[i - 1][0], line[i - 1][1], line[i][0], line[i][1]);
+  }
+  return meters;
+};
+
+// Cut the imported line at the point closest to each stop, so routeSegments[i]
+// still leads to points[i]. Cuts only move forward along the line.
+const splitTrack = (line: Array<[number, number]>, points: TripPoint[]): TripRouteSegment[] => {
+  const segments: TripRouteSegment[] = [];
+  let startIndex = 0;
+  let fromId = 'user';
+
+  points.forEach((point, pointIndex) => {
+    let cutIndex = startIndex;
+    let cutDistance = Infinity;
+    // Leave enough line for the stops still to come
+    const lastCandidate = line.length - (points.length - pointIndex);
+    for (let i = startIndex; i <= Math.max(startIndex, lastCandidate); i++) {
+      const distance = calculateDistance(line[i][0], line[i][1], point.latitude, point.longitude);
+      if (distance < cutDistance) {
+        cutIndex = i;
+        cutDistance = distance;
+      }
+    }
+
+    const part = line.slice(startIndex, cutIndex + 1);
+    const distance = lineLength(part);
+    segments.push({
+      from: fromId,
+      to: point.id,
+      fromCoordinates: part[0],
+      toCoordinates: [point.latitude, point.longitude],
+      distance,
+      duration: distance / WALKING_METERS_PER_MINUTE,
+      geometry: part.map(([lat, lng]) => [lng, lat]),
+      steps: []
+    });
+
+    startIndex = cutIndex;
+    fromId = point.id;
+  });
+
+  return segments;
+};
+
+// Turn an imported file into a trip. Waypoints matching loaded spots take the
+// spot's id and details; the file's line is kept as the route geometry, and
+// files without one are routed like a hand-made trip.
+export const importTrip = async (
+  imported: ImportedTrack,
+  spots: CandidatePoint[],
+  start: { latitude: number; longitude: number } | null
+): Promise<TripRoute> => {
+  if (imported.waypoints.length === 0 && imported.track.length < 2) {
+    throw new TripImportError('The file has no waypoints or track');
+  }
+
+  // A bare track still makes a trip: its ends become the stops
+  const waypoints: ExportWaypoint[] = imported.waypoints.length > 0
+    ? imported.waypoints
+    : [imported.track[0], imported.track[imported.track.length - 1]].map(([latitude, longitude], index) => ({
+        name: index === 0 ? 'Start' : 'Finish',
+        latitude,
+        longitude
+      }));
+
+  const importId = Date.now();
+  const points: TripPoint[] = [];
+  waypoints.forEach((waypoint, index) => {
+    const spot = matchSpot(waypoint, spots);
+    const point: TripPoint = spot
+      ? {
+          id: spot.id,
+          name: spot.name,
+          category: spot.category,
+          latitude: spot.latitude,
+          longitude: spot.longitude,
+          visitDuration: waypoint.visitDuration || DEFAULT_VISIT_DURATION,
+          description: waypoint.description || spot.description,
+          openingHours: spot.openingHours
+        }
+      : {
+          id: `imported-${importId}-${index}`,
+          name: stripStopNumber(waypoint.name),
+          category: waypoint.category || 'Imported stop',
+          latitude: waypoint.latitude,
+          longitude: waypoint.longitude,
+          visitDuration: waypoint.visitDuration || DEFAULT_VISIT_DURATION,
+          description: waypoint.description || ''
+        };
+
+    // The same spot twice in a row is one stop
+    if (points[points.length - 1]?.id !== point.id) {
+      points.push(point);
+    }
+  });
+
+  const matched = points.filter(point => !point.id.startsWith('imported-')).length;
+  console.log(`📥 Imported "${imported.name}": ${points.length} stops (${matched} matched to loaded spots), ${imported.track.length} track points`);
+
+  const trip: TripRoute = {
+    id: `imported-${importId}`,
+    name: imported.name,
+    description: imported.description || `Imported tour with ${points.length} stops`,
+    points,
+    totalDuration: 0,
+    totalDistance: 0,
+    planner: 'manual'
+  };
+
+  const visitMinutes = points.reduce((sum, point) => sum + point.visitDuration, 0);
+
+  if (imported.track.length >= 2) {
+    const routeSegments = splitTrack(imported.track, points);
+    const totalDistance = lineLength(imported.track);
+    return {
+      ...trip,
+      routeGeometry: imported.track.map(([lat, lng]) => [lng, lat]),
+      routeSegments,
+      totalDistance: Math.round(totalDistance),
+      totalDuration: Math.round(totalDistance / WALKING_METERS_PER_MINUTE + visitMinutes)
+    };
+  }
+
+  return routeEditedTrip(trip, start || points[0]);
+};
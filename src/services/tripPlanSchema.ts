@@ -0,0 +1,254 @@
+import type { ResponseFormatJSONSchema } from 'openai/resources/shared';
+import type { TripPoint, TripRoute } from './tripPlanningService';
+import { calculateDistance } from '../utils/mapBounds';
+
+// A point the AI may choose from, as passed in TripPlanningRequest.availablePoints
+export interface CandidatePoint {
+  id: string;
+  name: string;
+  category: string;
+  latitude: number;
+  longitude: number;
+  description: string;
+  openingHours?: string;
+}
+
+export interface TripPlanValidationResult {
+  trips: TripRoute[];
+  errors: string[]; // problems worth telling the model about on a retry
+}
+
+// A point with an unknown id is snapped to a candidate this close to the given coordinates
+const SNAP_RADIUS_METERS = 75;
+const MIN_TRIP_POINTS = 2;
+const DEFAULT_VISIT_DURATION = 30;
+
+const pointSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'id of one of the supplied points' },
+    name: { type: 'string' },
+    category: { type: 'string' },
+    latitude: { type: 'number' },
+    longitude: { type: 'number' },
+    visitDuration: { type: 'number', description: 'minutes spent at the point' },
+    description: { type: 'string' }
+  },
+  required: ['id', 'name', 'category', 'latitude', 'longitude', 'visitDuration', 'description'],
+  additionalProperties: false
+};
+
+// Structured output contract for trip generation, mirrors TripRoute/TripPoint
+export const TRIP_PLAN_RESPONSE_FORMAT: ResponseFormatJSONSchema = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'trip_plan',
+    strict: true,
+    schema: {
+      type: 'object',
+      properties: {
+        trips: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              name: { type: 'string' },
+              description: { type: 'string' },
+              points: { type: 'array', items: pointSchema },
+              totalDuration: { type: 'number', description: 'minutes, walking and visits' },
+              totalDistance: { type: 'number', description: 'meters' },
+              estimatedCost: { type: ['number', 'null'] },
+              difficulty: { type: ['string', 'null'], enum: ['easy', 'moderate', 'challenging', null] }
+            },
+            required: ['id', 'name', 'description', 'points', 'totalDuration', 'totalDistance', 'estimatedCost', 'difficulty'],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ['trips'],
+      additionalProperties: false
+    }
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value);
+};
+
+const normaliseName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Find the real point behind what the model returned: by id first, then by
+// name, then by proximity. The model's coordinates are never trusted.
+const resolveCandidate = (
+  raw: Record<string, unknown>,
+  candidatesById: Map<string, CandidatePoint>,
+  candidates: CandidatePoint[]
+): CandidatePoint | null => {
+  if (typeof raw.id === 'string' && candidatesById.has(raw.id)) {
+    return candidatesById.get(raw.id) || null;
+  }
+
+  if (typeof raw.name === 'string') {
+    const name = normaliseName(raw.name);
+    const byName = candidates.find(candidate => normaliseName(candidate.name) === name);
+    if (byName) {
+      return byName;
+    }
+  }
+
+  if (isFiniteNumber(raw.latitude) && isFiniteNumber(raw.longitude)) {
+    let nearest: CandidatePoint | null = null;
+    let nearestDistance = SNAP_RADIUS_METERS;
+    for (const candidate of candidates) {
+      const distance = calculateDistance(raw.latitude, raw.longitude, candidate.latitude, candidate.longitude);
+      if (distance <= nearestDistance) {
+        nearest = candidate;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  return null;
+};
+
+const validatePoint = (
+  raw: unknown,
+  candidatesById: Map<string, CandidatePoint>,
+  candidates: CandidatePoint[],
+  errors: string[],
+  label: string
+): TripPoint | null => {
+  if (!isRecord(raw)) {
+    errors.push(`${label} is not an object`);
+    return null;
+  }
+
+  const candidate = resolveCandidate(raw, candidatesById, candidates);
+  if (!candidate) {
+    errors.push(`${label} "${String(raw.name ?? raw.id)}" (id ${String(raw.id)}) is not one of the supplied points`);
+    return null;
+  }
+
+  if (raw.id !== candidate.id) {
+    console.warn(`🩹 Snapped AI point "${String(raw.name)}" (${String(raw.id)}) to ${candidate.name} (${candidate.id})`);
+  }
+
+  const visitDuration = isFiniteNumber(raw.visitDuration) && raw.visitDuration > 0
+    ? Math.round(raw.visitDuration)
+    : DEFAULT_VISIT_DURATION;
+
+  return {
+    id: candidate.id,
+    name: candidate.name,
+    category: typeof raw.category === 'string' && raw.category ? raw.category : candidate.category,
+    latitude: candidate.latitude,
+    longitude: candidate.longitude,
+    visitDuration,
+    description: typeof raw.description === 'string' && raw.description ? raw.description : candidate.description,
+    openingHours: candidate.openingHours
+  };
+};
+
+const validateTrip = (
+  raw: unknown,
+  index: number,
+  candidatesById: Map<string, CandidatePoint>,
+  candidates: CandidatePoint[],
+  errors: string[],
+  planId: number
+): TripRoute | null => {
+  const label = `trips[${index}]`;
+  if (!isRecord(raw)) {
+    errors.push(`${label} is not an object`);
+    return null;
+  }
+  if (!Array.isArray(raw.points)) {
+    errors.push(`${label}.points is missing`);
+    return null;
+  }
+
+  const points: TripPoint[] = [];
+  raw.points.forEach((rawPoint, pointIndex) => {
+    const point = validatePoint(rawPoint, candidatesById, candidates, errors, `${label}.points[${pointIndex}]`);
+    if (point && !points.some(existing => existing.id === point.id)) {
+      points.push(point);
+    }
+  });
+
+  if (points.length < MIN_TRIP_POINTS) {
+    errors.push(`${label} has ${points.length} valid point(s), at least ${MIN_TRIP_POINTS} are needed`);
+    return null;
+  }
+
+  const difficulty = raw.difficulty === 'easy' || raw.difficulty === 'moderate' || raw.difficulty === 'challenging'
+    ? raw.difficulty
+    : undefined;
+
+  return {
+    // The model reuses ids like "t1" in every plan, the library needs unique ones
+    id: `ai-${planId}-${index + 1}`,
+    name: typeof raw.name === 'string' && raw.name ? raw.name : `Trip ${index + 1}`,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    points,
+    totalDuration: isFiniteNumber(raw.totalDuration)
+      ? raw.totalDuration
+      : points.reduce((sum, point) => sum + point.visitDuration, 0),
+    totalDistance: isFiniteNumber(raw.totalDistance) ? raw.totalDistance : 0,
+    estimatedCost: isFiniteNumber(raw.estimatedCost) ? raw.estimatedCost : undefined,
+    difficulty,
+    planner: 'ai'
+  };
+};
+
+// Parse and validate a trip plan response. Points must come from the
+// candidates; unknown ones are snapped to a real point or dropped.
+export const validateTripPlan = (content: string, candidates: CandidatePoint[]): TripPlanValidationResult => {
+  const errors: string[] = [];
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return { trips: [], errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  if (!isRecord(parsed) || !Array.isArray(parsed.trips)) {
+    return { trips: [], errors: ['Response must be an object with a "trips" array'] };
+  }
+
+  const candidatesById = new Map(candidates.map(candidate => [candidate.id, candidate]));
+  const planId = Date.now();
+  const trips = parsed.trips
+    .map((trip, index) => validateTrip(trip, index, candidatesById, candidates, errors, planId))
+    .filter((trip): trip is TripRoute => trip !== null);
+
+  return { trips, errors };
+};
+
+// Readable outline of a trip plan that is still streaming: trip names with the
+// stops chosen so far. Relies on the schema's property order, where a trip's
+// name is followed by its description and a point's name by its category.
+export const describePartialTripPlan = (partial: string): string => {
+  const lines: string[] = [];
+  const namePattern = /"name"\s*:\s*"((?:[^"\\]|\\.)*)"\s*,\s*"(description|category)"/g;
+  let stop = 0;
+
+  for (const match of partial.matchAll(namePattern)) {
+    const name = match[1].replace(/\\(.)/g, '$1');
+    if (match[2] === 'description') {
+      lines.push(`${lines.length > 0 ? '\n' : ''}🗺️ ${name}`);
+      stop = 0;
+    } else {
+      stop++;
+      lines.push(`   ${stop}. ${name}`);
+    }
+  }
+
+  return lines.join('\n');
+};
@@ -1,5 +1,11 @@
-import OpenAI from 'openai';
-import { calculateWalkingDistances, calculateTripRouteSegments, type RouteDistance, type TripRouteSegment } from './tripRoutingService';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { isAbortError, streamChatCompletion } from './apiClient';
+import { calculateTripRouteSegments, TRAVEL_MODES, type TravelMode, type TripRouteSegment } from './tripRoutingService';
+import { distanceMatrixService, selectDurations, type DistanceMatrix } from './distanceMatrixService';
+import { TRIP_PLAN_RESPONSE_FORMAT, describePartialTripPlan, validateTripPlan, type CandidatePoint } from './tripPlanSchema';
+import { planRuleBasedTrips } from './ruleBasedTripPlanner';
+import { optimizeStopOrder, routeCost, type RouteOptimizationOptions } from './routeOptimizer';
+import { reorderForOpeningHours, scheduleTrip } from './tripScheduleService';
 
 export interface TripPoint {
   id: string;
@@ -9,6 +15,10 @@ export interface TripPoint {
   longitude: number;
   visitDuration: number; // in minutes
   description: string;
+  travelMode?: TravelMode; // how to get here, when it differs from the trip's mode
+  openingHours?: string; // OpenStreetMap opening_hours from the place provider
+  arrivalTime?: string; // ISO time from the schedule, see tripScheduleService
+  departureTime?: string;
 }
 
 export interface TripRoute {
@@ -22,47 +32,50 @@ export interface TripRoute {
   difficulty?: 'easy' | 'moderate' | 'challenging';
   routeGeometry?: Array<[number, number]>; // Mapbox route coordinates
   routeSegments?: TripRouteSegment[]; // Individual route segments with turn-by-turn data
+  planner?: 'ai' | 'rules' | 'manual'; // who picked the stops
+  mode?: TravelMode; // default for every leg, walking when missing
+  startTime?: string; // ISO time the trip sets off, now when missing
+  returnTo?: TripReturn; // round trips only
+}
+
+// Where a round trip finishes after its last stop, routed as one more segment
+export interface TripReturn {
+  id: 'home' | 'user';
+  latitude: number;
+  longitude: number;
 }
 
 export interface TripPlanningRequest {
   userInput: string;
   availablePoints: {
-    historical: Array<{ id: string; name: string; category: string; latitude: number; longitude: number; description: string }>;
-    food: Array<{ id: string; name: string; category: string; latitude: number; longitude: number; description: string }>;
-    accommodation: Array<{ id: string; name: string; category: string; latitude: number; longitude: number; description: string }>;
+    historical: Array<{ id: string; name: string; category: string; latitude: number; longitude: number; description: string; openingHours?: string }>;
+    food: Array<{ id: string; name: string; category: string; latitude: number; longitude: number; description: string; openingHours?: string }>;
+    accommodation: Array<{ id: string; name: string; category: string; latitude: number; longitude: number; description: string; openingHours?: string }>;
   };
   userLocation: { latitude: number; longitude: number };
   searchRadius: number; // Add search radius to validate points
-  routeDistances?: Array<{ from: string; to: string; distance: number; duration: number }>;
   homeLocation?: { latitude: number; longitude: number };
+  roundTrip?: boolean; // finish back at homeLocation (or the start); detected from the input when omitted
+  fixedFirstPointId?: string; // keep this stop first when optimising the order
+  fixedLastPointId?: string; // keep this stop last when optimising the order
+  startTime?: Date; // when the trip sets off, now when omitted
 }
 
-const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true
-});
-
-export const generateTripPlan = async (request: TripPlanningRequest): Promise<TripRoute[]> => {
-  try {
-    // Optimize: Only calculate distances for points that are likely to be used
-    const allPoints = [
-      ...request.availablePoints.historical,
-      ...request.availablePoints.food
-    ];
-
-    // Limit points to reduce API costs - take top 10 most relevant points
-    const limitedPoints = allPoints;
-    
-    const routingData = await calculateWalkingDistances(limitedPoints, request.userLocation);
-    
-    // Create a compact distance lookup for AI
-    const distanceInfo = routingData.distances.slice(0, 50).map(d => 
-      `${d.from} to ${d.to}: ${Math.round(d.distance)}m (${d.duration}min)`
-    ).join(', ');
+export interface TripStreamOptions {
+  signal?: AbortSignal; // aborting rejects with an AbortError, without falling back
+  onProgress?: (text: string) => void; // readable text streamed so far, for the chat bubble
+}
 
-    // Store routing data for later use
-    request.routeDistances = routingData.distances;
+// Attempts at a valid structured response before giving up
+const MAX_TRIP_ATTEMPTS = 3;
+// On mixed-mode trips, legs longer than this use the faster mode
+const MIXED_MODE_LEG_METERS = 1500;
 
+export const generateTripPlan = async (
+  request: TripPlanningRequest,
+  options: TripStreamOptions = {}
+): Promise<TripRoute[]> => {
+  try {
     // Optimize: Filter and create compact point data for AI (only within search radius)
     const filteredHistorical = filterValidAndRelevantPoints(
       request.availablePoints.historical, 
@@ -86,51 +99,127 @@ export const generateTripPlan = async (request: TripPlanningRequest): Promise<Tr
       8   // Increased from 2 to 8
     );
 
-    const compactHistorical = filteredHistorical.map((p: any) => ({
-      id: p.id,
-      name: p.name,
-      category: p.category,
-      lat: p.latitude,
-      lng: p.longitude
-    }));
-
-    const compactFood = filteredFood.map((p: any) => ({
-      id: p.id,
-      name: p.name,
-      category: p.category,
-      lat: p.latitude,
-      lng: p.longitude
-    }));
+    const keywords = parseTripKeywords(request.userInput);
+
+    // One all-pairs matrix in the requested mode, shared by the prompt and the optimiser
+    const distanceMatrix = await distanceMatrixService.getTravelMatrix([
+      { id: 'user', ...request.userLocation },
+      ...(request.homeLocation ? [{ id: 'home', ...request.homeLocation }] : []),
+      ...[...filteredHistorical, ...filteredFood, ...filteredAccommodation].map(p => ({
+        id: p.id,
+        latitude: p.latitude,
+        longitude: p.longitude
+      }))
+    ], keywords.transportation);
+
+    let trips: TripRoute[];
+    try {
+      trips = await requestAiTrips(request, {
+        historical: filteredHistorical,
+        food: filteredFood,
+        accommodation: filteredAccommodation
+      }, distanceMatrix, options);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.warn('⚠️ AI trip planning failed, falling back to the rule-based planner:', error);
+      trips = planRuleBasedTrips({ historical: filteredHistorical, food: filteredFood }, distanceMatrix, {
+        keywords,
+        startId: 'user',
+        endId: roundTripEndId(request),
+        planId: Date.now()
+      });
+      console.log(`📐 Rule-based planner built ${trips.length} trip(s)`);
+      if (trips.length === 0) {
+        throw error;
+      }
+    }
 
-    const compactAccommodation = filteredAccommodation.map((p: any) => ({
-      id: p.id,
-      name: p.name,
-      category: p.category,
-      lat: p.latitude,
-      lng: p.longitude
+    // Add real routing data to each trip, rule-based trips are already in travel order
+    const startTime = request.startTime || new Date();
+    const returnTo = tripReturn(request);
+    const processedTrips = await Promise.all(trips.map(trip => {
+      const ordered = trip.planner === 'rules' ? trip : optimizeTripOrder(trip, request, distanceMatrix);
+      return addRealRoutingData(
+        { ...assignTravelModes(fitOpeningHours(ordered, request, keywords, startTime), request.userLocation, keywords), returnTo },
+        request.userLocation
+      );
     }));
+    return processedTrips;
 
-    console.log("Historical points:", compactHistorical);
-    console.log("Food points:", compactFood);
-    console.log("Accommodation points:", compactAccommodation);
-    console.log("Total available historical points:", request.availablePoints.historical.length);
-    console.log("Total available food points:", request.availablePoints.food.length);
-    console.log("Total available accommodation points:", request.availablePoints.accommodation.length);
-    console.log("Search radius:", request.searchRadius);
-    console.log("User input:", request.userInput);
-
-    console.log("LOC:", request.userLocation);
-    console.log("DIST:", distanceInfo);
+  } catch (error) {
+    if (isAbortError(error)) {
+      console.log('🛑 Trip planning cancelled');
+      throw error;
+    }
+    console.error('Error generating trip plan:', error);
+    throw new Error('Failed to generate trip plan');
+  }
+};
 
-    const systemPrompt = `Create 1 personalized trip and 1 additional trip based on user request and available points.
+// Ask the model for trips over the filtered points, retrying with the
+// validation errors until at least one trip is usable
+const requestAiTrips = async (
+  request: TripPlanningRequest,
+  filtered: { historical: CandidatePoint[]; food: CandidatePoint[]; accommodation: CandidatePoint[] },
+  distanceMatrix: DistanceMatrix,
+  { signal, onProgress }: TripStreamOptions
+): Promise<TripRoute[]> => {
+  const { historical: filteredHistorical, food: filteredFood, accommodation: filteredAccommodation } = filtered;
+
+  const compactHistorical = filteredHistorical.map(p => ({
+    id: p.id,
+    name: p.name,
+    category: p.category,
+    lat: p.latitude,
+    lng: p.longitude,
+    ...(p.openingHours ? { hours: p.openingHours } : {})
+  }));
+
+  const compactFood = filteredFood.map(p => ({
+    id: p.id,
+    name: p.name,
+    category: p.category,
+    lat: p.latitude,
+    lng: p.longitude,
+    ...(p.openingHours ? { hours: p.openingHours } : {})
+  }));
+
+  const compactAccommodation = filteredAccommodation.map(p => ({
+    id: p.id,
+    name: p.name,
+    category: p.category,
+    lat: p.latitude,
+    lng: p.longitude
+  }));
+
+  const distanceInfo = formatDistanceInfo(distanceMatrix);
+  const mode = distanceMatrix.mode;
+  const startTime = request.startTime || new Date();
+
+  console.log("Historical points:", compactHistorical);
+  console.log("Food points:", compactFood);
+  console.log("Accommodation points:", compactAccommodation);
+  console.log("Total available historical points:", request.availablePoints.historical.length);
+  console.log("Total available food points:", request.availablePoints.food.length);
+  console.log("Total available accommodation points:", request.availablePoints.accommodation.length);
+  console.log("Search radius:", request.searchRadius);
+  console.log("User input:", request.userInput);
+
+  console.log("LOC:", request.userLocation);
+  console.log("DIST:", distanceInfo);
+
+  const systemPrompt = `Create 1 personalized trip and 1 additional trip based on user request and available points.
 
 RULES:
-- Respond with valid JSON only, double check the JSON is valid, especially in double quoting the strings and fields
+- Only use points listed in POINTS, with their exact id, name, latitude and longitude
 - Include 8 points max
 - Mix historical + food/coffee
 - Visit duration: 15-30min attractions, 30-45min food
 - Pay extra attention to the user input requests, especially the duration and interests
-- Use provided walking distances
+- The trip is by ${mode}: use the provided ${mode} times (DIST lists each location's nearest neighbours in ${mode} minutes, "user" is LOC)
+- The trip starts ${startTime.toLocaleString('en-GB', { weekday: 'long', hour: '2-digit', minute: '2-digit' })}: skip or reorder points whose "hours" (OpenStreetMap opening_hours) show them closed when reached
 - Never include 2 food places in consecutive order (unless the user explicitly asks for it, or if the second one is a coffee place) 
 
 POINTS:
@@ -138,91 +227,75 @@ H: ${JSON.stringify(compactHistorical)}
 F: ${JSON.stringify(compactFood)}
 
 LOC: ${request.userLocation.latitude}, ${request.userLocation.longitude}
-DIST: ${distanceInfo}
+DIST: ${distanceInfo}`;
 
-FORMAT:
-{"trips":[{"id":"t1","name":"Trip Name","description":"Brief description","points":[{"id":"p1","name":"Point Name","category":"historical","latitude":40.7,"longitude":-74.0,"visitDuration":45,"description":"Brief description"}],"totalDuration":180,"totalDistance":2500,"estimatedCost":25,"difficulty":"easy"}]}`;
+  const userPrompt = `You are a trip planner. Plan two trips based on user request: "${request.userInput}".`;
 
-    const userPrompt = `You are a trip planner. Plan two trips based on user request: "${request.userInput}". Make sure the JSON response is valid and double check the JSON is valid, especially in double quoting the strings and fields`;
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo", // Cheaper model
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt }
-      ],
+  // Points the model may use; anything else in its answer is snapped or dropped
+  const candidates: CandidatePoint[] = [...filteredHistorical, ...filteredFood, ...filteredAccommodation];
+  const messages: ChatCompletionMessageParam[] = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt }
+  ];
+  let trips: TripRoute[] = [];
+
+  // Retry with the validation errors until at least one trip is usable
+  for (let attempt = 1; attempt <= MAX_TRIP_ATTEMPTS && trips.length === 0; attempt++) {
+    const content = await streamChatCompletion({
+      model: "gpt-4o-mini", // Cheapest model with structured outputs
+      messages,
+      response_format: TRIP_PLAN_RESPONSE_FORMAT,
       temperature: 0.3, // Lower temperature for more focused responses
       presence_penalty: 0.1, // Reduce repetition
       frequency_penalty: 0.1 // Reduce repetition
+    }, {
+      signal,
+      onDelta: text => onProgress?.(describePartialTripPlan(text))
     });
 
-    const content = response.choices[0]?.message?.content;
     if (!content) {
       throw new Error('No response from OpenAI');
     }
-    console.log("Response from OpenAI:", content);
-    console.log("Response from OpenAI:", response);
-    
-    // Second OpenAI call to ensure proper JSON formatting
-    const jsonFormattingResponse = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo", // Cheapest model for formatting
-      messages: [
-        {
-          role: "system",
-          content: `You are a JSON formatter. Your ONLY job is to convert the given text into valid JSON format. 
+    console.log(`Response from OpenAI (attempt ${attempt}):`, content);
 
-RULES:
-- Return ONLY valid JSON, nothing else
-- Fix all quotes, brackets, and formatting issues
-- Ensure all field names are properly quoted
-- Ensure all string values are properly quoted
-- Remove any markdown formatting
-- Remove any extra text or explanations
-- If the input contains trip data, ensure it follows this exact structure:
-  {"trips":[{"id":"t1","name":"Trip Name","description":"Description","points":[{"id":"p1","name":"Point Name","category":"historical","latitude":40.7,"longitude":-74.0,"visitDuration":45,"description":"Description"}],"totalDuration":180,"totalDistance":2500,"estimatedCost":25,"difficulty":"easy"}]}
-
-- NEVER add any text before or after the JSON
-- NEVER include any explanations or comments
-- Return ONLY the cleaned JSON string`
-        },
-        {
-          role: "user",
-          content: `Convert this to valid JSON format:\n\n${content}`
-        }
-      ],
-      temperature: 0, // Zero temperature for consistent formatting
-      max_tokens: 4000,
-      presence_penalty: 0,
-      frequency_penalty: 0
-    });
-
-    const formattedContent = jsonFormattingResponse.choices[0]?.message?.content;
-    if (!formattedContent) {
-      throw new Error('No response from JSON formatting OpenAI call');
+    const validation = validateTripPlan(content, candidates);
+    trips = validation.trips;
+    if (validation.errors.length > 0) {
+      console.warn(`Trip plan validation issues (attempt ${attempt}):`, validation.errors);
     }
-    
-    console.log("Formatted JSON:", formattedContent);
-    
-    // Parse the JSON response
-    const parsedResponse = JSON.parse(formattedContent);
-    const trips = parsedResponse.trips || [];
 
-    // Add real routing data to each trip
-    const processedTrips = await Promise.all(trips.map((trip: any) => addRealRoutingData(trip, request.routeDistances || [], request.userLocation)));
-    return processedTrips;
+    if (trips.length === 0) {
+      messages.push(
+        { role: "assistant", content },
+        { role: "user", content: `That plan was rejected:\n- ${validation.errors.join('\n- ')}\nOnly use points from POINTS with their exact id and try again.` }
+      );
+    }
+  }
 
-  } catch (error) {
-    console.error('Error generating trip plan:', error);
-    throw new Error('Failed to generate trip plan');
+  if (trips.length === 0) {
+    throw new Error(`No valid trip plan after ${MAX_TRIP_ATTEMPTS} attempts`);
   }
+
+  return trips;
 };
 
-export const parseTripKeywords = (userInput: string) => {
+export interface TripKeywords {
+  duration: number; // in minutes
+  transportation: TravelMode; // the slowest mode asked for
+  longLegTransportation?: TravelMode; // a faster mode also asked for, used for the long legs
+  interests: string[];
+  budget: string;
+}
+
+export const parseTripKeywords = (userInput: string): TripKeywords => {
   const input = userInput.toLowerCase();
   
+  const modes = extractTransportation(input);
+
   return {
     duration: extractDuration(input),
-    transportation: extractTransportation(input),
+    transportation: modes[0],
+    longLegTransportation: modes.length > 1 ? modes[modes.length - 1] : undefined,
     interests: extractInterests(input),
     budget: extractBudget(input)
   };
@@ -246,12 +319,12 @@ const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: numbe
 
 // Filter points within search radius and prioritize by relevance
 const filterValidAndRelevantPoints = (
-  points: any[], 
+  points: CandidatePoint[],
   userInput: string, 
   userLocation: { latitude: number; longitude: number },
   searchRadius: number,
   maxPoints: number = 10
-) => {
+): CandidatePoint[] => {
   const input = userInput.toLowerCase();
   const keywords = input.split(' ').filter(word => word.length > 2);
   
@@ -352,18 +425,17 @@ const filterValidAndRelevantPoints = (
       const categoryBonus = isValidCategory ? 2 : 0;
       const finalRelevanceScore = relevanceScore + categoryBonus;
       
-      return { 
-        ...point, 
-        relevanceScore: finalRelevanceScore, 
-        distance,
+      return {
+        point,
+        relevanceScore: finalRelevanceScore,
         isWithinRadius,
         isValidCategory
       };
     })
-    .filter(point => point.isWithinRadius && point.isValidCategory) // Only include valid points within radius
+    .filter(scored => scored.isWithinRadius && scored.isValidCategory) // Only include valid points within radius
     .sort((a, b) => b.relevanceScore - a.relevanceScore) // Sort by relevance
     .slice(0, maxPoints)
-    .map(({ relevanceScore, distance, isWithinRadius, isValidCategory, ...point }) => point); // Remove helper fields
+    .map(scored => scored.point); // Drop the helper fields
     
   console.log(`Filtered to ${filteredPoints.length} points (was ${points.length})`);
   console.log(`Sample categories from original points:`, points.slice(0, 5).map(p => p.category));
@@ -386,11 +458,17 @@ const extractDuration = (input: string): number => {
   return 240;
 };
 
-const extractTransportation = (input: string): string => {
-  if (input.includes('walk') || input.includes('walking')) return 'walking';
-  if (input.includes('bike') || input.includes('cycling')) return 'cycling';
-  if (input.includes('drive') || input.includes('car')) return 'driving';
-  return 'walking'; // Default
+const TRANSPORTATION_PATTERNS: Record<TravelMode, RegExp> = {
+  walking: /\b(walk|walking|on foot|stroll)/,
+  cycling: /\b(bike|biking|bicycle|cycle|cycling)/,
+  transit: /\b(trams?|metro|subway|underground|u-bahn|s-bahn|bus|buses|public transport|transit)\b/,
+  driving: /\b(drive|driving|car)\b/
+};
+
+// Every mode mentioned, slowest first; "walk the old town, then cycle" gives both
+const extractTransportation = (input: string): TravelMode[] => {
+  const modes = TRAVEL_MODES.filter(mode => TRANSPORTATION_PATTERNS[mode].test(input));
+  return modes.length > 0 ? modes : ['walking']; // Default
 };
 
 const extractInterests = (input: string): string[] => {
@@ -403,20 +481,155 @@ const extractInterests = (input: string): string[] => {
   return interests;
 };
 
+const wantsRoundTrip = (input: string): boolean => {
+  return /\b(round trip|loop|circular|back home|back to (the )?(hotel|home|start)|return(ing)? (home|to))\b/i.test(input);
+};
+
 const extractBudget = (input: string): string => {
   if (input.includes('budget') || input.includes('cheap')) return 'budget';
   if (input.includes('luxury') || input.includes('expensive')) return 'luxury';
   return 'moderate';
 };
 
-const addRealRoutingData = async (trip: any, _routeDistances: RouteDistance[], userLocation: { latitude: number; longitude: number }): Promise<TripRoute> => {
-  // Use OpenAI's provided total distance and duration
-  const totalDistance = trip.totalDistance || 0;
-  const totalDuration = trip.totalDuration || 0;
+// Matrix id the trip has to finish at, or null for an open path
+const roundTripEndId = (request: TripPlanningRequest): string | null => {
+  const roundTrip = request.roundTrip ?? wantsRoundTrip(request.userInput);
+  if (!roundTrip) {
+    return null;
+  }
+  return request.homeLocation ? 'home' : 'user';
+};
+
+const tripReturn = (request: TripPlanningRequest): TripReturn | undefined => {
+  const endId = roundTripEndId(request);
+  if (endId === 'home' && request.homeLocation) {
+    return { id: 'home', ...request.homeLocation };
+  }
+  return endId === 'user' ? { id: 'user', ...request.userLocation } : undefined;
+};
+
+// For each location, the travel time to its nearest neighbours. The full
+// table grows quadratically, so the prompt only gets the pairs worth travelling.
+const formatDistanceInfo = (matrix: DistanceMatrix, neighbours: number = 5): string => {
+  return matrix.ids.map((fromId, from) => {
+    const nearest = matrix.ids
+      .map((toId, to) => ({ toId, minutes: matrix.durations[from][to] }))
+      .filter(entry => entry.toId !== fromId)
+      .sort((a, b) => a.minutes - b.minutes)
+      .slice(0, neighbours)
+      .map(entry => `${entry.toId} ${Math.round(entry.minutes)}min`);
+    return `${fromId}: ${nearest.join(', ')}`;
+  }).join('; ');
+};
+
+// Reorder the stops the AI picked so the trip is as short as possible.
+// Matrix index 0 is the start, 1..n are the stops and n+1 the round trip end.
+const optimizeTripOrder = <T extends { name?: string; points?: TripPoint[] }>(
+  trip: T,
+  request: TripPlanningRequest,
+  distanceMatrix?: DistanceMatrix
+): T => {
+  const points = trip.points || [];
+  if (points.length < 3) {
+    return trip;
+  }
+
+  const endId = roundTripEndId(request);
+  const ids = ['user', ...points.map(point => point.id), ...(endId ? [endId] : [])];
+  const locations = [
+    { id: 'user', ...request.userLocation },
+    ...points,
+    ...(endId === 'home' && request.homeLocation ? [{ id: 'home', ...request.homeLocation }] : []),
+    ...(endId === 'user' ? [{ id: 'user', ...request.userLocation }] : [])
+  ];
+  // Points the AI made up are not in the matrix, estimate those trips instead
+  const matrix = (distanceMatrix && selectDurations(distanceMatrix, ids))
+    || distanceMatrixService.estimateTravelMatrix(locations, distanceMatrix?.mode).durations;
+
+  const matrixIndexOf = (pointId?: string) => {
+    const index = pointId ? points.findIndex(point => point.id === pointId) : -1;
+    return index >= 0 ? index + 1 : undefined;
+  };
+  // A trip ending at a hotel should still end there
+  const lastPoint = points[points.length - 1];
+  const defaultLastPointId = lastPoint.category?.toLowerCase().includes('accommodation') ? lastPoint.id : undefined;
+
+  const options: RouteOptimizationOptions = {
+    startIndex: 0,
+    endIndex: endId ? ids.length - 1 : undefined,
+    firstStopIndex: matrixIndexOf(request.fixedFirstPointId),
+    lastStopIndex: matrixIndexOf(request.fixedLastPointId ?? defaultLastPointId)
+  };
+
+  const originalOrder = points.map((_, index) => index + 1);
+  const order = optimizeStopOrder(matrix, originalOrder, options);
+  const before = routeCost(matrix, originalOrder, options);
+  const after = routeCost(matrix, order, options);
+  console.log(`🧮 Optimised stop order for "${trip.name}": ${Math.round(before)}min → ${Math.round(after)}min travelling${endId ? ' (round trip)' : ''}`);
+
+  return {
+    ...trip,
+    points: order.map(index => points[index - 1])
+  };
+};
+
+// Reorder the stops when one would be closed on arrival and another order avoids it
+const fitOpeningHours = (
+  trip: TripRoute,
+  request: TripPlanningRequest,
+  keywords: TripKeywords,
+  startTime: Date
+): TripRoute => {
+  const reordered = reorderForOpeningHours({ ...trip, mode: keywords.transportation }, startTime, {
+    origin: request.userLocation,
+    fixedFirstPointId: request.fixedFirstPointId,
+    fixedLastPointId: request.fixedLastPointId
+  });
+  return reordered ? { ...trip, points: reordered.points } : trip;
+};
+
+// The requested mode for the whole trip; on mixed-mode trips the legs too long
+// for it switch to the faster mode
+const assignTravelModes = <T extends { points?: TripPoint[]; mode?: TravelMode }>(
+  trip: T,
+  userLocation: { latitude: number; longitude: number },
+  keywords: TripKeywords
+): T => {
+  const longLegMode = keywords.longLegTransportation;
+  if (!longLegMode || !trip.points) {
+    return { ...trip, mode: keywords.transportation };
+  }
+
+  let previous = userLocation;
+  const points = trip.points.map(point => {
+    const meters = calculateDistance(previous.latitude, previous.longitude, point.latitude, point.longitude);
+    previous = point;
+    return meters > MIXED_MODE_LEG_METERS ? { ...point, travelMode: longLegMode } : point;
+  });
+  const longLegs = points.filter(point => point.travelMode).length;
+  console.log(`🚦 Mixed-mode trip: ${points.length - longLegs} leg(s) ${keywords.transportation}, ${longLegs} leg(s) ${longLegMode}`);
+
+  return { ...trip, mode: keywords.transportation, points };
+};
+
+// Route every leg, including the way back on round trips, and take the totals
+// from the routed segments instead of the planner's guesses
+export const addRealRoutingData = async (trip: TripRoute, userLocation: { latitude: number; longitude: number }): Promise<TripRoute> => {
   const routeGeometry: Array<[number, number]> = [];
 
-  // Calculate individual route segments for turn-by-turn navigation
-  const routeSegments = await calculateTripRouteSegments(trip.points, userLocation);
+  // Calculate individual route segments for turn-by-turn navigation, transit
+  // legs leave at the trip's start time
+  const startTime = trip.startTime ? new Date(trip.startTime) : new Date();
+  const routeSegments = await calculateTripRouteSegments(trip.points, userLocation, trip.mode, startTime, trip.returnTo);
+  const totalDistance = routeSegments.length > 0
+    ? Math.round(routeSegments.reduce((sum, segment) => sum + segment.distance, 0))
+    : trip.totalDistance || 0;
+  const totalDuration = routeSegments.length > 0
+    ? Math.round(
+      routeSegments.reduce((sum, segment) => sum + segment.duration, 0) +
+      trip.points.reduce((sum, point) => sum + point.visitDuration, 0)
+    )
+    : trip.totalDuration || 0;
 
   // Build route geometry from real routing data
   for (let i = 0; i < routeSegments.length; i++) {
@@ -426,11 +639,12 @@ const addRealRoutingData = async (trip: any, _routeDistances: RouteDistance[], u
     }
   }
 
-  return {
+  // Clock times for every stop, from the routed legs
+  return scheduleTrip({
     ...trip,
     totalDistance,
     totalDuration,
     routeGeometry,
     routeSegments
-  };
+  }, startTime);
 }; 
\ No newline at end of file
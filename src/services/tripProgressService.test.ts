@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { createTripProgress, tripLegCount, updateTripProgress } from './tripProgressService';
+import type { TripPoint, TripRoute } from './tripPlanningService';
+import type { TripRouteSegment } from './tripRoutingService';
+
+// Stops along a meridian, about 111m apart, starting north of the origin
+const stop = (index: number): TripPoint => ({
+  id: `stop-${index}`,
+  name: `Stop ${index}`,
+  category: 'museum',
+  latitude: index * 0.001,
+  longitude: 0,
+  visitDuration: 20,
+  description: ''
+});
+
+// A straight segment between two [lat, lng] positions
+const segment = (from: string, to: string, start: [number, number], end: [number, number]): TripRouteSegment => ({
+  from,
+  to,
+  fromCoordinates: start,
+  toCoordinates: end,
+  distance: 0,
+  duration: 0,
+  geometry: [[start[1], start[0]], [end[1], end[0]]],
+  steps: []
+});
+
+const trip = (roundTrip: boolean): TripRoute => {
+  const points = [stop(1), stop(2), stop(3)];
+  const coordinates: Array<[number, number]> = [[0, 0], ...points.map(point => [point.latitude, point.longitude] as [number, number])];
+  const routeSegments = points.map((point, index) => segment(
+    index === 0 ? 'user' : points[index - 1].id, point.id, coordinates[index], coordinates[index + 1]
+  ));
+  if (roundTrip) {
+    routeSegments.push(segment(points[2].id, 'user', coordinates[3], [0, 0]));
+  }
+
+  return {
+    id: 'test',
+    name: 'Test trip',
+    points,
+    totalDuration: 0,
+    totalDistance: 0,
+    description: '',
+    routeSegments,
+    returnTo: roundTrip ? { id: 'user', latitude: 0, longitude: 0 } : undefined
+  };
+};
+
+describe('updateTripProgress', () => {
+  it('marks a reached stop as visited and moves to the next segment', () => {
+    const snapshot = updateTripProgress(trip(false), createTripProgress(), 0.001, 0);
+    expect(snapshot.visitedPointIds).toEqual(['stop-1']);
+    expect(snapshot.currentSegmentIndex).toBe(1);
+    expect(snapshot.isComplete).toBe(false);
+  });
+
+  it('leaves skipped stops unvisited', () => {
+    const snapshot = updateTripProgress(trip(false), createTripProgress(), 0.002, 0);
+    expect(snapshot.visitedPointIds).toEqual(['stop-2']);
+    expect(snapshot.currentSegmentIndex).toBe(2);
+  });
+
+  it('completes an open trip at its last stop', () => {
+    const snapshot = updateTripProgress(trip(false), createTripProgress(), 0.003, 0);
+    expect(snapshot.isComplete).toBe(true);
+  });
+
+  it('guides a round trip back to the start after its last stop', () => {
+    const route = trip(true);
+    expect(tripLegCount(route)).toBe(4);
+
+    const atLastStop = updateTripProgress(route, createTripProgress(), 0.003, 0);
+    expect(atLastStop.isComplete).toBe(false);
+    expect(atLastStop.currentSegmentIndex).toBe(3);
+    expect(atLastStop.distanceToNextPoint).toBeGreaterThan(300);
+
+    const onTheWayBack = updateTripProgress(route, atLastStop, 0.0015, 0.0001);
+    expect(onTheWayBack.isComplete).toBe(false);
+    expect(onTheWayBack.distanceFromRoute).toBeLessThan(15);
+
+    const backAtStart = updateTripProgress(route, onTheWayBack, 0, 0);
+    expect(backAtStart.isComplete).toBe(true);
+    expect(backAtStart.currentSegmentIndex).toBe(4);
+  });
+});
@@ -0,0 +1,253 @@
+import type { TripReturn, TripRoute } from './tripPlanningService';
+import { calculateTripRouteSegments } from './tripRoutingService';
+import type { TripRouteSegment } from './tripRoutingService';
+import type { RouteStep } from './routingTypes';
+import { calculateDistance } from '../utils/mapBounds';
+
+// A stop counts as reached within this distance
+export const ARRIVAL_RADIUS_METERS = 25;
+
+// Further than this from the route (on top of the GPS accuracy) counts as off route
+export const OFF_ROUTE_THRESHOLD_METERS = 40;
+// Consecutive off-route fixes needed before rerouting, so one bad fix is ignored
+export const OFF_ROUTE_CONFIRMATIONS = 3;
+
+// Persisted alongside the current trip so progress survives a reload
+export interface TripProgress {
+  currentSegmentIndex: number; // routeSegments[i] leads to points[i]
+  currentStepIndex: number; // within the current segment
+  visitedPointIds: string[];
+}
+
+export interface TripProgressSnapshot extends TripProgress {
+  snappedPosition: [number, number] | null; // [lat, lng] on the route
+  distanceFromRoute: number | null; // metres between the user and the route
+  distanceAlongSegment: number; // metres walked on the current segment
+  distanceToNextStep: number | null;
+  distanceToNextPoint: number | null;
+  nextStep: RouteStep | null;
+  isComplete: boolean;
+}
+
+interface SnapResult {
+  point: [number, number]; // [lat, lng]
+  distanceFromRoute: number;
+  distanceAlong: number;
+}
+
+export const createTripProgress = (): TripProgress => ({
+  currentSegmentIndex: 0,
+  currentStepIndex: 0,
+  visitedPointIds: []
+});
+
+// Project the position onto a [lng, lat] polyline, using a local flat-earth
+// approximation which is accurate enough at walking scale
+export const snapToGeometry = (
+  latitude: number,
+  longitude: number,
+  geometry: Array<[number, number]>
+): SnapResult | null => {
+  if (geometry.length === 0) {
+    return null;
+  }
+
+  const metersPerDegreeLat = 111320;
+  const metersPerDegreeLng = 111320 * Math.cos(latitude * Math.PI / 180);
+  const toXY = ([lng, lat]: [number, number]): [number, number] => [
+    (lng - longitude) * metersPerDegreeLng,
+    (lat - latitude) * metersPerDegreeLat
+  ];
+
+  let best: SnapResult | null = null;
+  let walked = 0;
+
+  for (let i = 0; i < Math.max(geometry.length - 1, 1); i++) {
+    const start = geometry[i];
+    const end = geometry[Math.min(i + 1, geometry.length - 1)];
+    const [ax, ay] = toXY(start);
+    const [bx, by] = toXY(end);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    // The user sits at the origin, so project (0,0) onto the segment
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+    const px = ax + t * dx;
+    const py = ay + t * dy;
+    const distanceFromRoute = Math.sqrt(px * px + py * py);
+    const segmentLength = Math.sqrt(lengthSquared);
+
+    if (!best || distanceFromRoute < best.distanceFromRoute) {
+      best = {
+        point: [latitude + py / metersPerDegreeLat, longitude + px / metersPerDegreeLng],
+        distanceFromRoute,
+        distanceAlong: walked + t * segmentLength
+      };
+    }
+
+    walked += segmentLength;
+  }
+
+  return best;
+};
+
+export const geometryLength = (geometry: Array<[number, number]>): number => {
+  let length = 0;
+  for (let i = 0; i < geometry.length - 1; i++) {
+    const [lng1, lat1] = geometry[i];
+    const [lng2, lat2] = geometry[i + 1];
+    length += calculateDistance(lat1, lng1, lat2, lng2);
+  }
+  return length;
+};
+
+// Cumulative distance at which each step ends. Step distances come from the
+// routing provider and may not add up to the geometry length, so they are scaled to it.
+const stepEndDistances = (segment: TripRouteSegment): number[] => {
+  const steps = segment.steps || [];
+  const totalStepDistance = steps.reduce((sum, step) => sum + step.distance, 0);
+  const length = geometryLength(segment.geometry);
+  const scale = totalStepDistance > 0 && length > 0 ? length / totalStepDistance : 1;
+
+  let stepEnd = 0;
+  return steps.map(step => {
+    stepEnd += step.distance * scale;
+    return stepEnd;
+  });
+};
+
+// Round trips end with one more segment, from the last stop back to the start
+const tripReturnLeg = (route: TripRoute): TripReturn | null =>
+  route.returnTo && route.points.length > 0 ? route.returnTo : null;
+
+export const tripLegCount = (route: TripRoute): number =>
+  route.points.length + (tripReturnLeg(route) ? 1 : 0);
+
+// Advance the trip from a new position: mark reached stops as visited, move to
+// the next segment and work out the current turn-by-turn step
+export const updateTripProgress = (
+  route: TripRoute,
+  progress: TripProgress,
+  latitude: number,
+  longitude: number
+): TripProgressSnapshot => {
+  const segments = route.routeSegments || [];
+  const visited = new Set(progress.visitedPointIds);
+  let segmentIndex = progress.currentSegmentIndex;
+
+  // Any unvisited stop within reach counts, even if the walker skipped ahead.
+  // Stops skipped on the way are passed but stay unvisited.
+  route.points.forEach((point, index) => {
+    if (visited.has(point.id) || index < segmentIndex) {
+      return;
+    }
+    if (calculateDistance(latitude, longitude, point.latitude, point.longitude) <= ARRIVAL_RADIUS_METERS) {
+      console.log(`📍 Reached trip stop ${index + 1}: ${point.name}`);
+      visited.add(point.id);
+      segmentIndex = index + 1;
+    }
+  });
+
+  const returnLeg = tripReturnLeg(route);
+  if (
+    returnLeg && segmentIndex === route.points.length &&
+    calculateDistance(latitude, longitude, returnLeg.latitude, returnLeg.longitude) <= ARRIVAL_RADIUS_METERS
+  ) {
+    console.log(`🏁 Back at the ${returnLeg.id === 'home' ? 'home address' : 'start'}`);
+    segmentIndex++;
+  }
+
+  const visitedPointIds = route.points.map(point => point.id).filter(id => visited.has(id));
+  const isComplete = segmentIndex >= tripLegCount(route);
+  const segment = segments[segmentIndex];
+  const target = route.points[segmentIndex] ?? returnLeg;
+
+  if (isComplete || !segment) {
+    return {
+      currentSegmentIndex: segmentIndex,
+      currentStepIndex: 0,
+      visitedPointIds,
+      snappedPosition: null,
+      distanceFromRoute: null,
+      distanceAlongSegment: 0,
+      distanceToNextStep: null,
+      distanceToNextPoint: isComplete || !target ? null : calculateDistance(
+        latitude, longitude, target.latitude, target.longitude
+      ),
+      nextStep: null,
+      isComplete
+    };
+  }
+
+  const snap = snapToGeometry(latitude, longitude, segment.geometry);
+  const distanceAlong = snap?.distanceAlong ?? 0;
+  const stepEnds = stepEndDistances(segment);
+  const walkedStepIndex = stepEnds.findIndex(stepEnd => distanceAlong < stepEnd);
+  const currentStepIndex = walkedStepIndex === -1 ? Math.max(stepEnds.length - 1, 0) : walkedStepIndex;
+  // Never step backwards on the same segment because of GPS noise
+  const stepIndex = segmentIndex === progress.currentSegmentIndex
+    ? Math.min(Math.max(currentStepIndex, progress.currentStepIndex), Math.max(stepEnds.length - 1, 0))
+    : currentStepIndex;
+
+  return {
+    currentSegmentIndex: segmentIndex,
+    currentStepIndex: stepIndex,
+    visitedPointIds,
+    snappedPosition: snap?.point ?? null,
+    distanceFromRoute: snap?.distanceFromRoute ?? null,
+    distanceAlongSegment: distanceAlong,
+    distanceToNextStep: stepEnds.length > 0 ? Math.max(0, stepEnds[stepIndex] - distanceAlong) : null,
+    distanceToNextPoint: Math.max(0, geometryLength(segment.geometry) - distanceAlong),
+    nextStep: segment.steps?.[stepIndex] ?? null,
+    isComplete
+  };
+};
+
+export const isOffRoute = (snapshot: TripProgressSnapshot, accuracy?: number | null): boolean => {
+  if (snapshot.isComplete || snapshot.distanceFromRoute === null) {
+    return false;
+  }
+  return snapshot.distanceFromRoute > OFF_ROUTE_THRESHOLD_METERS + Math.min(accuracy ?? 0, OFF_ROUTE_THRESHOLD_METERS);
+};
+
+// Replace the remaining segments with a fresh route from the current position.
+// Segments already walked are kept, so routeSegments[i] still leads to points[i].
+export const rerouteTrip = async (
+  route: TripRoute,
+  progress: TripProgress,
+  latitude: number,
+  longitude: number
+): Promise<TripRoute> => {
+  const remainingPoints = route.points.slice(progress.currentSegmentIndex);
+  const returnLeg = tripReturnLeg(route);
+  let newSegments: TripRouteSegment[];
+
+  if (remainingPoints.length > 0) {
+    console.log(`🔀 Rerouting to ${remainingPoints[0].name} and ${remainingPoints.length - 1} more stop(s)`);
+    newSegments = await calculateTripRouteSegments(remainingPoints, { latitude, longitude }, route.mode, new Date(), returnLeg ?? undefined);
+  } else if (returnLeg && progress.currentSegmentIndex === route.points.length) {
+    // On the way back only the return segment is left to replace
+    console.log('🔀 Rerouting back to the start');
+    newSegments = await calculateTripRouteSegments([returnLeg], { latitude, longitude }, route.mode, new Date());
+  } else {
+    return route;
+  }
+
+  const routeSegments = [
+    ...(route.routeSegments || []).slice(0, progress.currentSegmentIndex),
+    ...newSegments
+  ];
+
+  const routeGeometry: Array<[number, number]> = [];
+  routeSegments.forEach(segment => {
+    if (segment.geometry) {
+      routeGeometry.push(...segment.geometry);
+    }
+  });
+
+  return {
+    ...route,
+    routeSegments,
+    routeGeometry
+  };
+};
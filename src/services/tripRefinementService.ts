@@ -0,0 +1,367 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { ResponseFormatJSONSchema } from 'openai/resources/shared';
+import { streamChatCompletion } from './apiClient';
+import { addRealRoutingData, type TripPoint, type TripRoute, type TripStreamOptions } from './tripPlanningService';
+import type { CandidatePoint } from './tripPlanSchema';
+import { TRAVEL_MODES, TRAVEL_SPEEDS, type TravelMode } from './tripRoutingService';
+import { calculateDistance } from '../utils/mapBounds';
+
+export type TripEditOperation =
+  | { type: 'add_point'; pointId: string; position?: number } // position is 0-based, appended when omitted
+  | { type: 'remove_point'; pointId: string }
+  | { type: 'replace_point'; pointId: string; newPointId: string }
+  | { type: 'reorder'; pointIds: string[] }
+  | { type: 'set_visit_duration'; pointId: string; minutes: number }
+  | { type: 'set_total_duration'; minutes: number } // drops stops from the end until the trip fits
+  | { type: 'set_travel_mode'; mode: TravelMode } // the whole trip, clears per-leg modes
+  | { type: 'set_leg_mode'; pointId: string; mode: TravelMode | null }; // getting to one stop, null for the trip's mode
+
+export interface TripEditResult {
+  trip: TripRoute;
+  applied: TripEditOperation[];
+  rejected: Array<{ operation: TripEditOperation; reason: string }>;
+}
+
+export interface ChatTurn {
+  type: 'user' | 'ai';
+  content: string;
+}
+
+export interface TripRefinementRequest {
+  userInput: string;
+  conversation: ChatTurn[]; // earlier messages, oldest first
+  trips: TripRoute[]; // trips the user can refer to
+  selectedTripId: string | null;
+  candidates: CandidatePoint[];
+  userLocation: { latitude: number; longitude: number };
+}
+
+export type TripRefinementResult =
+  | { kind: 'edited'; trip: TripRoute; reply: string; rejected: TripEditResult['rejected'] }
+  | { kind: 'new_trip'; reply: string }; // the message asks for a different trip, plan from scratch
+
+const MAX_CONVERSATION_TURNS = 10;
+const MAX_PROMPT_CANDIDATES = 40;
+const DEFAULT_VISIT_DURATION = 30;
+
+const EDIT_RESPONSE_FORMAT: ResponseFormatJSONSchema = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'trip_edits',
+    strict: true,
+    schema: {
+      type: 'object',
+      properties: {
+        intent: { type: 'string', enum: ['edit', 'new_trip'] },
+        tripId: { type: ['string', 'null'], description: 'trip to edit, null for the selected trip' },
+        operations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              type: {
+                type: 'string',
+                enum: [
+                  'add_point', 'remove_point', 'replace_point', 'reorder',
+                  'set_visit_duration', 'set_total_duration', 'set_travel_mode', 'set_leg_mode'
+                ]
+              },
+              pointId: { type: ['string', 'null'] },
+              newPointId: { type: ['string', 'null'] },
+              position: { type: ['number', 'null'] },
+              pointIds: { type: ['array', 'null'], items: { type: 'string' } },
+              minutes: { type: ['number', 'null'] },
+              mode: { type: ['string', 'null'], enum: [...TRAVEL_MODES, null] }
+            },
+            required: ['type', 'pointId', 'newPointId', 'position', 'pointIds', 'minutes', 'mode'],
+            additionalProperties: false
+          }
+        },
+        reply: { type: 'string', description: 'short message to the user describing the change' }
+      },
+      required: ['intent', 'tripId', 'operations', 'reply'],
+      additionalProperties: false
+    }
+  }
+};
+
+interface RawOperation {
+  type: string;
+  pointId: string | null;
+  newPointId: string | null;
+  position: number | null;
+  pointIds: string[] | null;
+  minutes: number | null;
+  mode: string | null;
+}
+
+const isTravelMode = (mode: string | null): mode is TravelMode => TRAVEL_MODES.includes(mode as TravelMode);
+
+// Turn the flat schema shape back into a typed operation, or null if fields are missing
+const toOperation = (raw: RawOperation): TripEditOperation | null => {
+  switch (raw.type) {
+    case 'add_point':
+      return raw.pointId ? { type: 'add_point', pointId: raw.pointId, position: raw.position ?? undefined } : null;
+    case 'remove_point':
+      return raw.pointId ? { type: 'remove_point', pointId: raw.pointId } : null;
+    case 'replace_point':
+      return raw.pointId && raw.newPointId ? { type: 'replace_point', pointId: raw.pointId, newPointId: raw.newPointId } : null;
+    case 'reorder':
+      return raw.pointIds ? { type: 'reorder', pointIds: raw.pointIds } : null;
+    case 'set_visit_duration':
+      return raw.pointId && raw.minutes ? { type: 'set_visit_duration', pointId: raw.pointId, minutes: raw.minutes } : null;
+    case 'set_total_duration':
+      return raw.minutes ? { type: 'set_total_duration', minutes: raw.minutes } : null;
+    case 'set_travel_mode':
+      return isTravelMode(raw.mode) ? { type: 'set_travel_mode', mode: raw.mode } : null;
+    case 'set_leg_mode':
+      return raw.pointId ? { type: 'set_leg_mode', pointId: raw.pointId, mode: isTravelMode(raw.mode) ? raw.mode : null } : null;
+    default:
+      return null;
+  }
+};
+
+const toTripPoint = (candidate: CandidatePoint): TripPoint => ({
+  id: candidate.id,
+  name: candidate.name,
+  category: candidate.category,
+  latitude: candidate.latitude,
+  longitude: candidate.longitude,
+  visitDuration: DEFAULT_VISIT_DURATION,
+  description: candidate.description,
+  openingHours: candidate.openingHours
+});
+
+// Rough trip length: visits plus straight-line travel, enough to decide what to trim
+const estimateDuration = (
+  points: TripPoint[],
+  userLocation: { latitude: number; longitude: number },
+  mode: TravelMode
+): number => {
+  let minutes = 0;
+  let previous = userLocation;
+  points.forEach(point => {
+    const speed = TRAVEL_SPEEDS[point.travelMode || mode];
+    minutes += calculateDistance(previous.latitude, previous.longitude, point.latitude, point.longitude) / speed;
+    minutes += point.visitDuration;
+    previous = point;
+  });
+  return minutes;
+};
+
+// Apply edit operations in order. Operations that refer to unknown points are
+// rejected with a reason instead of failing the whole edit.
+export const applyTripEdits = (
+  trip: TripRoute,
+  operations: TripEditOperation[],
+  candidates: CandidatePoint[],
+  userLocation: { latitude: number; longitude: number }
+): TripEditResult => {
+  const candidatesById = new Map(candidates.map(candidate => [candidate.id, candidate]));
+  let points = [...trip.points];
+  let totalDuration = trip.totalDuration;
+  let mode = trip.mode;
+  const applied: TripEditOperation[] = [];
+  const rejected: TripEditResult['rejected'] = [];
+
+  const reject = (operation: TripEditOperation, reason: string) => {
+    rejected.push({ operation, reason });
+  };
+  const indexOf = (pointId: string) => points.findIndex(point => point.id === pointId);
+
+  operations.forEach(operation => {
+    switch (operation.type) {
+      case 'add_point': {
+        const candidate = candidatesById.get(operation.pointId);
+        if (!candidate) return reject(operation, `unknown point ${operation.pointId}`);
+        if (indexOf(candidate.id) !== -1) return reject(operation, `${candidate.name} is already in the trip`);
+        const position = Math.max(0, Math.min(operation.position ?? points.length, points.length));
+        points.splice(position, 0, toTripPoint(candidate));
+        break;
+      }
+      case 'remove_point': {
+        const index = indexOf(operation.pointId);
+        if (index === -1) return reject(operation, `${operation.pointId} is not in the trip`);
+        points.splice(index, 1);
+        break;
+      }
+      case 'replace_point': {
+        const index = indexOf(operation.pointId);
+        const candidate = candidatesById.get(operation.newPointId);
+        if (index === -1) return reject(operation, `${operation.pointId} is not in the trip`);
+        if (!candidate) return reject(operation, `unknown point ${operation.newPointId}`);
+        if (indexOf(candidate.id) !== -1) return reject(operation, `${candidate.name} is already in the trip`);
+        points[index] = toTripPoint(candidate);
+        break;
+      }
+      case 'reorder': {
+        const reordered = operation.pointIds
+          .map(pointId => points.find(point => point.id === pointId))
+          .filter((point): point is TripPoint => point !== undefined);
+        if (reordered.length !== points.length || new Set(operation.pointIds).size !== points.length) {
+          return reject(operation, 'the new order must list every stop exactly once');
+        }
+        points = reordered;
+        break;
+      }
+      case 'set_visit_duration': {
+        const index = indexOf(operation.pointId);
+        if (index === -1) return reject(operation, `${operation.pointId} is not in the trip`);
+        if (operation.minutes <= 0) return reject(operation, 'visit duration must be positive');
+        points[index] = { ...points[index], visitDuration: Math.round(operation.minutes) };
+        break;
+      }
+      case 'set_total_duration': {
+        if (operation.minutes <= 0) return reject(operation, 'duration must be positive');
+        while (points.length > 1 && estimateDuration(points, userLocation, mode || 'walking') > operation.minutes) {
+          points = points.slice(0, -1);
+        }
+        totalDuration = Math.round(operation.minutes);
+        break;
+      }
+      case 'set_travel_mode': {
+        mode = operation.mode;
+        points = points.map(point => ({ ...point, travelMode: undefined }));
+        break;
+      }
+      case 'set_leg_mode': {
+        const index = indexOf(operation.pointId);
+        if (index === -1) return reject(operation, `${operation.pointId} is not in the trip`);
+        // The trip's own mode needs no override
+        const travelMode = operation.mode && operation.mode !== (mode || 'walking') ? operation.mode : undefined;
+        points[index] = { ...points[index], travelMode };
+        break;
+      }
+    }
+    applied.push(operation);
+  });
+
+  if (points.length === 0) {
+    return { trip, applied: [], rejected: [...rejected, ...applied.map(operation => ({ operation, reason: 'a trip needs at least one stop' }))] };
+  }
+
+  return {
+    trip: { ...trip, points, totalDuration, mode },
+    applied,
+    rejected
+  };
+};
+
+// Recompute the segments of an edited trip with calculateTripRouteSegments
+// (via addRealRoutingData), which also takes the totals from them
+export const routeEditedTrip = async (
+  trip: TripRoute,
+  userLocation: { latitude: number; longitude: number }
+): Promise<TripRoute> => {
+  if (trip.points.length === 0) {
+    return { ...trip, totalDistance: 0, totalDuration: 0, routeGeometry: [], routeSegments: [] };
+  }
+  return addRealRoutingData(trip, userLocation);
+};
+
+// Places worth offering for additions: the closest ones to the trip
+const nearbyCandidates = (trip: TripRoute, candidates: CandidatePoint[]): CandidatePoint[] => {
+  const distanceToTrip = (candidate: CandidatePoint) => Math.min(
+    ...trip.points.map(point => calculateDistance(point.latitude, point.longitude, candidate.latitude, candidate.longitude))
+  );
+  return candidates
+    .filter(candidate => !trip.points.some(point => point.id === candidate.id))
+    .map(candidate => ({ candidate, distance: distanceToTrip(candidate) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_PROMPT_CANDIDATES)
+    .map(({ candidate }) => candidate);
+};
+
+const describeTrip = (trip: TripRoute): string => {
+  const stops = trip.points.map((point, index) =>
+    `${index + 1}. ${point.name} [id ${point.id}, ${point.category}, ${point.visitDuration}min${point.travelMode ? `, reached by ${point.travelMode}` : ''}]`
+  ).join('\n');
+  return `Trip "${trip.name}" (id ${trip.id}, ${trip.mode || 'walking'}, ${trip.totalDuration}min, ${Math.round(trip.totalDistance)}m):\n${stops}`;
+};
+
+// The reply field of a streaming edit response, as far as it has been written
+const partialReply = (partial: string): string => {
+  const match = partial.match(/"reply"\s*:\s*"((?:[^"\\]|\\.)*)/);
+  return match ? match[1].replace(/\\n/g, '\n').replace(/\\(.)/g, '$1') : '';
+};
+
+// Ask the model how to change one of the existing trips, apply its edits and re-route
+export const refineTrip = async (
+  request: TripRefinementRequest,
+  { signal, onProgress }: TripStreamOptions = {}
+): Promise<TripRefinementResult> => {
+  const selectedTrip = request.trips.find(trip => trip.id === request.selectedTripId) || request.trips[0];
+  if (!selectedTrip) {
+    return { kind: 'new_trip', reply: '' };
+  }
+
+  const offered = nearbyCandidates(selectedTrip, request.candidates);
+  const systemPrompt = `You edit walking, cycling, transit and driving trips in a conversation with the user.
+
+Decide whether the latest message changes an existing trip ("edit") or asks for a completely different trip ("new_trip").
+For edits, return operations that are applied in order:
+- add_point: pointId from OTHER PLACES, optional 0-based position
+- remove_point: pointId of a stop in the trip
+- replace_point: pointId of a stop in the trip, newPointId from OTHER PLACES
+- reorder: pointIds, every stop of the trip exactly once
+- set_visit_duration: pointId and minutes
+- set_total_duration: minutes, stops are dropped from the end until the trip fits
+- set_travel_mode: mode (walking, cycling, transit or driving) for the whole trip
+- set_leg_mode: pointId and mode for getting to that stop, mode null to use the trip's mode
+Only use ids listed below. Keep the reply short and friendly.
+
+SELECTED TRIP: ${selectedTrip.id}
+
+TRIPS:
+${request.trips.map(describeTrip).join('\n\n')}
+
+OTHER PLACES:
+${JSON.stringify(offered.map(candidate => ({ id: candidate.id, name: candidate.name, category: candidate.category })))}`;
+
+  const messages: ChatCompletionMessageParam[] = [
+    { role: 'system', content: systemPrompt },
+    ...request.conversation.slice(-MAX_CONVERSATION_TURNS).map((turn): ChatCompletionMessageParam => ({
+      role: turn.type === 'user' ? 'user' : 'assistant',
+      content: turn.content
+    })),
+    { role: 'user', content: request.userInput }
+  ];
+
+  const content = await streamChatCompletion({
+    model: 'gpt-4o-mini',
+    messages,
+    response_format: EDIT_RESPONSE_FORMAT,
+    temperature: 0.2
+  }, {
+    signal,
+    onDelta: text => onProgress?.(partialReply(text))
+  });
+
+  if (!content) {
+    throw new Error('No response from OpenAI');
+  }
+  console.log('Trip edit response from OpenAI:', content);
+
+  const parsed: { intent: string; tripId: string | null; operations: RawOperation[]; reply: string } = JSON.parse(content);
+  if (parsed.intent === 'new_trip') {
+    return { kind: 'new_trip', reply: parsed.reply };
+  }
+
+  const target = request.trips.find(trip => trip.id === parsed.tripId) || selectedTrip;
+  const operations = parsed.operations
+    .map(toOperation)
+    .filter((operation): operation is TripEditOperation => operation !== null);
+
+  const result = applyTripEdits(target, operations, request.candidates, request.userLocation);
+  if (result.rejected.length > 0) {
+    console.warn('Rejected trip edits:', result.rejected);
+  }
+  if (result.applied.length === 0) {
+    return { kind: 'edited', trip: target, reply: parsed.reply, rejected: result.rejected };
+  }
+
+  console.log(`✏️ Applied ${result.applied.length} edit(s) to "${target.name}", re-routing`);
+  const routed = await routeEditedTrip(result.trip, request.userLocation);
+
+  return { kind: 'edited', trip: routed, reply: parsed.reply, rejected: result.rejected };
+};
@@ -1,12 +1,25 @@
-export interface RouteStep {
-  instruction: string;
-  distance: number;
-  duration: number;
-  maneuver: {
-    type: string;
-    instruction: string;
-  };
-}
+import { routingService } from './routingService';
+import { describeTransitLeg, transitService, type TransitLeg } from './transitService';
+import { STREET_SPEEDS, type RouteStep, type StreetMode } from './routingTypes';
+
+// Street modes plus transit legs from the local GTFS timetable
+export type TravelMode = StreetMode | 'transit';
+
+// Slowest first
+export const TRAVEL_MODES: TravelMode[] = ['walking', 'cycling', 'transit', 'driving'];
+
+// Straight-line speeds in metres per minute, used when no route is available
+export const TRAVEL_SPEEDS: Record<TravelMode, number> = {
+  ...STREET_SPEEDS,
+  transit: 250 // including the walk to the stop and the wait
+};
+
+export const TRAVEL_MODE_ICONS: Record<TravelMode, string> = {
+  walking: '🚶',
+  cycling: '🚴',
+  transit: '🚇',
+  driving: '🚗'
+};
 
 export interface RouteDistance {
   from: string;
@@ -17,141 +30,61 @@ export interface RouteDistance {
   steps?: RouteStep[];
 }
 
-export interface TripRoutingData {
-  distances: RouteDistance[];
-  totalDistance: number;
-  totalDuration: number;
+interface LegRoute {
+  distance: number; // in meters
+  duration: number; // in minutes
+  geometry: Array<[number, number]>; // [lng, lat]
+  steps: RouteStep[];
+  transitLegs?: TransitLeg[]; // transit legs only
 }
 
-const MAPBOX_API_KEY = import.meta.env.VITE_MAPBOX_API_KEY;
-
-export const calculateWalkingDistances = async (
-  points: Array<{ id: string; latitude: number; longitude: number }>,
-  userLocation: { latitude: number; longitude: number }
-): Promise<TripRoutingData> => {
-  const distances: RouteDistance[] = [];
-  let totalDistance = 0;
-  let totalDuration = 0;
-
-  // Add user location as starting point
-  const allPoints = [
-    { id: 'user', latitude: userLocation.latitude, longitude: userLocation.longitude },
-    ...points
-  ];
-
-  // Calculate distances between consecutive points
-  for (let i = 0; i < allPoints.length - 1; i++) {
-    const from = allPoints[i];
-    const to = allPoints[i + 1];
-
-    try {
-      const routeData = await getWalkingRoute(
-        from.latitude, from.longitude,
-        to.latitude, to.longitude
-      );
-
-      const distance: RouteDistance = {
-        from: from.id,
-        to: to.id,
-        distance: routeData.distance,
-        duration: routeData.duration,
-        geometry: routeData.geometry,
-        steps: routeData.steps
-      };
-
-      distances.push(distance);
-      totalDistance += routeData.distance;
-      totalDuration += routeData.duration;
-
-    } catch (error) {
-      console.error(`Error calculating route from ${from.id} to ${to.id}:`, error);
-      
-      // Fallback to straight-line distance
-      const fallbackDistance = calculateStraightLineDistance(
-        from.latitude, from.longitude,
-        to.latitude, to.longitude
-      );
-      
-      const distance: RouteDistance = {
-        from: from.id,
-        to: to.id,
-        distance: fallbackDistance,
-        duration: Math.ceil(fallbackDistance / 80), // Assume 80m/min walking speed
-        geometry: [[from.longitude, from.latitude], [to.longitude, to.latitude]],
-        steps: []
-      };
-
-      distances.push(distance);
-      totalDistance += fallbackDistance;
-      totalDuration += distance.duration;
-    }
-  }
-
-  return {
-    distances,
-    totalDistance,
-    totalDuration
-  };
-};
-
-const getWalkingRoute = async (
+// Street legs go through the routing chain, which ends in a straight line when
+// no router answers. Segments keep the Mapbox [lng, lat] order.
+const getLegRoute = async (
+  mode: StreetMode,
   fromLat: number, fromLng: number,
   toLat: number, toLng: number
-): Promise<{ distance: number; duration: number; geometry: Array<[number, number]>; steps: RouteStep[] }> => {
-  if (!MAPBOX_API_KEY) {
-    throw new Error('Mapbox API key not available');
-  }
-
-  const url = `https://api.mapbox.com/directions/v5/mapbox/walking/${fromLng},${fromLat};${toLng},${toLat}?geometries=geojson&steps=true&access_token=${MAPBOX_API_KEY}`;
-
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Mapbox API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  
-  if (!data.routes || data.routes.length === 0) {
-    throw new Error('No route found');
+): Promise<LegRoute> => {
+  const route = await routingService.calculateRoute({ lat: fromLat, lng: fromLng }, { lat: toLat, lng: toLng }, mode);
+  if (!route) {
+    throw new Error('No routing provider could calculate a route');
   }
 
-  const route = data.routes[0];
-  const geometry = route.geometry.coordinates.map((coord: [number, number]) => coord);
-  
-  const steps: RouteStep[] = route.legs[0].steps.map((step: any) => ({
-    instruction: step.maneuver.instruction,
-    distance: step.distance,
-    duration: step.duration,
-    maneuver: {
-      type: step.maneuver.type,
-      instruction: step.maneuver.instruction
-    }
-  }));
-
   return {
     distance: route.distance, // in meters
     duration: Math.ceil(route.duration / 60), // convert to minutes
-    geometry,
-    steps
+    geometry: route.geometry.map(([lat, lng]) => [lng, lat] as [number, number]),
+    steps: route.steps
   };
 };
 
-const calculateStraightLineDistance = (
-  lat1: number, lng1: number,
-  lat2: number, lng2: number
-): number => {
-  const R = 6371e3; // Earth's radius in meters
-  const φ1 = lat1 * Math.PI / 180;
-  const φ2 = lat2 * Math.PI / 180;
-  const Δφ = (lat2 - lat1) * Math.PI / 180;
-  const Δλ = (lng2 - lng1) * Math.PI / 180;
-
-  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) *
-    Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c; // Distance in meters
+// Walk, ride, walk from the timetable. Geometry is in Mapbox [lng, lat] order like the street legs.
+const getTransitLegRoute = async (
+  from: { name?: string; latitude: number; longitude: number },
+  to: { name?: string; latitude: number; longitude: number },
+  departAt: Date
+): Promise<LegRoute> => {
+  const journey = await transitService.planJourney(
+    { name: from.name || 'Start', latitude: from.latitude, longitude: from.longitude },
+    { name: to.name || 'Destination', latitude: to.latitude, longitude: to.longitude },
+    departAt
+  );
+
+  return {
+    distance: journey.distance,
+    duration: Math.ceil((journey.arrival - departAt.getTime()) / 60000), // including waits
+    geometry: journey.legs.flatMap(leg => (leg.type === 'ride'
+      ? leg.path
+      : [[leg.from.latitude, leg.from.longitude], [leg.to.latitude, leg.to.longitude]] as Array<[number, number]>
+    ).map(([lat, lng]) => [lng, lat] as [number, number])),
+    steps: journey.legs.map(leg => ({
+      instruction: describeTransitLeg(leg),
+      distance: leg.distance,
+      duration: (leg.arrival - leg.departure) / 1000,
+      maneuver: { type: leg.type === 'ride' ? 'transit' : 'walk', location: [leg.from.latitude, leg.from.longitude] }
+    })),
+    transitLegs: journey.legs
+  };
 };
 
 export const calculateTripRouteGeometry = (distances: RouteDistance[]): Array<[number, number]> => {
@@ -182,67 +115,75 @@ export interface TripRouteSegment {
   duration: number; // in minutes
   geometry: Array<[number, number]>; // Mapbox route coordinates
   steps: RouteStep[];
+  mode?: TravelMode; // how this leg was routed, walking for trips saved before modes
+  transitLegs?: TransitLeg[]; // transit legs only, with departure times
 }
 
+type SegmentPoint = {
+  id: string;
+  name?: string;
+  latitude: number;
+  longitude: number;
+  travelMode?: TravelMode;
+  visitDuration?: number; // in minutes, moves the clock on for the next transit departure
+};
+
+// Each leg is routed in the mode of the stop it leads to, or the trip's default mode.
+// Transit legs are timed from departAt plus the legs and visits before them, and
+// walked instead when the timetable has no connection. A round trip's way back
+// to returnTo is the last segment, after the one leading to the last stop.
 export const calculateTripRouteSegments = async (
-  tripPoints: Array<{ id: string; latitude: number; longitude: number }>,
-  userLocation: { latitude: number; longitude: number }
+  tripPoints: SegmentPoint[],
+  userLocation: { latitude: number; longitude: number },
+  defaultMode: TravelMode = 'walking',
+  departAt: Date = new Date(),
+  returnTo?: SegmentPoint
 ): Promise<TripRouteSegment[]> => {
   const segments: TripRouteSegment[] = [];
+  let clock = departAt.getTime();
+  const legPoints = returnTo && tripPoints.length > 0 ? [...tripPoints, returnTo] : tripPoints;
 
   // Add user location as starting point
   const allPoints = [
     { id: 'user', latitude: userLocation.latitude, longitude: userLocation.longitude },
-    ...tripPoints
+    ...legPoints
   ];
 
   // Calculate individual route segments between consecutive points
   for (let i = 0; i < allPoints.length - 1; i++) {
     const from = allPoints[i];
     const to = allPoints[i + 1];
-
-    try {
-      const routeData = await getWalkingRoute(
-        from.latitude, from.longitude,
-        to.latitude, to.longitude
-      );
-
-      const segment: TripRouteSegment = {
-        from: from.id,
-        to: to.id,
-        fromCoordinates: [from.latitude, from.longitude],
-        toCoordinates: [to.latitude, to.longitude],
-        distance: routeData.distance,
-        duration: routeData.duration,
-        geometry: routeData.geometry,
-        steps: routeData.steps
-      };
-
-      segments.push(segment);
-
-    } catch (error) {
-      console.error(`Error calculating route segment from ${from.id} to ${to.id}:`, error);
-      
-      // Fallback to straight-line distance
-      const fallbackDistance = calculateStraightLineDistance(
-        from.latitude, from.longitude,
-        to.latitude, to.longitude
-      );
-      
-      const segment: TripRouteSegment = {
-        from: from.id,
-        to: to.id,
-        fromCoordinates: [from.latitude, from.longitude],
-        toCoordinates: [to.latitude, to.longitude],
-        distance: fallbackDistance,
-        duration: Math.ceil(fallbackDistance / 80), // Assume 80m/min walking speed
-        geometry: [[from.longitude, from.latitude], [to.longitude, to.latitude]],
-        steps: []
-      };
-
-      segments.push(segment);
+    let mode = legPoints[i].travelMode || defaultMode;
+    let routeData: LegRoute | null = null;
+
+    if (mode === 'transit') {
+      try {
+        routeData = await getTransitLegRoute(from, to, new Date(clock));
+      } catch (error) {
+        console.warn(`⚠️ No transit connection from ${from.id} to ${to.id}, walking instead:`, error);
+        mode = 'walking';
+      }
+    }
+    if (!routeData) {
+      routeData = await getLegRoute(mode === 'transit' ? 'walking' : mode, from.latitude, from.longitude, to.latitude, to.longitude);
     }
+
+    const segment: TripRouteSegment = {
+      from: from.id,
+      to: to.id,
+      fromCoordinates: [from.latitude, from.longitude],
+      toCoordinates: [to.latitude, to.longitude],
+      distance: routeData.distance,
+      duration: routeData.duration,
+      geometry: routeData.geometry,
+      steps: routeData.steps,
+      mode,
+      transitLegs: routeData.transitLegs
+    };
+
+    segments.push(segment);
+    clock += (segment.duration + (legPoints[i].visitDuration || 0)) * 60000;
   }
 
   return segments;
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,215 @@
+import type { TripPoint, TripRoute } from './tripPlanningService';
+import { TRAVEL_SPEEDS } from './tripRoutingService';
+import { calculateDistance } from '../utils/mapBounds';
+import { getOpeningState, parseOpeningHours } from '../utils/openingHours';
+
+export type StopHoursStatus =
+  | 'open' // open for the whole visit
+  | 'waits' // opens shortly after arrival, the wait is part of the schedule
+  | 'closes_early' // closes before the planned visit ends
+  | 'closed' // closed when reached
+  | 'unknown'; // no opening hours, or hours this parser cannot read
+
+export interface ScheduledStop {
+  pointId: string;
+  arrival: Date;
+  departure: Date;
+  waitMinutes: number; // until the place opens
+  status: StopHoursStatus;
+  warning?: string;
+}
+
+export interface TripSchedule {
+  start: Date;
+  end: Date;
+  stops: ScheduledStop[];
+  warnings: string[];
+}
+
+export interface ScheduleOptions {
+  origin?: { latitude: number; longitude: number }; // where the trip sets off, the first routed leg's start by default
+  fixedFirstPointId?: string; // kept first when reordering
+  fixedLastPointId?: string; // kept last when reordering, a trailing hotel stays last by default
+}
+
+// Waiting this long outside is part of the plan, longer counts as closed
+const MAX_WAIT_MINUTES = 30;
+
+export const formatClockTime = (date: Date): string => {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+// "14:00", or "Tue 10:00" when it is not on the day of the visit
+const formatOpening = (opensAt: Date, arrival: Date): string => {
+  return opensAt.toDateString() === arrival.toDateString()
+    ? formatClockTime(opensAt)
+    : `${opensAt.toLocaleDateString([], { weekday: 'short' })} ${formatClockTime(opensAt)}`;
+};
+
+// Routed leg times while the segments still match the stop order, a
+// straight-line estimate in the leg's mode otherwise
+const legMinutes = (trip: TripRoute, points: TripPoint[], origin?: ScheduleOptions['origin']): number[] => {
+  const start = origin && [origin.latitude, origin.longitude];
+  return points.map((point, index) => {
+    const segment = trip.routeSegments?.[index];
+    const fromId = index === 0 ? 'user' : points[index - 1].id;
+    if (segment && segment.from === fromId && segment.to === point.id) {
+      return segment.duration;
+    }
+
+    const from = index === 0 ? start : [points[index - 1].latitude, points[index - 1].longitude];
+    if (!from) {
+      return 0;
+    }
+    const meters = calculateDistance(from[0], from[1], point.latitude, point.longitude);
+    return meters / TRAVEL_SPEEDS[point.travelMode || trip.mode || 'walking'];
+  });
+};
+
+// The way back on round trips, routed while it still leaves from the last stop
+const returnMinutes = (trip: TripRoute, points: TripPoint[]): number => {
+  const last = points[points.length - 1];
+  if (!trip.returnTo || !last) {
+    return 0;
+  }
+  const segment = trip.routeSegments?.[points.length];
+  if (segment && segment.from === last.id && segment.to === trip.returnTo.id) {
+    return segment.duration;
+  }
+  const meters = calculateDistance(last.latitude, last.longitude, trip.returnTo.latitude, trip.returnTo.longitude);
+  return meters / TRAVEL_SPEEDS[trip.mode || 'walking'];
+};
+
+const scheduleStops = (trip: TripRoute, points: TripPoint[], start: Date, origin?: ScheduleOptions['origin']): TripSchedule => {
+  const travel = legMinutes(trip, points, origin);
+  let clock = start.getTime();
+
+  const stops = points.map((point, index): ScheduledStop => {
+    const arrival = new Date(clock + travel[index] * 60000);
+    const hours = parseOpeningHours(point.openingHours);
+    let visitStart = arrival;
+    let status: StopHoursStatus = 'unknown';
+    let warning: string | undefined;
+
+    if (hours) {
+      let state = getOpeningState(hours, arrival);
+      if (!state.open && state.opensAt && state.opensAt.getTime() - arrival.getTime() <= MAX_WAIT_MINUTES * 60000) {
+        visitStart = state.opensAt;
+        state = getOpeningState(hours, visitStart);
+      }
+
+      if (!state.open) {
+        status = 'closed';
+        warning = `${point.name} is closed at ${formatClockTime(arrival)}` +
+          (state.opensAt ? ` (opens ${formatOpening(state.opensAt, arrival)})` : '');
+      } else if (state.closesAt && state.closesAt.getTime() < visitStart.getTime() + point.visitDuration * 60000) {
+        status = 'closes_early';
+        warning = `${point.name} closes at ${formatClockTime(state.closesAt)}, before the planned visit ends`;
+      } else {
+        status = visitStart === arrival ? 'open' : 'waits';
+      }
+    }
+
+    const departure = new Date(visitStart.getTime() + point.visitDuration * 60000);
+    clock = departure.getTime();
+    return {
+      pointId: point.id,
+      arrival,
+      departure,
+      waitMinutes: Math.round((visitStart.getTime() - arrival.getTime()) / 60000),
+      status,
+      warning
+    };
+  });
+
+  return {
+    start,
+    end: new Date(clock + returnMinutes(trip, points) * 60000),
+    stops,
+    warnings: stops.flatMap(stop => stop.warning ? [stop.warning] : [])
+  };
+};
+
+const tripOrigin = (trip: TripRoute): ScheduleOptions['origin'] => {
+  const from = trip.routeSegments?.[0]?.fromCoordinates;
+  return from && { latitude: from[0], longitude: from[1] };
+};
+
+// Clock times for every stop when setting off at `start`, waiting briefly for
+// places about to open and warning about the ones that are closed
+export const buildTripSchedule = (trip: TripRoute, start: Date, options: ScheduleOptions = {}): TripSchedule => {
+  return scheduleStops(trip, trip.points, start, options.origin ?? tripOrigin(trip));
+};
+
+// The trip with its start time and each stop's arrival and departure
+export const scheduleTrip = (trip: TripRoute, start: Date = trip.startTime ? new Date(trip.startTime) : new Date()): TripRoute => {
+  const schedule = buildTripSchedule(trip, start);
+  return {
+    ...trip,
+    startTime: start.toISOString(),
+    points: trip.points.map((point, index) => ({
+      ...point,
+      arrivalTime: schedule.stops[index].arrival.toISOString(),
+      departureTime: schedule.stops[index].departure.toISOString()
+    }))
+  };
+};
+
+// Closed stops weigh most, then stops closing mid-visit, then the length of the day
+const scheduleCost = (schedule: TripSchedule): number => {
+  const count = (status: StopHoursStatus) => schedule.stops.filter(stop => stop.status === status).length;
+  const minutes = (schedule.end.getTime() - schedule.start.getTime()) / 60000;
+  return count('closed') * 100000 + count('closes_early') * 10000 + minutes;
+};
+
+// Move single stops around while that lowers the cost, keeping fixed stops in
+// place. Every order is timed on estimated legs so they compare fairly; the
+// result needs routing again. Returns null when no order has fewer problems.
+export const reorderForOpeningHours = (trip: TripRoute, start: Date, options: ScheduleOptions = {}): TripRoute | null => {
+  const points = trip.points;
+  if (points.length < 2 || !points.some(point => parseOpeningHours(point.openingHours))) {
+    return null;
+  }
+
+  const last = points[points.length - 1];
+  const fixedLastPointId = options.fixedLastPointId
+    ?? (last.category?.toLowerCase().includes('accommodation') ? last.id : undefined);
+  const firstMovable = points[0].id === options.fixedFirstPointId ? 1 : 0;
+  const lastMovable = last.id === fixedLastPointId ? points.length - 2 : points.length - 1;
+  const problems = (schedule: TripSchedule) => schedule.stops.filter(stop => stop.status === 'closed' || stop.status === 'closes_early').length;
+
+  const origin = options.origin ?? tripOrigin(trip);
+  const unrouted: TripRoute = { ...trip, routeSegments: undefined };
+  const current = problems(buildTripSchedule(trip, start, { origin }));
+  if (current === 0) {
+    return null;
+  }
+
+  let order = points;
+  let cost = scheduleCost(scheduleStops(unrouted, points, start, origin));
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let from = firstMovable; from <= lastMovable; from++) {
+      for (let to = firstMovable; to <= lastMovable; to++) {
+        if (from === to) continue;
+        const candidate = [...order];
+        const [moved] = candidate.splice(from, 1);
+        candidate.splice(to, 0, moved);
+        const candidateCost = scheduleCost(scheduleStops(unrouted, candidate, start, origin));
+        if (candidateCost < cost) {
+          order = candidate;
+          cost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  const reordered = scheduleStops(unrouted, order, start, origin);
+  if (problems(reordered) >= current) {
+    return null;
+  }
+  console.log(`🕒 Reordered "${trip.name}" around opening hours: ${current} → ${problems(reordered)} stop(s) closed or closing early`);
+  return { ...trip, points: order };
+};
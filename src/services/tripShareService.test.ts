@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { TripShareError, decodeTripShare, encodeTripShare } from './tripShareService';
+import type { TripRoute } from './tripPlanningService';
+
+// A hand-made v2 token, as someone editing a link might produce
+const token = (trip: unknown): string =>
+  `2/${btoa(JSON.stringify(trip)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+
+const route: TripRoute = {
+  id: 'trip-1',
+  name: 'Old Town',
+  points: [
+    { id: 'a', name: 'Cathedral', category: 'church', latitude: 52.5, longitude: 13.4, visitDuration: 30, description: '' },
+    { id: 'b', name: 'Museum', category: 'museum', latitude: 52.51, longitude: 13.41, visitDuration: 45, description: '', travelMode: 'cycling' }
+  ],
+  totalDuration: 75,
+  totalDistance: 0,
+  description: '',
+  mode: 'walking'
+};
+
+describe('decodeTripShare', () => {
+  it('reads back an encoded trip', () => {
+    const { trip, profile } = decodeTripShare(encodeTripShare(route));
+    expect(profile).toBe('walking');
+    expect(trip.name).toBe('Old Town');
+    expect(trip.points.map(point => [point.id, point.name, point.category, point.visitDuration, point.travelMode]))
+      .toEqual([['a', 'Cathedral', 'church', 30, undefined], ['b', 'Museum', 'museum', 45, 'cycling']]);
+  });
+
+  it('rejects stops without a name', () => {
+    const shared = ['Trip', 'walking', [['a', 42, 'church', 5250000, 1340000, 30, 0]]];
+    expect(() => decodeTripShare(token(shared))).toThrow(TripShareError);
+  });
+
+  it('falls back to defaults for other malformed fields', () => {
+    const shared = ['Trip', 'teleport', [['a', 'Cathedral', null, 5250000, 1340000, 'long', 'flying']]];
+    const { trip, profile } = decodeTripShare(token(shared));
+    expect(profile).toBe('walking');
+    expect(trip.points[0]).toMatchObject({ category: 'Shared stop', visitDuration: 20, travelMode: undefined });
+  });
+});
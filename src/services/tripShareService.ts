@@ -0,0 +1,156 @@
+import type { TripPoint, TripRoute } from './tripPlanningService';
+import { TRAVEL_MODES, type TravelMode } from './tripRoutingService';
+
+// Share links look like /trip/<version>/<payload>. The payload is base64url
+// JSON of a compact tuple; bump the version whenever the tuple changes and
+// keep decoding the old ones.
+const SHARE_PATH_PREFIX = '/trip/';
+const TRIP_SHARE_VERSION = 2;
+const COORDINATE_SCALE = 1e5; // about a metre
+
+// v1: [name, profile, [[id, name, category, lat * 1e5, lng * 1e5, visitDuration], ...]]
+// v2: as v1, each stop adds the mode used to reach it (0 for the trip's profile)
+type SharedPointV1 = [string, string, string, number, number, number];
+type SharedPointV2 = [...SharedPointV1, TravelMode | 0];
+type SharedTripV1 = [string, TravelMode, SharedPointV1[]];
+type SharedTripV2 = [string, TravelMode, SharedPointV2[]];
+
+export interface SharedTrip {
+  trip: TripRoute; // points only, routing has to be recomputed
+  profile: TravelMode;
+}
+
+export class TripShareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TripShareError';
+  }
+}
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+// Short, stable id for a shared trip, so opening the same link twice is the same trip
+const hashPayload = (payload: string): string => {
+  let hash = 0;
+  for (let i = 0; i < payload.length; i++) {
+    hash = (hash * 31 + payload.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const toTravelMode = (mode: unknown): TravelMode | undefined => {
+  return TRAVEL_MODES.includes(mode as TravelMode) ? mode as TravelMode : undefined;
+};
+
+export const encodeTripShare = (trip: TripRoute): string => {
+  const shared: SharedTripV2 = [
+    trip.name,
+    trip.mode || 'walking',
+    trip.points.map(point => [
+      point.id,
+      point.name,
+      point.category,
+      Math.round(point.latitude * COORDINATE_SCALE),
+      Math.round(point.longitude * COORDINATE_SCALE),
+      point.visitDuration,
+      point.travelMode || 0
+    ])
+  ];
+  return `${TRIP_SHARE_VERSION}/${toBase64Url(JSON.stringify(shared))}`;
+};
+
+// v1 stops are v2 stops without a mode, so one decoder reads both
+const decodeV2 = (payload: string): SharedTrip => {
+  const [name, profile, points] = JSON.parse(fromBase64Url(payload)) as SharedTripV1 | SharedTripV2;
+  if (typeof name !== 'string' || !Array.isArray(points) || points.length === 0) {
+    throw new TripShareError('The shared trip has no stops');
+  }
+
+  // Links can be edited by hand, so every field is checked: a stop without an id,
+  // name or coordinates is rejected, anything else falls back to a default
+  const tripPoints: TripPoint[] = points.map((point: SharedPointV1 | SharedPointV2) => {
+    if (!Array.isArray(point)) {
+      throw new TripShareError('The shared trip has an invalid stop');
+    }
+    const [id, pointName, category, lat, lng, visitDuration, travelMode] = point;
+    if (
+      typeof id !== 'string' || typeof pointName !== 'string' || pointName.trim() === '' ||
+      !Number.isFinite(lat) || !Number.isFinite(lng)
+    ) {
+      throw new TripShareError('The shared trip has an invalid stop');
+    }
+    return {
+      id,
+      name: pointName,
+      category: typeof category === 'string' ? category : 'Shared stop',
+      latitude: lat / COORDINATE_SCALE,
+      longitude: lng / COORDINATE_SCALE,
+      visitDuration: Number.isFinite(visitDuration) && visitDuration > 0 ? visitDuration : 20,
+      description: '',
+      travelMode: toTravelMode(travelMode)
+    };
+  });
+  const mode = toTravelMode(profile) || 'walking';
+
+  return {
+    trip: {
+      id: `shared-${hashPayload(payload)}`,
+      name,
+      description: `Shared trip with ${tripPoints.length} stops`,
+      points: tripPoints,
+      totalDuration: tripPoints.reduce((sum, point) => sum + point.visitDuration, 0),
+      totalDistance: 0,
+      planner: 'manual',
+      mode
+    },
+    profile: mode
+  };
+};
+
+// token is "<version>/<payload>", as produced by encodeTripShare
+export const decodeTripShare = (token: string): SharedTrip => {
+  const separator = token.indexOf('/');
+  const version = Number(token.slice(0, separator));
+  const payload = token.slice(separator + 1);
+
+  try {
+    switch (version) {
+      case 1:
+      case 2:
+        return decodeV2(payload);
+      default:
+        throw new TripShareError(`Unsupported share link version ${token.slice(0, separator)}`);
+    }
+  } catch (error) {
+    if (error instanceof TripShareError) {
+      throw error;
+    }
+    throw new TripShareError('The share link is damaged or incomplete');
+  }
+};
+
+export const buildTripShareUrl = (trip: TripRoute): string => {
+  return new URL(`${SHARE_PATH_PREFIX}${encodeTripShare(trip)}`, window.location.origin).toString();
+};
+
+// The share token in a path like /trip/1/eyJ..., or null for any other path
+export const readTripShareToken = (pathname: string): string | null => {
+  if (!pathname.startsWith(SHARE_PATH_PREFIX)) {
+    return null;
+  }
+  const token = pathname.slice(SHARE_PATH_PREFIX.length).replace(/\/+$/, '');
+  return /^\d+\/[A-Za-z0-9_-]+$/.test(token) ? token : null;
+};
@@ -0,0 +1,91 @@
+import { decodePolyline, type Route, type RoutePoint, type RouteStep, type RoutingProvider, type StreetMode } from './routingTypes';
+
+// Valhalla has no public server to fall back on, it is used once
+// VITE_VALHALLA_URL points at one, e.g. http://localhost:8002
+const VALHALLA_URL = import.meta.env.VITE_VALHALLA_URL || '';
+
+const VALHALLA_COSTING: Record<StreetMode, string> = {
+  walking: 'pedestrian',
+  cycling: 'bicycle',
+  driving: 'auto'
+};
+
+interface ValhallaManeuver {
+  type: number;
+  instruction?: string;
+  length?: number; // kilometres
+  time?: number; // seconds
+  begin_shape_index?: number;
+}
+
+// Valhalla maneuver types are numbers: 1-3 start, 4-6 destination, 26-27 roundabout
+const maneuverType = (type: number): string => {
+  if (type >= 1 && type <= 3) return 'depart';
+  if (type >= 4 && type <= 6) return 'arrive';
+  if (type === 26 || type === 27) return 'roundabout';
+  return 'turn';
+};
+
+export class ValhallaService implements RoutingProvider {
+  name = 'Valhalla';
+  private baseUrl = VALHALLA_URL.replace(/\/+$/, '');
+
+  isAvailable(): boolean {
+    return this.baseUrl !== '';
+  }
+
+  async calculateRoute(start: RoutePoint, end: RoutePoint, profile: StreetMode = 'driving'): Promise<Route> {
+    const response = await fetch(`${this.baseUrl}/route`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        locations: [{ lat: start.lat, lon: start.lng }, { lat: end.lat, lon: end.lng }],
+        costing: VALHALLA_COSTING[profile],
+        units: 'kilometers'
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Valhalla route calculation failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const leg = data.trip?.legs?.[0];
+
+    if (data.trip?.status !== 0 || !leg) {
+      throw new Error(`No route found: ${data.trip?.status_message || data.error || 'empty response'}`);
+    }
+
+    // Valhalla shapes are polylines at six decimal places
+    let geometry = decodePolyline(leg.shape || '', 6);
+    if (geometry.length < 2) {
+      geometry = [[start.lat, start.lng], [end.lat, end.lng]];
+    }
+
+    // A maneuver's location is where its part of the shape starts
+    const steps: RouteStep[] = (leg.maneuvers as ValhallaManeuver[] || []).map(maneuver => ({
+      distance: (maneuver.length || 0) * 1000,
+      duration: maneuver.time || 0,
+      instruction: maneuver.instruction || 'Continue',
+      maneuver: {
+        type: maneuverType(maneuver.type),
+        location: geometry[Math.min(maneuver.begin_shape_index || 0, geometry.length - 1)]
+      }
+    }));
+
+    return {
+      distance: (data.trip.summary?.length || 0) * 1000,
+      duration: data.trip.summary?.time || 0,
+      steps,
+      geometry,
+      profile,
+      provider: this.name
+    };
+  }
+
+  getDirectionsUrl(start: RoutePoint, end: RoutePoint): string {
+    return `https://www.openstreetmap.org/directions?from=${start.lat},${start.lng}&to=${end.lat},${end.lng}`;
+  }
+}
+
+export const valhallaService = new ValhallaService();
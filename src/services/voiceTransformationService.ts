@@ -1,32 +1,22 @@
-import OpenAI from 'openai';
+import { createChatCompletion } from './apiClient';
 
-// External API options for authentic Megatron voice
+// Voice transformation options. Vendor API keys are held by the server proxy,
+// so the browser only decides which transformations to request.
 export interface VoiceTransformationOptions {
-  // ElevenLabs API for high-quality voice cloning
-  elevenLabsApiKey?: string;
-  // Play.ht API for voice synthesis
-  playHtApiKey?: string;
-  // Azure Speech Service for voice customization
-  azureSpeechKey?: string;
-  // OpenAI for text transformation
-  openaiApiKey?: string;
+  // OpenAI (via /api/chat/completions) for text transformation
+  useOpenAI?: boolean;
 }
 
 export class VoiceTransformationService {
-  private openai: OpenAI | null = null;
+  private useOpenAI: boolean;
 
   constructor(options: VoiceTransformationOptions) {
-    if (options.openaiApiKey) {
-      this.openai = new OpenAI({
-        apiKey: options.openaiApiKey,
-        dangerouslyAllowBrowser: true
-      });
-    }
+    this.useOpenAI = options.useOpenAI ?? false;
   }
 
   // Transform text to Megatron's speech pattern
   async transformToMegatronSpeak(text: string): Promise<string> {
-    if (!this.openai) {
+    if (!this.useOpenAI) {
       return this.getFallbackMegatronText(text);
     }
 
@@ -55,7 +45,7 @@ Original text: "${text}"
 
 Transform this to authentic Megatron-speak while keeping all the factual information intact:`;
 
-      const completion = await this.openai.chat.completions.create({
+      const completion = await createChatCompletion({
         model: "gpt-3.5-turbo",
         messages: [
           {
@@ -153,8 +143,8 @@ EXTERNAL VOICE API SETUP FOR AUTHENTIC MEGATRON VOICE:
    - Cost: Pay-per-character
 
 IMPLEMENTATION:
-- Add API keys to environment variables
-- Create voice transformation endpoints
+- Add API keys to the server environment (never VITE_* in the bundle)
+- Create voice transformation endpoints in server.cjs
 - Integrate with existing text-to-speech system
 - Cache transformed audio for performance
     `;
@@ -164,12 +154,8 @@ IMPLEMENTATION:
 // Factory function to create voice transformation service
 export const createVoiceTransformationService = (): VoiceTransformationService => {
   const options: VoiceTransformationOptions = {
-    openaiApiKey: import.meta.env.VITE_OPENAI_API_KEY,
-    // Add other API keys as needed
-    // elevenLabsApiKey: import.meta.env.VITE_ELEVENLABS_API_KEY,
-    // playHtApiKey: import.meta.env.VITE_PLAYHT_API_KEY,
-    // azureSpeechKey: import.meta.env.VITE_AZURE_SPEECH_KEY,
+    useOpenAI: true
   };
 
   return new VoiceTransformationService(options);
-}; 
\ No newline at end of file
+};
\ No newline at end of file
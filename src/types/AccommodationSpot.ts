@@ -9,6 +9,7 @@ export interface AccommodationSpot {
   rating?: number;
   priceRange?: string;
   amenities?: string[];
+  openingHours?: string; // OpenStreetMap opening_hours, e.g. "Tu-Su 10:00-18:00"
   distance: number; // distance from user location in meters
 }
 
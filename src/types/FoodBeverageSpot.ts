@@ -8,6 +8,7 @@ export interface FoodBeverageSpot {
   cuisine?: string;
   rating?: number;
   priceRange?: string;
+  openingHours?: string; // OpenStreetMap opening_hours, e.g. "Tu-Su 10:00-18:00"
   distance: number; // distance from user location in meters
 }
 
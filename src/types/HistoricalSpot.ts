@@ -7,6 +7,7 @@ export interface HistoricalSpot {
   category: string;
   period: string;
   significance: string;
+  openingHours?: string; // OpenStreetMap opening_hours, e.g. "Tu-Su 10:00-18:00"
   distance: number; // distance from user location in meters
 }
 
@@ -0,0 +1,5 @@
+export interface SpotSearchResult<T> {
+  spots: T[]; // closest places, capped for display
+  totalFound: number; // every place found inside the radius
+  complete: boolean; // false when the provider had more places than could be fetched
+}
@@ -55,6 +55,16 @@ export const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2
   return R * c;
 };
 
+// Initial bearing from the first point to the second, in degrees clockwise from north
+export const calculateBearing = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const lat1Rad = lat1 * Math.PI / 180;
+  const lat2Rad = lat2 * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const y = Math.sin(dLon) * Math.cos(lat2Rad);
+  const x = Math.cos(lat1Rad) * Math.sin(lat2Rad) - Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(dLon);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+};
+
 // Validate that coordinates are reasonable (not obviously wrong)
 export const validateCoordinates = (lat: number, lng: number): boolean => {
   // Basic validation - latitude must be between -90 and 90, longitude between -180 and 180
@@ -0,0 +1,174 @@
+// A practical subset of the OpenStreetMap opening_hours syntax, e.g.
+// "Mo-Fr 09:00-17:00; Sa 10:00-14:00; Su off" or "Apr-Oct Tu-Su 10:00-18:00".
+// Public and school holiday rules are skipped since the holidays are not known here.
+
+export interface OpeningHoursRule {
+  months: boolean[] | null; // indexed like Date.getMonth(), null for every month
+  days: boolean[]; // indexed like Date.getDay(), Sunday first
+  intervals: Array<[number, number]>; // minutes after midnight, the end may pass 24:00
+}
+
+export interface OpeningHours {
+  rules: OpeningHoursRule[]; // later rules override earlier ones for the days they name
+}
+
+export type OpeningState =
+  | { open: true; closesAt: Date | null } // null when it does not close within the week
+  | { open: false; opensAt: Date | null }; // null when it does not open within the week
+
+const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const HOLIDAYS = ['PH', 'SH'];
+const DAY_MINUTES = 24 * 60;
+const LOOKAHEAD_DAYS = 7;
+
+// "Mo-Fr,Su" or "Nov-Feb"; ranges may wrap around, like "Sa-Mo"
+const parseSelector = (text: string, names: string[]): boolean[] | null => {
+  const selected = names.map(() => false);
+  for (const part of text.split(',')) {
+    const [from, to = from] = part.split('-');
+    const start = names.indexOf(from);
+    const end = names.indexOf(to);
+    if (start < 0 || end < 0) {
+      return null;
+    }
+    for (let i = start; ; i = (i + 1) % names.length) {
+      selected[i] = true;
+      if (i === end) break;
+    }
+  }
+  return selected;
+};
+
+const parseTime = (time: string): number | null => {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+// "10:00-12:00,14:00-18:00", "22:00-02:00" (past midnight) or "18:00+" (open end)
+const parseIntervals = (text: string): Array<[number, number]> | null => {
+  const intervals: Array<[number, number]> = [];
+  for (const range of text.split(',')) {
+    const [from, to] = range.endsWith('+') ? [range.slice(0, -1), '24:00'] : range.split('-');
+    const start = parseTime(from);
+    const end = to === undefined ? null : parseTime(to);
+    if (start === null || end === null) {
+      return null;
+    }
+    intervals.push([start, end <= start ? end + DAY_MINUTES : end]);
+  }
+  return intervals;
+};
+
+// null for a rule this parser does not understand, 'skip' for holiday-only rules
+const parseRule = (text: string): OpeningHoursRule | 'skip' | null => {
+  const tokens = text.replace(/"[^"]*"/g, '').trim().split(/\s+/).filter(Boolean);
+  let months: boolean[] | null = null;
+  let days = WEEKDAYS.map(() => true);
+
+  if (tokens.length > 0 && /^[A-Z][a-z]{2}([-,][A-Z][a-z]{2})*$/.test(tokens[0]) && parseSelector(tokens[0], MONTHS)) {
+    months = parseSelector(tokens.shift()!, MONTHS);
+  }
+
+  if (tokens.length > 0 && /^[A-Z][A-Za-z]([-,][A-Z][A-Za-z])*$/.test(tokens[0])) {
+    const parts = tokens.shift()!.split(',').filter(part => !HOLIDAYS.includes(part));
+    if (parts.length === 0) {
+      return 'skip';
+    }
+    const selected = parseSelector(parts.join(','), WEEKDAYS);
+    if (!selected) {
+      return null;
+    }
+    days = selected;
+  }
+
+  const times = tokens.join('');
+  if (times === '' || times === 'open' || times === '24/7') {
+    return { months, days, intervals: [[0, DAY_MINUTES]] };
+  }
+  if (times === 'off' || times === 'closed') {
+    return { months, days, intervals: [] };
+  }
+  const intervals = parseIntervals(times);
+  return intervals ? { months, days, intervals } : null;
+};
+
+// null when the value is missing or uses syntax beyond this subset, so callers
+// treat the hours as unknown rather than guessing
+export const parseOpeningHours = (value?: string): OpeningHours | null => {
+  if (!value?.trim()) {
+    return null;
+  }
+
+  const rules: OpeningHoursRule[] = [];
+  for (const text of value.split(/;|\|\|/)) {
+    if (!text.trim()) continue;
+    const rule = parseRule(text);
+    if (rule === null) {
+      return null;
+    }
+    if (rule !== 'skip') {
+      rules.push(rule);
+    }
+  }
+  return rules.length > 0 ? { rules } : null;
+};
+
+const ruleFor = (hours: OpeningHours, day: Date): OpeningHoursRule | undefined => {
+  return [...hours.rules].reverse().find(rule =>
+    rule.days[day.getDay()] && (!rule.months || rule.months[day.getMonth()])
+  );
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Minutes may be negative or past 24:00, Date rolls them over
+const atMinutes = (day: Date, minutes: number): Date => {
+  const result = addDays(day, 0);
+  result.setMinutes(minutes);
+  return result;
+};
+
+// Open intervals on a day in minutes after its midnight, sorted, including the
+// part of the previous evening's opening that runs past midnight
+const intervalsOn = (hours: OpeningHours, day: Date): Array<[number, number]> => {
+  const overnight = (ruleFor(hours, addDays(day, -1))?.intervals || [])
+    .filter(([, end]) => end > DAY_MINUTES)
+    .map(([start, end]): [number, number] => [start - DAY_MINUTES, end - DAY_MINUTES]);
+  return [...overnight, ...(ruleFor(hours, day)?.intervals || [])].sort((a, b) => a[0] - b[0]);
+};
+
+// Every open interval from the start of this day to a week ahead, in minutes after its midnight
+const intervalsAhead = (hours: OpeningHours, at: Date): Array<[number, number]> => {
+  const intervals: Array<[number, number]> = [];
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS; offset++) {
+    intervalsOn(hours, addDays(at, offset)).forEach(([start, end]) => {
+      intervals.push([start + offset * DAY_MINUTES, end + offset * DAY_MINUTES]);
+    });
+  }
+  return intervals.sort((a, b) => a[0] - b[0]);
+};
+
+export const getOpeningState = (hours: OpeningHours, at: Date): OpeningState => {
+  const now = at.getHours() * 60 + at.getMinutes() + at.getSeconds() / 60;
+  const intervals = intervalsAhead(hours, at);
+  const current = intervals.find(([start, end]) => start <= now && now < end);
+
+  if (!current) {
+    const opening = intervals.find(([start]) => start > now);
+    return { open: false, opensAt: opening ? atMinutes(at, opening[0]) : null };
+  }
+
+  // Follow back-to-back intervals, e.g. "Mo-Su 00:00-24:00" across midnight
+  let end = current[1];
+  const continuing = () => intervals.find(([start, stop]) => start <= end && stop > end);
+  for (let next = continuing(); next; next = continuing()) {
+    end = next[1];
+  }
+  return { open: true, closesAt: end >= LOOKAHEAD_DAYS * DAY_MINUTES ? null : atMinutes(at, end) };
+};
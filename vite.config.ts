@@ -4,4 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // Vendor API keys live in server.cjs; run `npm run dev:server` alongside `npm run dev`
+    proxy: {
+      '/api': 'http://localhost:8080',
+    },
+  },
 })